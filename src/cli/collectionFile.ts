@@ -0,0 +1,31 @@
+import { readFileSync } from 'node:fs';
+import type { PuzzleCollection } from '../library/puzzleCollection';
+import { readCollection } from '../library/puzzleCollection';
+
+/**
+ * Node-side loader for collection files, for tests and scripts that need
+ * puzzles from disk. Throws when the file cannot be read or is not a valid
+ * collection, listing every problem found.
+ */
+
+export class CollectionFileError extends Error {
+  constructor(
+    readonly path: string,
+    readonly errors: string[],
+  ) {
+    super(`${path} is not a valid puzzle collection:\n  ${errors.join('\n  ')}`);
+    this.name = 'CollectionFileError';
+  }
+}
+
+export function loadCollectionFile(path: string): PuzzleCollection {
+  let text: string;
+  try {
+    text = readFileSync(path, 'utf8');
+  } catch (error) {
+    throw new CollectionFileError(path, [error instanceof Error ? error.message : String(error)]);
+  }
+  const { collection, errors } = readCollection(text);
+  if (!collection) throw new CollectionFileError(path, errors);
+  return collection;
+}
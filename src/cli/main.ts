@@ -0,0 +1,20 @@
+import './quietConsole';
+import { readFileSync } from 'node:fs';
+import { runCli } from './starBattle';
+
+runCli(
+  process.argv.slice(2).filter((arg) => arg !== '--verbose'),
+  {
+    readFile: (path) => readFileSync(path, 'utf8'),
+    out: (line) => process.stdout.write(`${line}\n`),
+    err: (line) => process.stderr.write(`${line}\n`),
+  },
+).then(
+  (code) => {
+    process.exitCode = code;
+  },
+  (error) => {
+    process.stderr.write(`${error instanceof Error ? (error.stack ?? error.message) : String(error)}\n`);
+    process.exitCode = 2;
+  },
+);
@@ -0,0 +1,10 @@
+// Imported before the solver modules, which log debug output through console.*
+// (some of it at load time). Pass --verbose to keep it.
+if (!process.argv.includes('--verbose')) {
+  const silent = () => {};
+  console.log = silent;
+  console.debug = silent;
+  console.info = silent;
+  console.warn = silent;
+  console.error = silent;
+}
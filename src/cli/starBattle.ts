@@ -0,0 +1,308 @@
+import type { PuzzleState } from '../types/puzzle';
+import type { Hint, TechniqueId, TechniqueTier } from '../types/hints';
+import { techniqueTiers } from '../types/hints';
+import { createEmptyPuzzleState, DEFAULT_STARS_PER_UNIT, maxStarsPerUnit, supportedStarCounts } from '../types/puzzle';
+import { formatPuzzleString } from '../logic/puzzleText';
+import { formatErrorText, parsePuzzle } from '../logic/formats';
+import { collectionPuzzleDef, isCollection, readCollection } from '../library/puzzleCollection';
+import { validateRegions, validateState, validateStructure } from '../logic/validation';
+import { countSolutions } from '../logic/search';
+import { findNextHint, solveLogically } from '../logic/solverEngine';
+import { techniqueNameById } from '../logic/techniques';
+import { difficultyLabelText, rateSolvePath } from '../logic/difficulty';
+import { DEFAULT_TRIAL_DEPTH } from '../logic/techniques/trial';
+import { describeMarks, hintMarks } from '../logic/solvePath';
+
+/**
+ * Command-line front end for the solver modules:
+ *
+ *   star-battle <command> <file> [options]
+ *
+ * Files may use any format the import box reads (see formats.ts); the
+ * format is detected from the contents. A collection file (see
+ * puzzleCollection.ts) is validated puzzle by puzzle; the other commands
+ * take one of its puzzles, picked with --puzzle.
+ * Exit codes: 0 success, 1 no logical solution / no hint / no solution,
+ * 2 usage error or invalid puzzle, 3 count hit its time limit before
+ * finding a solution (so it proves nothing).
+ */
+
+export interface CliIO {
+  readFile(path: string): string;
+  out(line: string): void;
+  err(line: string): void;
+}
+
+export const EXIT_OK = 0;
+export const EXIT_UNSOLVED = 1;
+export const EXIT_INVALID = 2;
+export const EXIT_INCONCLUSIVE = 3;
+
+const COMMANDS = ['solve', 'hint', 'count', 'rate', 'validate'] as const;
+type Command = (typeof COMMANDS)[number];
+
+interface CliOptions {
+  stars: number | null;
+  ignoreMarks: boolean;
+  maxTier: TechniqueTier | null;
+  trialDepth: number | undefined;
+  maxCount: number;
+  timeoutMs: number;
+  quiet: boolean;
+  /** 1-based puzzle number in a collection file. */
+  puzzle: number | null;
+}
+
+export const USAGE = `Usage: star-battle <command> <file> [options]
+
+Commands:
+  solve      apply logical hints until solved and print each step
+  hint       print the next logical hint
+  count      count solutions by search
+  rate       rate difficulty from the logical solve path
+  validate   check the regions, region shapes and marks
+
+Options:
+  --stars <n>         stars per unit when the file has no "stars:" header (default ${DEFAULT_STARS_PER_UNIT})
+  --ignore-marks      start from an empty board instead of the file's stars and crosses
+  --max-tier <1-5>    only use techniques up to this tier (solve, hint, rate)
+  --trial-depth <n>   steps the Trial technique may follow from an assumed star (default ${DEFAULT_TRIAL_DEPTH})
+  --max-count <n>     stop counting after n solutions (count, default 2)
+  --timeout <ms>      search time limit (count, default 10000)
+  --quiet             print only the result line (solve)
+  --puzzle <n>        the puzzle to use from a collection file (default: all for validate)
+  --verbose           keep the solver's debug logging`;
+
+class UsageError extends Error {}
+
+function parseArgs(args: string[]): { command: Command; file: string; options: CliOptions } {
+  const positional: string[] = [];
+  const options: CliOptions = {
+    stars: null,
+    ignoreMarks: false,
+    maxTier: null,
+    trialDepth: undefined,
+    maxCount: 2,
+    timeoutMs: 10000,
+    quiet: false,
+    puzzle: null,
+  };
+
+  const numberArg = (name: string, value: string | undefined, min: number, max = Infinity): number => {
+    const parsed = Number(value);
+    if (value === undefined || !Number.isInteger(parsed) || parsed < min || parsed > max) {
+      throw new UsageError(`${name} expects a whole number${max === Infinity ? ` ≥ ${min}` : ` from ${min} to ${max}`}.`);
+    }
+    return parsed;
+  };
+
+  for (let i = 0; i < args.length; i += 1) {
+    const arg = args[i];
+    switch (arg) {
+      case '--':
+        break;
+      case '--stars':
+        options.stars = numberArg(arg, args[++i], 1);
+        break;
+      case '--ignore-marks':
+        options.ignoreMarks = true;
+        break;
+      case '--max-tier':
+        options.maxTier = numberArg(arg, args[++i], 1, 5) as TechniqueTier;
+        break;
+      case '--trial-depth':
+        options.trialDepth = numberArg(arg, args[++i], 1);
+        break;
+      case '--max-count':
+        options.maxCount = numberArg(arg, args[++i], 1);
+        break;
+      case '--timeout':
+        options.timeoutMs = numberArg(arg, args[++i], 1);
+        break;
+      case '--quiet':
+        options.quiet = true;
+        break;
+      case '--puzzle':
+        options.puzzle = numberArg(arg, args[++i], 1);
+        break;
+      default:
+        if (arg.startsWith('--')) throw new UsageError(`Unknown option ${arg}.`);
+        positional.push(arg);
+    }
+  }
+
+  const [command, file, ...rest] = positional;
+  if (!command || !(COMMANDS as readonly string[]).includes(command)) {
+    throw new UsageError(command ? `Unknown command "${command}".` : 'Missing command.');
+  }
+  if (!file) throw new UsageError('Missing puzzle file.');
+  if (rest.length > 0) throw new UsageError(`Unexpected argument "${rest[0]}".`);
+  return { command: command as Command, file, options };
+}
+
+function loadPuzzle(text: string, options: CliOptions): { state: PuzzleState } | { error: string } {
+  const { puzzle: parsed, error } = parsePuzzle(text);
+  if (!parsed) return { error: formatErrorText(error) };
+
+  const size = parsed.regions.length;
+  const starsPerUnit = parsed.starsPerUnit ?? options.stars ?? DEFAULT_STARS_PER_UNIT;
+  if (starsPerUnit > maxStarsPerUnit(size)) {
+    return { error: `A ${size}×${size} board supports ${supportedStarCounts(size)} per unit, got ${starsPerUnit}.` };
+  }
+  const def = { size, starsPerUnit, regions: parsed.regions };
+  const cells = options.ignoreMarks ? parsed.cells.map((row) => row.map(() => 'empty' as const)) : parsed.cells;
+  return { state: { def, cells } };
+}
+
+interface LoadedPuzzle {
+  /** The file name, plus the puzzle's number and title for collections. */
+  label: string;
+  state: PuzzleState;
+}
+
+function parsedJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+function loadPuzzles(text: string, file: string, command: Command, options: CliOptions): LoadedPuzzle[] | { errors: string[] } {
+  if (!isCollection(parsedJson(text))) {
+    const loaded = loadPuzzle(text, options);
+    return 'error' in loaded ? { errors: [`${file}: ${loaded.error}`] } : [{ label: file, state: loaded.state }];
+  }
+
+  const { collection, errors } = readCollection(text);
+  if (!collection) return { errors: errors.map((error) => `${file}: ${error}`) };
+  const count = collection.puzzles.length;
+  if (count === 0) return { errors: [`${file}: the collection has no puzzles.`] };
+  const puzzles = collection.puzzles.map((puzzle, index) => ({
+    label: `${file} #${index + 1} (${puzzle.title})`,
+    state: createEmptyPuzzleState(collectionPuzzleDef(puzzle)),
+  }));
+  if (options.puzzle !== null) {
+    if (options.puzzle > count) return { errors: [`${file}: the collection has ${count} puzzle(s), so there is no #${options.puzzle}.`] };
+    return [puzzles[options.puzzle - 1]];
+  }
+  if (command === 'validate' || count === 1) return puzzles;
+  return { errors: [`${file}: the collection has ${count} puzzles; choose one with --puzzle <n>.`] };
+}
+
+function enabledTechniquesFor(maxTier: TechniqueTier | null): TechniqueId[] | undefined {
+  if (maxTier === null) return undefined;
+  return (Object.keys(techniqueTiers) as TechniqueId[]).filter((id) => techniqueTiers[id] <= maxTier);
+}
+
+function describeHint(hint: Hint): string {
+  const name = techniqueNameById[hint.technique] ?? hint.technique;
+  return `${name}: ${describeMarks(hintMarks(hint))}${hint.explanation ? `\n     ${hint.explanation}` : ''}`;
+}
+
+/**
+ * Run one CLI invocation and return its exit code.
+ */
+export async function runCli(args: string[], io: CliIO): Promise<number> {
+  let parsedArgs: ReturnType<typeof parseArgs>;
+  try {
+    parsedArgs = parseArgs(args);
+  } catch (error) {
+    if (!(error instanceof UsageError)) throw error;
+    io.err(error.message);
+    io.err(USAGE);
+    return EXIT_INVALID;
+  }
+  const { command, file, options } = parsedArgs;
+
+  let text: string;
+  try {
+    text = io.readFile(file);
+  } catch (error) {
+    io.err(`Cannot read ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    return EXIT_INVALID;
+  }
+
+  const loaded = loadPuzzles(text, file, command, options);
+  if ('errors' in loaded) {
+    for (const error of loaded.errors) io.err(error);
+    return EXIT_INVALID;
+  }
+  // The worst result wins when a whole collection is validated
+  let code = EXIT_OK;
+  for (const { label, state } of loaded) {
+    code = Math.max(code, await runCommand(command, label, state, options, io));
+  }
+  return code;
+}
+
+async function runCommand(command: Command, file: string, state: PuzzleState, options: CliOptions, io: CliIO): Promise<number> {
+  const issues = [...validateRegions(state.def), ...validateState(state)];
+  if (issues.length > 0) {
+    for (const issue of issues) io.err(`${file}: ${issue}`);
+    return EXIT_INVALID;
+  }
+
+  const solverOptions = { enabledTechniques: enabledTechniquesFor(options.maxTier), trialDepth: options.trialDepth };
+
+  switch (command) {
+    case 'validate': {
+      // Bad ids and missing regions were rejected above
+      const structural = validateStructure(state.def);
+      for (const issue of structural) io.err(`${file}: ${issue.severity}: ${issue.message}`);
+      if (structural.some((issue) => issue.severity === 'error')) return EXIT_INVALID;
+      io.out(`${file}: valid ${state.def.size}×${state.def.size} puzzle, ${state.def.starsPerUnit} star(s) per unit`);
+      return EXIT_OK;
+    }
+
+    case 'hint': {
+      const hint = await findNextHint(state, solverOptions);
+      if (!hint) {
+        io.out('No logical hint found.');
+        return EXIT_UNSOLVED;
+      }
+      io.out(describeHint(hint));
+      return EXIT_OK;
+    }
+
+    case 'solve': {
+      const path = await solveLogically(state, solverOptions);
+      if (!options.quiet) {
+        path.steps.forEach((step, index) => io.out(`${String(index + 1).padStart(3)}. ${describeHint(step.hint)}`));
+        io.out('');
+        io.out(formatPuzzleString(path.state));
+        io.out('');
+      }
+      io.out(
+        path.solved
+          ? `Solved in ${path.steps.length} step${path.steps.length !== 1 ? 's' : ''}.`
+          : `Stuck after ${path.steps.length} step${path.steps.length !== 1 ? 's' : ''}.`,
+      );
+      return path.solved ? EXIT_OK : EXIT_UNSOLVED;
+    }
+
+    case 'rate': {
+      const path = await solveLogically(state, solverOptions);
+      const rating = rateSolvePath(path);
+      io.out(`${difficultyLabelText[rating.label]} (score ${rating.score}, ${rating.steps} steps, hardest tier ${rating.maxTier ?? '-'})`);
+      const rows = (Object.entries(rating.techniqueCounts) as Array<[TechniqueId, number]>)
+        .sort(([a, countA], [b, countB]) => techniqueTiers[b] - techniqueTiers[a] || countB - countA);
+      for (const [id, count] of rows) {
+        io.out(`  ${techniqueNameById[id] ?? id} (tier ${techniqueTiers[id]}) × ${count}`);
+      }
+      if (!rating.solved) io.out('The techniques got stuck before the end.');
+      return rating.solved ? EXIT_OK : EXIT_UNSOLVED;
+    }
+
+    case 'count': {
+      const result = countSolutions(state, { maxCount: options.maxCount, timeoutMs: options.timeoutMs });
+      if (result.timedOut && result.count === 0) {
+        io.out(`Inconclusive (limit reached): no solution found in ${options.timeoutMs} ms`);
+        return EXIT_INCONCLUSIVE;
+      }
+      const suffix = result.timedOut ? ' (timed out, at least)' : result.cappedAtMax ? ' (stopped at --max-count)' : '';
+      io.out(`${result.count} solution${result.count !== 1 ? 's' : ''}${suffix}`);
+      return result.count > 0 ? EXIT_OK : EXIT_UNSOLVED;
+    }
+  }
+}
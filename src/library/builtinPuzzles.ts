@@ -0,0 +1,116 @@
+import type { NewLibraryEntry } from './puzzleLibrary';
+import { DEFAULT_STARS_PER_UNIT } from '../types/puzzle';
+import { parsePuzzleString } from '../logic/puzzleText';
+
+// Puzzles added to the library the first time it opens, in this order.
+const BUILTIN_PUZZLES: Array<{ name: string; data: string }> = [
+  {
+    name: 'Puzzle 1',
+    data: `0 0 0 1 1 1 2 2 3 3
+0 0 0 1 1 1 2 2 3 3
+4 4 0 0 1 2 2 2 2 3
+4 0 0 0 1 2 2 3 2 3
+4 0 5 0 1 7 7 3 3 3
+4 0 5 1 1 7 3 3 9 3
+4 5 5 5 1 7 3 8 9 3
+4 4 5 5 5 5 5 8 9 9
+4 4 6 6 6 5 5 8 9 9
+6 6 6 5 5 5 5 8 9 9`
+  },
+  {
+    name: 'Puzzle 2',
+    data: `0 0 0 0 0 1 1 1 1 1
+2 2 2 0 1 1 1 1 1 3
+2 2 0 0 1 3 3 3 3 3
+4 4 0 4 3 3 3 3 3 8
+4 4 0 4 3 3 3 7 7 8
+5 4 4 4 6 6 7 7 8 8
+5 6 4 6 6 6 6 7 7 8
+5 6 6 6 7 7 7 7 8 8
+5 5 5 6 6 7 9 9 9 9
+5 5 6 6 9 9 9 9 9 9`
+  },
+  {
+    name: 'Maho Yokota',
+    data: `0 0 0 0 0 0 0 0 1 1
+0 2 2 2 2 2 1 1 1 1
+2 2 3 4 4 4 1 1 5 5
+2 2 3 4 4 4 5 5 5 5
+2 6 3 3 3 4 4 4 5 5
+7 6 3 3 3 3 3 4 5 5
+7 6 6 6 3 4 4 4 5 9
+7 6 6 6 3 3 3 4 8 9
+7 6 7 6 8 8 8 8 8 9
+7 7 7 8 8 9 9 9 9 9`
+  },
+  {
+    name: 'Puzzle 4',
+    data: `0 0 0 1 1 1 1 1 1 1
+0 0 1 1 2 2 2 3 3 4
+0 0 1 0 0 2 3 3 4 4
+0 0 1 0 0 2 3 4 4 5
+6 0 1 0 2 2 3 4 4 5
+6 0 0 0 7 7 3 3 4 5
+6 8 8 8 7 7 9 9 4 5
+6 8 8 8 7 7 7 9 9 5
+6 6 6 8 8 7 7 9 9 5
+6 6 8 8 7 7 9 9 9 9`
+  },
+  {
+    name: 'Puzzle 5',
+    data: `0 0 0 1 1 1 1 1 1 1
+0 2 0 0 1 1 1 1 3 3
+0 2 0 1 1 3 3 3 3 3
+0 2 0 2 2 3 4 4 4 3
+5 2 2 2 3 3 4 4 6 7
+5 2 2 2 3 4 4 4 6 7
+5 2 8 8 8 4 4 4 6 7
+5 2 9 9 8 4 4 4 6 7
+5 9 9 9 8 8 6 6 6 7
+5 9 8 8 8 8 6 6 6 6`
+  },
+  {
+    name: 'Puzzle 6',
+    data: `0 0 0 1 1 1 1 1 1 1
+0 0 1 1 2 2 2 3 3 4
+0 0 1 0 0 2 3 3 4 4
+0 0 1 0 0 2 3 4 4 5
+6 0 1 0 2 2 3 4 4 5
+6 0 0 0 7 7 3 3 4 5
+6 8 8 8 7 7 9 9 4 5
+6 8 8 8 7 7 7 9 9 5
+6 6 6 8 8 7 7 9 9 5
+6 6 8 8 7 7 9 9 9 9`
+  },
+  {
+    name: 'Kris De Asis',
+    data: `0 0 0 1 1 1 1 2 2 2
+0 3 3 3 1 1 1 1 1 2
+0 0 3 3 4 1 4 1 1 2
+0 4 4 4 4 4 4 4 2 2
+0 0 5 5 4 4 4 4 4 2
+0 0 0 5 5 6 6 6 7 7
+0 0 5 5 5 5 6 6 7 7
+8 5 5 5 5 5 5 5 7 7
+8 5 5 8 5 9 9 5 7 7
+8 8 8 8 9 9 9 9 9 7`
+  }
+];
+
+/**
+ * Library entries for the built-in puzzles. Ids are fixed so seeding never
+ * adds a puzzle twice, and dates step back a second per puzzle so the
+ * newest-first order keeps the list order.
+ */
+export function builtinLibraryEntries(now = Date.now()): NewLibraryEntry[] {
+  return BUILTIN_PUZZLES.map((puzzle, index) => {
+    const parsed = parsePuzzleString(puzzle.data);
+    return {
+      id: `builtin-${index + 1}`,
+      name: puzzle.name,
+      source: 'Built-in',
+      def: { size: parsed.regions.length, starsPerUnit: parsed.starsPerUnit ?? DEFAULT_STARS_PER_UNIT, regions: parsed.regions },
+      addedAt: now - index * 1000,
+    };
+  });
+}
@@ -0,0 +1,117 @@
+import { libraryEntryErrors, type LibraryEntry } from './puzzleLibrary';
+
+/**
+ * Storage behind the puzzle library. The browser keeps entries in IndexedDB;
+ * where it is unavailable or fails to open (tests, private windows that block
+ * it) entries live in memory for the session instead. Entries read back from
+ * IndexedDB are validated, and broken ones are left in the database but not
+ * listed.
+ */
+
+export interface LibraryBackend {
+  getAll(): Promise<LibraryEntry[]>;
+  get(id: string): Promise<LibraryEntry | undefined>;
+  /** Insert or replace the entry with the same id. */
+  put(entry: LibraryEntry): Promise<void>;
+  delete(id: string): Promise<void>;
+}
+
+const DB_NAME = 'star-battle-library';
+const DB_VERSION = 1;
+const STORE_NAME = 'puzzles';
+
+// Entries are copied on the way in and out, like a structured clone would.
+function copyEntry(entry: LibraryEntry): LibraryEntry {
+  return JSON.parse(JSON.stringify(entry)) as LibraryEntry;
+}
+
+export function createMemoryBackend(initial: LibraryEntry[] = []): LibraryBackend {
+  const entries = new Map(initial.map((entry) => [entry.id, copyEntry(entry)]));
+  return {
+    getAll: async () => [...entries.values()].map(copyEntry),
+    get: async (id) => {
+      const entry = entries.get(id);
+      return entry ? copyEntry(entry) : undefined;
+    },
+    put: async (entry) => {
+      entries.set(entry.id, copyEntry(entry));
+    },
+    delete: async (id) => {
+      entries.delete(id);
+    },
+  };
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed.'));
+  });
+}
+
+// Async so that an open() which throws (a SecurityError, say) rejects too
+async function openDatabase(factory: IDBFactory): Promise<IDBDatabase> {
+  const request = factory.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+    }
+  };
+  return requestResult(request);
+}
+
+// The entry, or undefined with a warning if it is not a usable LibraryEntry.
+function validEntry(value: unknown): LibraryEntry | undefined {
+  const errors = libraryEntryErrors(value);
+  if (errors.length === 0) return value as LibraryEntry;
+  console.warn('Skipping a broken puzzle library entry:', errors);
+  return undefined;
+}
+
+export function createIndexedDbBackend(factory: IDBFactory = indexedDB, opened?: IDBDatabase): LibraryBackend {
+  let database: Promise<IDBDatabase> | null = opened ? Promise.resolve(opened) : null;
+
+  async function objectStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    database ??= openDatabase(factory);
+    return (await database).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  return {
+    getAll: async () => {
+      const values = await requestResult((await objectStore('readonly')).getAll() as IDBRequest<unknown[]>);
+      return values.map(validEntry).filter((entry) => entry !== undefined);
+    },
+    get: async (id) => {
+      const value = await requestResult((await objectStore('readonly')).get(id) as IDBRequest<unknown>);
+      return value === undefined ? undefined : validEntry(value);
+    },
+    put: async (entry) => {
+      // Vue proxies cannot be cloned into IndexedDB; store a plain copy
+      await requestResult((await objectStore('readwrite')).put(copyEntry(entry)));
+    },
+    delete: async (id) => {
+      await requestResult((await objectStore('readwrite')).delete(id));
+    },
+  };
+}
+
+/**
+ * IndexedDB where it opens, else memory. The database is opened right away;
+ * calls made meanwhile wait for it.
+ */
+export function createDefaultBackend(factory: IDBFactory | undefined = globalThis.indexedDB): LibraryBackend {
+  if (!factory) return createMemoryBackend();
+  const backend = openDatabase(factory).then(
+    (database) => createIndexedDbBackend(factory, database),
+    (error: unknown) => {
+      console.warn('Could not open the puzzle library database, keeping it in memory for this session:', error);
+      return createMemoryBackend();
+    },
+  );
+  return {
+    getAll: async () => (await backend).getAll(),
+    get: async (id) => (await backend).get(id),
+    put: async (entry) => (await backend).put(entry),
+    delete: async (id) => (await backend).delete(id),
+  };
+}
@@ -0,0 +1,247 @@
+import type { Coords, PuzzleDef, PuzzleState } from '../types/puzzle';
+import { MAX_SIZE, MIN_SIZE, maxStarsPerUnit } from '../types/puzzle';
+import type { DifficultyLabel } from '../logic/difficulty';
+import { idToLetter } from '../logic/helpers';
+import { isPuzzleComplete, validateRegions } from '../logic/validation';
+import { capErrors, describeValue, isObject } from '../utils/valueErrors';
+import type { LibraryEntry, LibraryRating, NewLibraryEntry } from './puzzleLibrary';
+
+/**
+ * Puzzle collection files: any number of puzzles with their metadata in one
+ * JSON document.
+ *
+ *   {
+ *     "format": "star-battle-collection",
+ *     "version": 1,
+ *     "title": "Weekly set",
+ *     "puzzles": [
+ *       {
+ *         "title": "Monday", "author": "…", "source": "…",
+ *         "difficulty": { "label": "hard", "score": 41 }, "tags": ["weekly"],
+ *         "size": 10, "stars": 2,
+ *         "regions": ["AAABBBCCDD", …],
+ *         "solution": ["..*....*..", …]
+ *       }
+ *     ]
+ *   }
+ *
+ * `regions` has one string per row and one letter per cell (A is region 0).
+ * `solution` is optional, one string per row with `*` for the stars and `.`
+ * elsewhere. Everything but title, size, stars and regions may be left out.
+ *
+ * When the format changes, bump COLLECTION_VERSION and convert older files
+ * in readCollection so they keep loading.
+ */
+
+export const COLLECTION_FORMAT = 'star-battle-collection';
+export const COLLECTION_VERSION = 1;
+
+export interface CollectionPuzzle {
+  title: string;
+  author?: string;
+  source?: string;
+  difficulty?: LibraryRating;
+  tags?: string[];
+  size: number;
+  stars: number;
+  regions: string[];
+  solution?: string[];
+}
+
+export interface PuzzleCollection {
+  format: typeof COLLECTION_FORMAT;
+  version: number;
+  title?: string;
+  puzzles: CollectionPuzzle[];
+}
+
+export type CollectionReadResult =
+  | { collection: PuzzleCollection; errors: [] }
+  | { collection: null; errors: string[] };
+
+const DIFFICULTY_LABELS: Record<DifficultyLabel, true> = { easy: true, medium: true, hard: true, expert: true };
+
+// Collections hold many puzzles, so more of their errors are listed.
+const MAX_REPORTED_ERRORS = 12;
+
+/** Whether a parsed JSON value claims to be a collection, valid or not. */
+export function isCollection(value: unknown): boolean {
+  return isObject(value) && value.format === COLLECTION_FORMAT;
+}
+
+function rowsErrors(rows: unknown, size: number, path: string, cellOk: (char: string) => boolean, expected: string): string[] {
+  if (!Array.isArray(rows)) return [`${path}: expected ${size} strings, one per row, got ${describeValue(rows)}.`];
+  if (rows.length !== size) return [`${path}: expected ${size} rows, got ${rows.length}.`];
+  const errors: string[] = [];
+  rows.forEach((row: unknown, r) => {
+    if (typeof row !== 'string' || row.length !== size) {
+      errors.push(`${path}[${r}]: expected ${size} characters, got ${describeValue(row)}.`);
+      return;
+    }
+    const bad = [...row].findIndex((char) => !cellOk(char));
+    if (bad !== -1) errors.push(`${path}[${r}]: character ${bad + 1} is "${row[bad]}"; expected ${expected}.`);
+  });
+  return errors;
+}
+
+function regionIdOf(char: string): number {
+  return char.toUpperCase().charCodeAt(0) - 65;
+}
+
+/** Problems with one puzzle of a collection, with paths like "puzzles[2].regions[3]". */
+export function collectionPuzzleErrors(value: unknown, path: string): string[] {
+  if (!isObject(value)) return [`${path}: expected an object, got ${describeValue(value)}.`];
+  const errors: string[] = [];
+  const optionalString = (field: 'author' | 'source') => {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${path}.${field}: expected a string, got ${describeValue(value[field])}.`);
+    }
+  };
+
+  if (typeof value.title !== 'string' || !value.title.trim()) {
+    errors.push(`${path}.title: expected a name, got ${describeValue(value.title)}.`);
+  }
+  optionalString('author');
+  optionalString('source');
+  const { difficulty, tags } = value;
+  if (
+    difficulty !== undefined &&
+    !(isObject(difficulty) && Object.hasOwn(DIFFICULTY_LABELS, difficulty.label as string) && typeof difficulty.score === 'number')
+  ) {
+    errors.push(`${path}.difficulty: expected { "label": "easy" | "medium" | "hard" | "expert", "score": number }.`);
+  }
+  if (tags !== undefined && !(Array.isArray(tags) && tags.every((tag) => typeof tag === 'string'))) {
+    errors.push(`${path}.tags: expected a list of strings, got ${describeValue(tags)}.`);
+  }
+
+  const { size, stars } = value;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    return [...errors, `${path}.size: expected a whole number from ${MIN_SIZE} to ${MAX_SIZE}, got ${describeValue(size)}.`];
+  }
+  if (typeof stars !== 'number' || !Number.isInteger(stars) || stars < 1 || stars > maxStarsPerUnit(size)) {
+    errors.push(`${path}.stars: expected a whole number from 1 to ${maxStarsPerUnit(size)}, got ${describeValue(stars)}.`);
+  }
+  const last = idToLetter(size - 1);
+  const regionErrors = rowsErrors(
+    value.regions,
+    size,
+    `${path}.regions`,
+    (char) => /^[a-z]$/i.test(char) && regionIdOf(char) < size,
+    `a letter from A to ${last}`,
+  );
+  errors.push(...regionErrors);
+  if (regionErrors.length === 0) {
+    const def = collectionPuzzleDef(value as unknown as CollectionPuzzle);
+    errors.push(...validateRegions(def).map((issue) => `${path}.regions: ${issue}`));
+  }
+
+  if (value.solution !== undefined) {
+    const solutionErrors = rowsErrors(value.solution, size, `${path}.solution`, (char) => char === '*' || char === '.', '"*" or "."');
+    errors.push(...solutionErrors);
+    if (solutionErrors.length === 0 && errors.length === 0) {
+      const solved = solutionState(value as unknown as CollectionPuzzle)!;
+      if (!isPuzzleComplete(solved)) {
+        errors.push(`${path}.solution: the stars do not solve the puzzle (${stars} per row, column and region, none touching).`);
+      }
+    }
+  }
+  return errors;
+}
+
+/** Problems that keep `value` from being a collection; empty when it is one. */
+export function collectionErrors(value: unknown): string[] {
+  if (!isObject(value)) return [`Expected an object, got ${describeValue(value)}.`];
+  if (value.format !== COLLECTION_FORMAT) {
+    return [`format: expected "${COLLECTION_FORMAT}", got ${describeValue(value.format)}.`];
+  }
+  const { version } = value;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    return [`version: expected a whole number from 1, got ${describeValue(version)}.`];
+  }
+  if (version > COLLECTION_VERSION) {
+    return [`Written by a newer version of the app (format ${version}); this one reads up to format ${COLLECTION_VERSION}.`];
+  }
+  const errors: string[] = [];
+  if (value.title !== undefined && typeof value.title !== 'string') {
+    errors.push(`title: expected a string, got ${describeValue(value.title)}.`);
+  }
+  if (!Array.isArray(value.puzzles)) return [...errors, `puzzles: expected a list, got ${describeValue(value.puzzles)}.`];
+  value.puzzles.forEach((puzzle: unknown, index) => errors.push(...collectionPuzzleErrors(puzzle, `puzzles[${index}]`)));
+  return capErrors(errors, MAX_REPORTED_ERRORS);
+}
+
+/** Parse and check a collection file's text. */
+export function readCollection(text: string): CollectionReadResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    return { collection: null, errors: [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`] };
+  }
+  const errors = collectionErrors(value);
+  if (errors.length > 0) return { collection: null, errors };
+  return { collection: value as PuzzleCollection, errors: [] };
+}
+
+/** The file text for `collection`, with one row of each grid per line. */
+export function serializeCollection(collection: PuzzleCollection): string {
+  return `${JSON.stringify(collection, null, 2)}\n`;
+}
+
+export function createCollection(puzzles: CollectionPuzzle[], title?: string): PuzzleCollection {
+  return { format: COLLECTION_FORMAT, version: COLLECTION_VERSION, ...(title ? { title } : {}), puzzles };
+}
+
+export function collectionPuzzleDef(puzzle: CollectionPuzzle): PuzzleDef {
+  return {
+    size: puzzle.size,
+    starsPerUnit: puzzle.stars,
+    regions: puzzle.regions.map((row) => [...row].map(regionIdOf)),
+  };
+}
+
+/** The stars of the solution, row by row, or null when the puzzle has none. */
+export function collectionSolution(puzzle: CollectionPuzzle): Coords[] | null {
+  if (!puzzle.solution) return null;
+  return puzzle.solution.flatMap((row, r) => [...row].flatMap((char, c) => (char === '*' ? [{ row: r, col: c }] : [])));
+}
+
+/** The solved board (stars, crosses everywhere else), or null without a solution. */
+export function solutionState(puzzle: CollectionPuzzle): PuzzleState | null {
+  if (!puzzle.solution) return null;
+  return {
+    def: collectionPuzzleDef(puzzle),
+    cells: puzzle.solution.map((row) => [...row].map((char) => (char === '*' ? 'star' : 'cross'))),
+  };
+}
+
+export function collectionPuzzleToEntry(puzzle: CollectionPuzzle): NewLibraryEntry {
+  return {
+    name: puzzle.title,
+    author: puzzle.author,
+    source: puzzle.source,
+    rating: puzzle.difficulty ?? null,
+    tags: puzzle.tags,
+    solution: collectionSolution(puzzle) ?? undefined,
+    def: collectionPuzzleDef(puzzle),
+  };
+}
+
+export function entryToCollectionPuzzle(entry: LibraryEntry): CollectionPuzzle {
+  const { size, starsPerUnit, regions } = entry.def;
+  const puzzle: CollectionPuzzle = {
+    title: entry.name,
+    size,
+    stars: starsPerUnit,
+    regions: regions.map((row) => row.map(idToLetter).join('')),
+  };
+  if (entry.author) puzzle.author = entry.author;
+  if (entry.source) puzzle.source = entry.source;
+  if (entry.rating) puzzle.difficulty = { label: entry.rating.label, score: entry.rating.score };
+  if (entry.tags?.length) puzzle.tags = [...entry.tags];
+  if (entry.solution) {
+    const stars = new Set(entry.solution.map(({ row, col }) => `${row},${col}`));
+    puzzle.solution = regions.map((row, r) => row.map((_, c) => (stars.has(`${r},${c}`) ? '*' : '.')).join(''));
+  }
+  return puzzle;
+}
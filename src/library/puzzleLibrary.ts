@@ -0,0 +1,217 @@
+import type { Coords, PuzzleDef, PuzzleState } from '../types/puzzle';
+import type { DifficultyLabel } from '../logic/difficulty';
+import type { HistoryStep, HistoryTree } from '../types/history';
+import { puzzleDefErrors, puzzleStateErrors } from '../store/storedSchemas';
+import { capErrors, describeValue, isObject } from '../utils/valueErrors';
+import type { LibraryBackend } from './libraryBackend';
+
+/**
+ * Puzzle library: saved layouts with their metadata and, once played, the
+ * board and undo history to resume from.
+ */
+
+export interface LibraryRating {
+  label: DifficultyLabel;
+  score: number;
+}
+
+export interface LibraryProgress {
+  /** The board as last left, marks included. */
+  puzzle: PuzzleState;
+  /** Every branch of the undo history. Missing on progress saved before branches. */
+  historyTree?: HistoryTree;
+  /** The history as one line, on progress saved before branches; read only when historyTree is missing. */
+  history?: PuzzleState[];
+  /** What produced each history entry. Missing on progress saved before steps were recorded. */
+  historySteps?: HistoryStep[];
+  historyIndex?: number;
+  /** Stars placed, for the progress column. */
+  stars: number;
+  completed: boolean;
+  updatedAt: number;
+}
+
+export interface LibraryEntry {
+  id: string;
+  name: string;
+  /** Where the puzzle came from, e.g. "Built-in", "Generated" or a URL. */
+  source: string;
+  author: string;
+  rating: LibraryRating | null;
+  /** Free-form labels, e.g. from an imported collection. Missing on entries saved before tags existed. */
+  tags?: string[];
+  def: PuzzleDef;
+  /** The known solution's stars, when the puzzle came with one. */
+  solution?: Coords[];
+  addedAt: number;
+  progress: LibraryProgress | null;
+}
+
+export type NewLibraryEntry = Pick<LibraryEntry, 'name' | 'def'> &
+  Partial<Pick<LibraryEntry, 'id' | 'source' | 'author' | 'rating' | 'tags' | 'solution' | 'addedAt'>>;
+
+export type LibrarySortKey = 'added' | 'name' | 'rating' | 'progress' | 'played';
+
+export interface PuzzleLibrary {
+  /** All entries, newest first. */
+  list(): Promise<LibraryEntry[]>;
+  get(id: string): Promise<LibraryEntry | undefined>;
+  add(entry: NewLibraryEntry): Promise<LibraryEntry>;
+  /** Change metadata of an existing entry; returns the updated entry, or undefined if it is gone. */
+  update(id: string, changes: Partial<Pick<LibraryEntry, 'name' | 'source' | 'author' | 'rating' | 'tags'>>): Promise<LibraryEntry | undefined>;
+  saveProgress(id: string, progress: Omit<LibraryProgress, 'updatedAt'>): Promise<void>;
+  /** Forget the progress, keeping the puzzle. */
+  resetProgress(id: string): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+const DIFFICULTY_LABELS: Record<DifficultyLabel, true> = { easy: true, medium: true, hard: true, expert: true };
+
+function progressErrors(value: unknown, path: string): string[] {
+  if (value === null) return [];
+  if (!isObject(value)) return [`${path}: expected an object or null, got ${describeValue(value)}.`];
+  const errors = puzzleStateErrors(value.puzzle, `${path}.puzzle`);
+  // A broken history tree is replaced when the entry is opened; only its shape matters here
+  if (value.historyTree !== undefined && !isObject(value.historyTree)) {
+    errors.push(`${path}.historyTree: expected an object, got ${describeValue(value.historyTree)}.`);
+  }
+  for (const field of ['history', 'historySteps'] as const) {
+    if (value[field] !== undefined && !Array.isArray(value[field])) {
+      errors.push(`${path}.${field}: expected a list, got ${describeValue(value[field])}.`);
+    }
+  }
+  for (const field of ['stars', 'updatedAt'] as const) {
+    if (typeof value[field] !== 'number') errors.push(`${path}.${field}: expected a number, got ${describeValue(value[field])}.`);
+  }
+  if (typeof value.completed !== 'boolean') {
+    errors.push(`${path}.completed: expected true or false, got ${describeValue(value.completed)}.`);
+  }
+  return errors;
+}
+
+/**
+ * Problems that keep `value` from being a usable LibraryEntry, with paths
+ * like "entry.def.size". Fields added in later versions may be missing.
+ */
+export function libraryEntryErrors(value: unknown, path = 'entry'): string[] {
+  if (!isObject(value)) return [`${path}: expected an object, got ${describeValue(value)}.`];
+  const errors: string[] = [];
+  for (const field of ['id', 'name', 'source', 'author'] as const) {
+    if (typeof value[field] !== 'string') errors.push(`${path}.${field}: expected a string, got ${describeValue(value[field])}.`);
+  }
+  const { rating } = value;
+  if (rating !== null && !(isObject(rating) && Object.hasOwn(DIFFICULTY_LABELS, rating.label as string) && typeof rating.score === 'number')) {
+    errors.push(`${path}.rating: expected a difficulty label and score, or null, got ${describeValue(rating)}.`);
+  }
+  if (value.tags !== undefined && !(Array.isArray(value.tags) && value.tags.every((tag) => typeof tag === 'string'))) {
+    errors.push(`${path}.tags: expected a list of strings, got ${describeValue(value.tags)}.`);
+  }
+  errors.push(...puzzleDefErrors(value.def, `${path}.def`));
+  if (
+    value.solution !== undefined &&
+    !(Array.isArray(value.solution) && value.solution.every((cell) => isObject(cell) && Number.isInteger(cell.row) && Number.isInteger(cell.col)))
+  ) {
+    errors.push(`${path}.solution: expected a list of cells, got ${describeValue(value.solution)}.`);
+  }
+  if (typeof value.addedAt !== 'number') errors.push(`${path}.addedAt: expected a number, got ${describeValue(value.addedAt)}.`);
+  errors.push(...progressErrors(value.progress, `${path}.progress`));
+  return capErrors(errors);
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export function createPuzzleLibrary(backend: LibraryBackend): PuzzleLibrary {
+  return {
+    list: async () => sortEntries(await backend.getAll(), 'added'),
+    get: (id) => backend.get(id),
+    add: async (entry) => {
+      const created: LibraryEntry = {
+        id: entry.id ?? newId(),
+        name: entry.name,
+        source: entry.source ?? '',
+        author: entry.author ?? '',
+        rating: entry.rating ?? null,
+        tags: entry.tags ?? [],
+        def: entry.def,
+        addedAt: entry.addedAt ?? Date.now(),
+        progress: null,
+      };
+      if (entry.solution) created.solution = entry.solution;
+      await backend.put(created);
+      return created;
+    },
+    update: async (id, changes) => {
+      const entry = await backend.get(id);
+      if (!entry) return undefined;
+      const updated = { ...entry, ...changes };
+      await backend.put(updated);
+      return updated;
+    },
+    saveProgress: async (id, progress) => {
+      const entry = await backend.get(id);
+      if (!entry) return;
+      await backend.put({ ...entry, progress: { ...progress, updatedAt: Date.now() } });
+    },
+    resetProgress: async (id) => {
+      const entry = await backend.get(id);
+      if (!entry) return;
+      await backend.put({ ...entry, progress: null });
+    },
+    remove: (id) => backend.delete(id),
+  };
+}
+
+/** Fraction of the solution's stars on the board, from 0 to 1. */
+export function progressFraction(entry: LibraryEntry): number {
+  if (!entry.progress) return 0;
+  if (entry.progress.completed) return 1;
+  const { size, starsPerUnit } = entry.def;
+  return Math.min(entry.progress.stars / (size * starsPerUnit), 1);
+}
+
+// Unrated puzzles sort after rated ones.
+function ratingScore(entry: LibraryEntry): number {
+  return entry.rating ? entry.rating.score : Number.POSITIVE_INFINITY;
+}
+
+/**
+ * Sort entries for display: newest first by date added or last played,
+ * A–Z by name, easiest first by rating, most complete first by progress.
+ */
+export function sortEntries(entries: LibraryEntry[], key: LibrarySortKey): LibraryEntry[] {
+  const byName = (a: LibraryEntry, b: LibraryEntry) => a.name.localeCompare(b.name, undefined, { numeric: true });
+  const compare: Record<LibrarySortKey, (a: LibraryEntry, b: LibraryEntry) => number> = {
+    added: (a, b) => b.addedAt - a.addedAt || byName(a, b),
+    name: byName,
+    // Two unrated entries give NaN, which falls through to the name
+    rating: (a, b) => ratingScore(a) - ratingScore(b) || byName(a, b),
+    progress: (a, b) => progressFraction(b) - progressFraction(a) || byName(a, b),
+    played: (a, b) => (b.progress?.updatedAt ?? 0) - (a.progress?.updatedAt ?? 0) || byName(a, b),
+  };
+  return [...entries].sort(compare[key]);
+}
+
+/**
+ * Entries whose name, author, source, tags, rating label or size ("10x10") contain
+ * every word of `query`, ignoring case.
+ */
+export function filterEntries(entries: LibraryEntry[], query: string): LibraryEntry[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return entries;
+  return entries.filter((entry) => {
+    const text = [
+      entry.name,
+      entry.author,
+      entry.source,
+      ...(entry.tags ?? []),
+      entry.rating?.label ?? '',
+      `${entry.def.size}x${entry.def.size}`,
+      `${entry.def.size}×${entry.def.size}`,
+    ]
+      .join(' ')
+      .toLowerCase();
+    return words.every((word) => text.includes(word));
+  });
+}
@@ -0,0 +1,219 @@
+import type { CellState, Coords, PuzzleState } from '../types/puzzle';
+import type { HintHighlight } from '../types/hints';
+import { formatCol, formatRow, idToLetter, neighbors8 } from './helpers';
+
+/**
+ * Basic-technique propagation on a scratch copy of the cells, for the
+ * techniques that reason from an assumption (trial, forcing chains).
+ *
+ * The basic techniques (trivial marks, locked line, exact fill, two-by-two)
+ * are re-stated here rather than called: their hint finders deliberately
+ * never empty a unit, which is exactly what hypothetical reasoning needs to
+ * see. Each step is one application with a readable description.
+ */
+
+export interface PropagationUnit {
+  label: string;
+  cells: Coords[];
+  highlight: HintHighlight;
+}
+
+export interface BasicStep {
+  text: string;
+  stars: Coords[];
+  crosses: Coords[];
+}
+
+export interface Contradiction {
+  text: string;
+  highlight: HintHighlight;
+}
+
+/** "R2C3", counted from 1 like the history labels. */
+export function formatCell(cell: Coords): string {
+  return `R${cell.row + 1}C${cell.col + 1}`;
+}
+
+export function formatCells(cells: Coords[]): string {
+  return cells.map(formatCell).join(', ');
+}
+
+export function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/** "R1C2 is a star" / "R1C2, R3C4 are crosses" */
+export function describeCells(cells: Coords[], mark: 'star' | 'cross'): string {
+  const noun = cells.length === 1 ? `is a ${mark}` : `are ${mark === 'star' ? 'stars' : 'crosses'}`;
+  return `${formatCells(cells)} ${noun}`;
+}
+
+export function buildUnits(state: PuzzleState): PropagationUnit[] {
+  const { size, regions } = state.def;
+  const units: PropagationUnit[] = [];
+  for (let r = 0; r < size; r += 1) {
+    units.push({
+      label: formatRow(r),
+      cells: Array.from({ length: size }, (_, c) => ({ row: r, col: c })),
+      highlight: { rows: [r] },
+    });
+  }
+  for (let c = 0; c < size; c += 1) {
+    units.push({
+      label: formatCol(c),
+      cells: Array.from({ length: size }, (_, r) => ({ row: r, col: c })),
+      highlight: { cols: [c] },
+    });
+  }
+  const regionIds = Array.from(new Set(regions.flat())).sort((a, b) => a - b);
+  for (const id of regionIds) {
+    const cells: Coords[] = [];
+    for (let r = 0; r < size; r += 1) {
+      for (let c = 0; c < size; c += 1) {
+        if (regions[r][c] === id) cells.push({ row: r, col: c });
+      }
+    }
+    units.push({ label: `Region ${idToLetter(id)}`, cells, highlight: { regions: [id] } });
+  }
+  return units;
+}
+
+// Upper bound on the stars that fit on `cells`: cover them with 2×2 blocks
+// (scanning row by row), each of which holds at most one star.
+function twoByTwoCover(cells: Coords[]): number {
+  const covered = new Set<string>();
+  let blocks = 0;
+  const ordered = [...cells].sort((a, b) => a.row - b.row || a.col - b.col);
+  for (const cell of ordered) {
+    if (covered.has(`${cell.row},${cell.col}`)) continue;
+    blocks += 1;
+    for (let dr = 0; dr <= 1; dr += 1) {
+      for (let dc = 0; dc <= 1; dc += 1) covered.add(`${cell.row + dr},${cell.col + dc}`);
+    }
+  }
+  return blocks;
+}
+
+export function findContradiction(cells: CellState[][], units: PropagationUnit[], starsPerUnit: number): Contradiction | null {
+  const size = cells.length;
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (cells[r][c] !== 'star') continue;
+      const touching = neighbors8({ row: r, col: c }, size).find(
+        (nb) => cells[nb.row][nb.col] === 'star' && (nb.row > r || (nb.row === r && nb.col > c)),
+      );
+      if (touching) {
+        return {
+          text: `the stars at ${formatCell({ row: r, col: c })} and ${formatCell(touching)} would touch`,
+          highlight: { cells: [{ row: r, col: c }, touching] },
+        };
+      }
+    }
+  }
+
+  for (const unit of units) {
+    const stars = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'star');
+    const empties = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'empty');
+    const need = starsPerUnit - stars.length;
+    if (need < 0) {
+      return {
+        text: `${unit.label} would have ${plural(stars.length, 'star')}`,
+        highlight: { ...unit.highlight, cells: stars },
+      };
+    }
+    if (need === 0) continue;
+    if (empties.length < need) {
+      return {
+        text: `${unit.label} would still need ${plural(need, 'star')} but have only ${plural(empties.length, 'empty cell')} left`,
+        highlight: { ...unit.highlight, cells: empties },
+      };
+    }
+    const blocks = twoByTwoCover(empties);
+    if (blocks < need) {
+      return {
+        text: `${unit.label} would still need ${plural(need, 'star')} but its empty cells fit in ${plural(blocks, '2×2 block')} of at most one star each (two-by-two)`,
+        highlight: { ...unit.highlight, cells: empties },
+      };
+    }
+  }
+  return null;
+}
+
+export function findBasicStep(cells: CellState[][], units: PropagationUnit[], state: PuzzleState): BasicStep | null {
+  const { size, starsPerUnit, regions } = state.def;
+
+  // Trivial marks: neighbours of stars, then units that have all their stars
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (cells[r][c] !== 'star') continue;
+      const crosses = neighbors8({ row: r, col: c }, size).filter((nb) => cells[nb.row][nb.col] === 'empty');
+      if (crosses.length > 0) {
+        return {
+          text: `Trivial marks: the star at ${formatCell({ row: r, col: c })} rules out ${formatCells(crosses)}.`,
+          stars: [],
+          crosses,
+        };
+      }
+    }
+  }
+  for (const unit of units) {
+    const stars = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'star').length;
+    const crosses = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'empty');
+    if (stars === starsPerUnit && crosses.length > 0) {
+      return {
+        text: `Trivial marks: ${unit.label} has its ${plural(starsPerUnit, 'star')}, so ${describeCells(crosses, 'cross')}.`,
+        stars: [],
+        crosses,
+      };
+    }
+  }
+
+  // Locked line: a region's remaining cells all lie in one row or column that
+  // needs exactly the stars the region still has to place
+  for (const unit of units) {
+    if (!unit.highlight.regions) continue;
+    const regionId = unit.highlight.regions[0];
+    const need = starsPerUnit - unit.cells.filter((cell) => cells[cell.row][cell.col] === 'star').length;
+    const empties = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'empty');
+    if (need <= 0 || empties.length === 0) continue;
+
+    const lines: PropagationUnit[] = [];
+    if (empties.every((cell) => cell.row === empties[0].row)) lines.push(units[empties[0].row]);
+    if (empties.every((cell) => cell.col === empties[0].col)) lines.push(units[size + empties[0].col]);
+    for (const line of lines) {
+      const lineStars = line.cells.filter((cell) => cells[cell.row][cell.col] === 'star').length;
+      if (starsPerUnit - lineStars !== need) continue;
+      const crosses = line.cells.filter(
+        (cell) => cells[cell.row][cell.col] === 'empty' && regions[cell.row][cell.col] !== regionId,
+      );
+      if (crosses.length > 0) {
+        return {
+          text: `Locked line: region ${idToLetter(regionId)} must put its ${plural(need, 'remaining star')} in ${line.label}, which needs exactly that many, so ${describeCells(crosses, 'cross')}.`,
+          stars: [],
+          crosses,
+        };
+      }
+    }
+  }
+
+  // Exact fill: a unit with exactly as many empty cells as missing stars
+  for (const unit of units) {
+    const stars = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'star').length;
+    const empties = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'empty');
+    const need = starsPerUnit - stars;
+    if (need > 0 && empties.length === need) {
+      return {
+        text: `Exact fill: ${unit.label} needs ${plural(need, 'star')} and has exactly ${plural(need, 'empty cell')}, so ${describeCells(empties, 'star')}.`,
+        stars: empties,
+        crosses: [],
+      };
+    }
+  }
+
+  return null;
+}
+
+export function applyBasicStep(cells: CellState[][], step: BasicStep): void {
+  for (const star of step.stars) cells[star.row][star.col] = 'star';
+  for (const cross of step.crosses) cells[cross.row][cross.col] = 'cross';
+}
@@ -0,0 +1,168 @@
+import type { Coords, PuzzleState } from '../types/puzzle';
+import { MAX_SIZE } from '../types/puzzle';
+
+/**
+ * Compact bitset board model for hot paths.
+ *
+ * A CellMask holds one 32-bit word per row; bit `c` of word `r` is the cell
+ * (r, c). Boards are at most MAX_SIZE (17) wide, so a row always fits in one
+ * word and row/column/neighbour tests become a handful of integer operations
+ * instead of scans over Coords[] arrays.
+ */
+export type CellMask = Uint32Array;
+
+export interface BitBoard {
+  size: number;
+  starsPerUnit: number;
+  rows: CellMask[];
+  cols: CellMask[];
+  /** Indexed by region id. */
+  regions: CellMask[];
+  stars: CellMask;
+  crosses: CellMask;
+  /** Empty cells. */
+  candidates: CellMask;
+}
+
+/** Bits 0..size-1 set. */
+export function fullRowBits(size: number): number {
+  return size >= 32 ? 0xffffffff : ((1 << size) - 1) >>> 0;
+}
+
+/** Bits col-1..col+1 (clipped at column 0). */
+export function aroundBits(col: number): number {
+  return ((7 << col) >>> 1) >>> 0;
+}
+
+export function popcount32(x: number): number {
+  let v = x >>> 0;
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+export function createMask(size: number = MAX_SIZE): CellMask {
+  return new Uint32Array(size);
+}
+
+export function hasCell(mask: CellMask, row: number, col: number): boolean {
+  return (mask[row] & (1 << col)) !== 0;
+}
+
+export function addCell(mask: CellMask, row: number, col: number): void {
+  mask[row] |= 1 << col;
+}
+
+export function removeCell(mask: CellMask, row: number, col: number): void {
+  mask[row] &= ~(1 << col);
+}
+
+export function maskFromCoords(coords: readonly Coords[], size: number = MAX_SIZE): CellMask {
+  const mask = createMask(size);
+  for (const { row, col } of coords) addCell(mask, row, col);
+  return mask;
+}
+
+/** Cells of the mask in row-major order. */
+export function maskToCoords(mask: CellMask): Coords[] {
+  const coords: Coords[] = [];
+  for (let row = 0; row < mask.length; row += 1) {
+    let bits = mask[row];
+    while (bits !== 0) {
+      const low = bits & -bits;
+      coords.push({ row, col: 31 - Math.clz32(low) });
+      bits ^= low;
+    }
+  }
+  return coords;
+}
+
+export function maskCount(mask: CellMask): number {
+  let count = 0;
+  for (let row = 0; row < mask.length; row += 1) count += popcount32(mask[row]);
+  return count;
+}
+
+export function isMaskEmpty(mask: CellMask): boolean {
+  for (let row = 0; row < mask.length; row += 1) {
+    if (mask[row] !== 0) return false;
+  }
+  return true;
+}
+
+export function maskAnd(a: CellMask, b: CellMask): CellMask {
+  const result = createMask(a.length);
+  for (let row = 0; row < a.length; row += 1) result[row] = a[row] & b[row];
+  return result;
+}
+
+export function maskOr(a: CellMask, b: CellMask): CellMask {
+  const result = createMask(a.length);
+  for (let row = 0; row < a.length; row += 1) result[row] = a[row] | b[row];
+  return result;
+}
+
+export function maskAndNot(a: CellMask, b: CellMask): CellMask {
+  const result = createMask(a.length);
+  for (let row = 0; row < a.length; row += 1) result[row] = a[row] & ~b[row];
+  return result;
+}
+
+/** Number of cells in both masks, without allocating. */
+export function countAnd(a: CellMask, b: CellMask): number {
+  let count = 0;
+  for (let row = 0; row < a.length; row += 1) count += popcount32(a[row] & b[row]);
+  return count;
+}
+
+/**
+ * Cells 8-adjacent to any cell of the mask (the mask's own cells are not
+ * included unless they neighbour another cell of it).
+ */
+export function neighbourMask(mask: CellMask, size: number): CellMask {
+  const full = fullRowBits(size);
+  const result = createMask(mask.length);
+  for (let row = 0; row < size; row += 1) {
+    const bits = mask[row];
+    if (bits === 0) continue;
+    const spread = (bits | (bits << 1) | (bits >>> 1)) & full;
+    if (row > 0) result[row - 1] |= spread;
+    if (row + 1 < size) result[row + 1] |= spread;
+    result[row] |= ((bits << 1) | (bits >>> 1)) & full;
+  }
+  return result;
+}
+
+/**
+ * Build the bitboard for a puzzle state. Region masks are indexed by region
+ * id (ids are expected to be small non-negative integers).
+ */
+export function bitBoardFromState(state: PuzzleState): BitBoard {
+  const { size, starsPerUnit, regions: regionGrid } = state.def;
+  const full = fullRowBits(size);
+  const rows: CellMask[] = [];
+  const cols: CellMask[] = [];
+  const regions: CellMask[] = [];
+  const stars = createMask(size);
+  const crosses = createMask(size);
+  const candidates = createMask(size);
+
+  for (let i = 0; i < size; i += 1) {
+    const rowMask = createMask(size);
+    rowMask[i] = full;
+    rows.push(rowMask);
+    cols.push(createMask(size).fill(1 << i));
+  }
+
+  for (let row = 0; row < size; row += 1) {
+    for (let col = 0; col < size; col += 1) {
+      const id = regionGrid[row][col];
+      while (regions.length <= id) regions.push(createMask(size));
+      addCell(regions[id], row, col);
+      const cell = state.cells[row][col];
+      addCell(cell === 'star' ? stars : cell === 'cross' ? crosses : candidates, row, col);
+    }
+  }
+
+  return { size, starsPerUnit, rows, cols, regions, stars, crosses, candidates };
+}
@@ -0,0 +1,107 @@
+import type { PuzzleDef, PuzzleState } from '../types/puzzle';
+import type { TechniqueId, TechniqueTier } from '../types/hints';
+import { techniqueTiers } from '../types/hints';
+import { createEmptyPuzzleState } from '../types/puzzle';
+import type { SolvePath } from './solvePath';
+import { solveLogically, type SolveLogicallyOptions } from './solverEngine';
+
+export type DifficultyLabel = 'easy' | 'medium' | 'hard' | 'expert';
+
+export interface DifficultyRating {
+  score: number;
+  label: DifficultyLabel;
+  /** False when the techniques ran out before the puzzle was complete. */
+  solved: boolean;
+  /** Number of hints in the solve path. */
+  steps: number;
+  /** How often each technique produced a hint. */
+  techniqueCounts: Partial<Record<TechniqueId, number>>;
+  /** Hardest tier used, or null for an empty path. */
+  maxTier: TechniqueTier | null;
+}
+
+/**
+ * Points per hint by tier. A step from a later guide section costs much more
+ * than a basic one, so a single squeeze outweighs a handful of trivial marks.
+ */
+const TIER_WEIGHTS: Record<TechniqueTier, number> = {
+  1: 1,
+  2: 5,
+  3: 12,
+  4: 15,
+  5: 20,
+};
+
+// Added when the pipeline gets stuck: the puzzle needs more than we can explain.
+const UNSOLVED_PENALTY = 100;
+
+// Label by hardest tier needed (tiers 4 and 5 are both expert)...
+const TIER_LABELS: Record<TechniqueTier, DifficultyLabel> = {
+  1: 'easy',
+  2: 'medium',
+  3: 'hard',
+  4: 'expert',
+  5: 'expert',
+};
+// ...bumped one level when that tier is needed this many times or more.
+const REPEATED_HARDEST_STEPS = 3;
+
+const LABEL_ORDER: DifficultyLabel[] = ['easy', 'medium', 'hard', 'expert'];
+
+export const difficultyLabelText: Record<DifficultyLabel, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+  expert: 'Expert',
+};
+
+/**
+ * Rate an already traced solve path.
+ */
+export function rateSolvePath(path: Pick<SolvePath, 'steps' | 'solved'>): DifficultyRating {
+  const techniqueCounts: Partial<Record<TechniqueId, number>> = {};
+  let score = 0;
+  let maxTier: TechniqueTier | null = null;
+
+  for (const { technique } of path.steps) {
+    techniqueCounts[technique] = (techniqueCounts[technique] ?? 0) + 1;
+    const tier = techniqueTiers[technique];
+    score += TIER_WEIGHTS[tier];
+    if (maxTier === null || tier > maxTier) maxTier = tier;
+  }
+
+  let label: DifficultyLabel;
+  if (!path.solved) {
+    score += UNSOLVED_PENALTY;
+    label = 'expert';
+  } else if (maxTier === null) {
+    label = 'easy';
+  } else {
+    const hardestSteps = path.steps.filter(({ technique }) => techniqueTiers[technique] === maxTier).length;
+    const base = LABEL_ORDER.indexOf(TIER_LABELS[maxTier]);
+    const bump = maxTier > 1 && hardestSteps >= REPEATED_HARDEST_STEPS ? 1 : 0;
+    label = LABEL_ORDER[Math.min(base + bump, LABEL_ORDER.length - 1)];
+  }
+
+  return {
+    score,
+    label,
+    solved: path.solved,
+    steps: path.steps.length,
+    techniqueCounts,
+    maxTier,
+  };
+}
+
+/**
+ * Solve a puzzle with the technique pipeline and rate the path. Accepts a
+ * definition (rated from an empty board) or a state (rated from its marks).
+ */
+export async function ratePuzzle(
+  puzzle: PuzzleDef | PuzzleState,
+  options: SolveLogicallyOptions = {},
+): Promise<DifficultyRating> {
+  const state = 'cells' in puzzle ? puzzle : createEmptyPuzzleState(puzzle);
+  const path = await solveLogically(state, options);
+  return rateSolvePath(path);
+}
@@ -0,0 +1,276 @@
+import type { CellState, PuzzleState } from '../types/puzzle';
+import { aroundBits, fullRowBits, popcount32 } from './bitboard';
+
+/**
+ * Exact solution search used by countSolutions() and countSolutionsAsync().
+ *
+ * The board is a pair of bitboards (cells that may still hold a star, and
+ * placed stars; see bitboard.ts) plus a star count per unit. Units are rows,
+ * then columns, then regions. After every placement the search propagates to
+ * a fixpoint:
+ *
+ * - a star removes itself and its 8 neighbours from the candidates (which
+ *   also enforces the 2×2 rule);
+ * - a unit with its full quota loses its remaining candidates;
+ * - a unit with exactly as many candidates as missing stars gets them all;
+ * - a unit with fewer candidates than missing stars, or a row/column whose
+ *   candidates cannot hold the missing stars without touching, is dead.
+ *
+ * It then branches on the unit with the fewest spare candidates: each branch
+ * puts the unit's next star on one candidate and rules out the candidates
+ * before it, so every solution is found exactly once.
+ */
+
+export interface ExactSearchLimits {
+  /** Stop after this many solutions. */
+  maxCount: number;
+  /** Abandon branches deeper than this many branching decisions. */
+  maxDepth: number;
+  /** Called with a copy of each solution found (non-star cells are crosses). */
+  onSolution?: (cells: CellState[][]) => void;
+}
+
+export interface ExactSearch {
+  /** Solutions found so far. */
+  readonly count: number;
+  /**
+   * Visit up to `maxNodes` search nodes. Returns true once the search is
+   * finished (everything explored or maxCount reached).
+   */
+  run(maxNodes: number): boolean;
+}
+
+// One buffer per board so branching copies a single array: candidate cells
+// (one word per row), then placed stars (one word per row), then the star
+// count of each unit.
+type SearchBoard = Int32Array;
+
+// A branching point: the board before branching and the cells to try in turn.
+interface SearchFrame {
+  board: SearchBoard;
+  choices: number[];
+  next: number;
+}
+
+// Most stars that fit on the set bits of a line without two being adjacent.
+function lineCapacity(bits: number): number {
+  let count = 0;
+  while (bits !== 0) {
+    const low = bits & -bits;
+    count += 1;
+    bits &= ~(low | (low << 1));
+  }
+  return count;
+}
+
+/**
+ * Set up the search for the completions of `state`. The search runs in slices
+ * (see ExactSearch.run) so callers can check a timeout or cancellation, or
+ * yield to the browser, between them.
+ */
+export function createExactSearch(state: PuzzleState, limits: ExactSearchLimits): ExactSearch {
+  const { size, starsPerUnit } = state.def;
+  const { maxCount, maxDepth, onSolution } = limits;
+  const full = fullRowBits(size);
+
+  // Each unit is stored as the rows it touches and its cells in each of them.
+  // Plain loops: this runs once per count and techniques count a lot.
+  const allRows: number[] = [];
+  for (let r = 0; r < size; r++) allRows.push(r);
+  const unitRows: number[][] = [];
+  const unitBits: number[][] = [];
+  for (let r = 0; r < size; r++) {
+    unitRows.push([r]);
+    unitBits.push([full]);
+  }
+  for (let c = 0; c < size; c++) {
+    unitRows.push(allRows);
+    unitBits.push(allRows.map(() => 1 << c));
+  }
+  const regionIndex = new Map<number, number>();
+  const regionRowBits: number[][] = [];
+  const cellRegionUnit: number[][] = [];
+  for (let r = 0; r < size; r++) {
+    const rowUnits: number[] = [];
+    for (let c = 0; c < size; c++) {
+      const id = state.def.regions[r][c];
+      let index = regionIndex.get(id);
+      if (index === undefined) {
+        index = regionRowBits.length;
+        regionIndex.set(id, index);
+        regionRowBits.push(allRows.map(() => 0));
+      }
+      regionRowBits[index][r] |= 1 << c;
+      rowUnits.push(2 * size + index);
+    }
+    cellRegionUnit.push(rowUnits);
+  }
+  for (const rowBits of regionRowBits) {
+    const rows: number[] = [];
+    const bits: number[] = [];
+    for (let r = 0; r < size; r++) {
+      if (rowBits[r] === 0) continue;
+      rows.push(r);
+      bits.push(rowBits[r]);
+    }
+    unitRows.push(rows);
+    unitBits.push(bits);
+  }
+  const unitCount = unitRows.length;
+  const STARS = size;
+  const COUNTS = 2 * size;
+
+  function available(board: SearchBoard, unit: number): number {
+    const rows = unitRows[unit];
+    const bits = unitBits[unit];
+    let count = 0;
+    for (let i = 0; i < rows.length; i++) count += popcount32(board[rows[i]] & bits[i]);
+    return count;
+  }
+
+  // Candidates of a row or column unit as a line bitmask (bit = position along the line).
+  function lineBits(board: SearchBoard, unit: number): number {
+    if (unit < size) return board[unit];
+    const col = unit - size;
+    let bits = 0;
+    for (let r = 0; r < size; r++) bits |= ((board[r] >>> col) & 1) << r;
+    return bits;
+  }
+
+  // Candidate cells of a unit, encoded as row * 32 + col.
+  function unitCandidates(board: SearchBoard, unit: number): number[] {
+    const cells: number[] = [];
+    const rows = unitRows[unit];
+    const bits = unitBits[unit];
+    for (let i = 0; i < rows.length; i++) {
+      let remaining = board[rows[i]] & bits[i];
+      while (remaining !== 0) {
+        const low = remaining & -remaining;
+        remaining ^= low;
+        cells.push(rows[i] * 32 + 31 - Math.clz32(low));
+      }
+    }
+    return cells;
+  }
+
+  function addStar(board: SearchBoard, unit: number): void {
+    board[COUNTS + unit] += 1;
+    if (board[COUNTS + unit] !== starsPerUnit) return;
+    // Full: no further stars in this unit
+    const rows = unitRows[unit];
+    const bits = unitBits[unit];
+    for (let i = 0; i < rows.length; i++) board[rows[i]] &= ~bits[i];
+  }
+
+  function placeStar(board: SearchBoard, row: number, col: number): boolean {
+    const bit = 1 << col;
+    if ((board[row] & bit) === 0) return false;
+    board[STARS + row] |= bit;
+    const around = aroundBits(col);
+    board[row] &= ~around;
+    if (row > 0) board[row - 1] &= ~around;
+    if (row + 1 < size) board[row + 1] &= ~around;
+
+    addStar(board, row);
+    addStar(board, size + col);
+    addStar(board, cellRegionUnit[row][col]);
+    return true;
+  }
+
+  /** Apply the forced deductions; false when the board has no solution. */
+  function propagate(board: SearchBoard): boolean {
+    let changed = true;
+    while (changed) {
+      changed = false;
+      for (let u = 0; u < unitCount; u++) {
+        const need = starsPerUnit - board[COUNTS + u];
+        if (need === 0) continue;
+        const count = available(board, u);
+        if (count < need) return false;
+        if (u < 2 * size && lineCapacity(lineBits(board, u)) < need) return false;
+        if (count === need) {
+          for (const cell of unitCandidates(board, u)) {
+            if (!placeStar(board, cell >> 5, cell & 31)) return false;
+          }
+          changed = true;
+        }
+      }
+    }
+    return true;
+  }
+
+  // Unit still missing stars with the fewest spare candidates (candidates
+  // beyond the stars it needs), or -1 when solved.
+  function mostConstrainedUnit(board: SearchBoard): number {
+    let best = -1;
+    let bestSlack = Infinity;
+    for (let u = 0; u < unitCount; u++) {
+      const need = starsPerUnit - board[COUNTS + u];
+      if (need === 0) continue;
+      const slack = available(board, u) - need;
+      if (slack < bestSlack) {
+        best = u;
+        bestSlack = slack;
+      }
+    }
+    return best;
+  }
+
+  let count = 0;
+  const stack: SearchFrame[] = [];
+
+  // Take a propagated board: either a solution or a new branching point.
+  function expand(board: SearchBoard): void {
+    if (stack.length > maxDepth) return;
+    const unit = mostConstrainedUnit(board);
+    if (unit >= 0) {
+      stack.push({ board, choices: unitCandidates(board, unit), next: 0 });
+      return;
+    }
+    count++;
+    onSolution?.(
+      Array.from({ length: size }, (_, r) =>
+        Array.from({ length: size }, (_, c): CellState => (board[STARS + r] & (1 << c) ? 'star' : 'cross')),
+      ),
+    );
+  }
+
+  const start: SearchBoard = new Int32Array(COUNTS + unitCount);
+  let valid = true;
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if (state.cells[r][c] !== 'cross') start[r] |= 1 << c;
+    }
+  }
+  // Given stars that touch or overfill a unit fail to place.
+  for (let r = 0; r < size && valid; r++) {
+    for (let c = 0; c < size && valid; c++) {
+      if (state.cells[r][c] === 'star') valid = placeStar(start, r, c);
+    }
+  }
+  if (valid && propagate(start)) expand(start);
+
+  return {
+    get count() {
+      return count;
+    },
+
+    run(maxNodes) {
+      for (let nodes = 0; nodes < maxNodes; nodes++) {
+        const frame = stack[stack.length - 1];
+        if (!frame || count >= maxCount) return true;
+        if (frame.next >= frame.choices.length) {
+          stack.pop();
+          continue;
+        }
+
+        const cell = frame.choices[frame.next++];
+        const child = frame.board.slice();
+        // Later branches of this frame rule this cell out
+        frame.board[cell >> 5] &= ~(1 << (cell & 31));
+        if (placeStar(child, cell >> 5, cell & 31) && propagate(child)) expand(child);
+      }
+      return stack.length === 0 || count >= maxCount;
+    },
+  };
+}
@@ -0,0 +1,106 @@
+import type { PuzzleState } from '../types/puzzle';
+import { createEmptyPuzzleState } from '../types/puzzle';
+import type { FormatError, FormatResult, ParsedPuzzle } from './formats/grid';
+import { fail } from './formats/grid';
+import { formatTokenGrid, parseTokenGrid } from './formats/tokenGrid';
+import { formatLetterGrid, looksLikeLetterGrid, parseLetterGrid } from './formats/letterGrid';
+import { formatDottedGrid, looksLikeDottedGrid, parseDottedGrid } from './formats/dottedGrid';
+import { formatCsvGrid, looksLikeCsvGrid, parseCsvGrid } from './formats/csvGrid';
+import { formatJsonPuzzle, looksLikeJsonPuzzle, parseJsonPuzzle } from './formats/jsonPuzzle';
+import { decodePzprUrl, encodePzprUrl, isPzprUrl } from './pzprUrl';
+
+export type { FormatError, FormatResult, ParsedPuzzle } from './formats/grid';
+export { formatErrorText } from './formats/grid';
+
+export type PuzzleFormatId = 'json' | 'pzpr' | 'csv' | 'dots' | 'letters' | 'tokens';
+
+export interface PuzzleFormat {
+  id: PuzzleFormatId;
+  name: string;
+  /** Whether serialize writes stars and crosses (parse keeps whatever the text has). */
+  keepsMarks: boolean;
+  detect(text: string): boolean;
+  parse(text: string): FormatResult;
+  serialize(state: PuzzleState): string;
+}
+
+function parsePzpr(text: string): FormatResult {
+  const { def, error } = decodePzprUrl(text);
+  if (!def) return fail(error ?? 'Not a puzz.link URL.');
+  return { puzzle: { regions: def.regions, cells: createEmptyPuzzleState(def).cells, starsPerUnit: def.starsPerUnit }, error: null };
+}
+
+/**
+ * Formats in detection order: the first whose detect() accepts the text reads
+ * it. The token grid accepts anything, so it comes last.
+ */
+export const puzzleFormats: PuzzleFormat[] = [
+  {
+    id: 'json',
+    name: 'JSON',
+    keepsMarks: true,
+    detect: looksLikeJsonPuzzle,
+    parse: parseJsonPuzzle,
+    serialize: formatJsonPuzzle,
+  },
+  {
+    id: 'pzpr',
+    name: 'puzz.link URL',
+    keepsMarks: false,
+    detect: isPzprUrl,
+    parse: parsePzpr,
+    serialize: (state) => encodePzprUrl(state.def),
+  },
+  {
+    id: 'csv',
+    name: 'CSV',
+    keepsMarks: true,
+    detect: looksLikeCsvGrid,
+    parse: parseCsvGrid,
+    serialize: formatCsvGrid,
+  },
+  {
+    id: 'dots',
+    name: 'Letters + dotted marks',
+    keepsMarks: true,
+    detect: looksLikeDottedGrid,
+    parse: parseDottedGrid,
+    serialize: formatDottedGrid,
+  },
+  {
+    id: 'letters',
+    name: 'Letter grid',
+    keepsMarks: false,
+    detect: looksLikeLetterGrid,
+    parse: parseLetterGrid,
+    serialize: formatLetterGrid,
+  },
+  {
+    id: 'tokens',
+    name: 'Number grid (3s 4x)',
+    keepsMarks: true,
+    detect: () => true,
+    parse: parseTokenGrid,
+    serialize: formatTokenGrid,
+  },
+];
+
+export function getPuzzleFormat(id: PuzzleFormatId): PuzzleFormat {
+  return puzzleFormats.find((format) => format.id === id)!;
+}
+
+export function detectPuzzleFormat(text: string): PuzzleFormat {
+  return puzzleFormats.find((format) => format.detect(text))!;
+}
+
+export type PuzzleImport = { format: PuzzleFormat } & (
+  | { puzzle: ParsedPuzzle; error: null }
+  | { puzzle: null; error: FormatError }
+);
+
+/** Read `text` in the given format, or in the detected one for 'auto'. */
+export function parsePuzzle(text: string, formatId: PuzzleFormatId | 'auto' = 'auto'): PuzzleImport {
+  const format = formatId === 'auto' ? detectPuzzleFormat(text) : getPuzzleFormat(formatId);
+  if (!text.trim()) return { format, puzzle: null, error: { message: 'Paste a puzzle grid first.' } };
+  return { format, ...format.parse(text) };
+}
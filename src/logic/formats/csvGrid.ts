@@ -0,0 +1,55 @@
+import type { PuzzleState } from '../../types/puzzle';
+import type { FormatResult, GridRow } from './grid';
+import { buildGrid, fail, starsHeader, takeStarsHeader, textLines } from './grid';
+import { formatToken, tokenMark } from './tokenGrid';
+
+/**
+ * Spreadsheet exports: the token grid with cells separated by commas,
+ * semicolons or tabs (whichever the first row uses), e.g.
+ *
+ *   stars,1
+ *   0,0,1s,1,2x
+ *
+ * Fields may be quoted. Region numbering follows the token grid.
+ */
+
+const FIELD = /^"?(\d+)([sxSX])?"?$/;
+
+function delimiterOf(text: string): string {
+  if (text.includes('\t')) return '\t';
+  return text.includes(';') ? ';' : ',';
+}
+
+export function looksLikeCsvGrid(raw: string): boolean {
+  const lines = textLines(raw);
+  takeStarsHeader(lines);
+  return lines.length > 0 && lines.every(({ text }) => /[,;\t]/.test(text));
+}
+
+export function parseCsvGrid(raw: string): FormatResult {
+  const lines = textLines(raw);
+  const header = takeStarsHeader(lines);
+  const delimiter = delimiterOf(lines[0]?.text ?? '');
+  const rows: GridRow[] = [];
+  for (const { text, line } of lines) {
+    const row: GridRow = { line, cells: [] };
+    let column = 1;
+    for (const field of text.split(delimiter)) {
+      const token = field.trim();
+      const at = column + field.length - field.trimStart().length;
+      if (!token) return fail('Empty cell; every field needs a region number.', line, at);
+      const match = token.match(FIELD);
+      if (!match) return fail(`Invalid cell "${token}". Use e.g. "3", "3s", "3x".`, line, at);
+      row.cells.push({ region: parseInt(match[1], 10), mark: tokenMark(match[2]), line, column: at });
+      column += field.length + delimiter.length;
+    }
+    rows.push(row);
+  }
+  return buildGrid(rows, { starsPerUnit: header.starsPerUnit, starsLine: header.line, allowOneBased: true });
+}
+
+export function formatCsvGrid(state: PuzzleState): string {
+  const { starsPerUnit, regions } = state.def;
+  const rows = regions.map((row, r) => row.map((id, c) => formatToken(id, state.cells[r][c])).join(','));
+  return [starsHeader(starsPerUnit, ','), ...rows].join('\n');
+}
@@ -0,0 +1,74 @@
+import type { CellState, PuzzleState } from '../../types/puzzle';
+import { idToLetter } from '../helpers';
+import type { FormatResult, TextLine } from './grid';
+import { buildGrid, fail, starsHeader, takeStarsHeader } from './grid';
+import { looksLikeLetterGrid, readLetterRows } from './letterGrid';
+
+/**
+ * A letter layout followed, after a blank line, by the marks drawn over it:
+ *
+ *   stars: 1          (optional header)
+ *   AABBC
+ *   ...
+ *
+ *   .*...             (. empty, * star, x cross)
+ *   ...x.
+ *
+ * Spaces between characters are ignored. Without the second block every
+ * cell starts empty.
+ */
+
+const MARKS: Record<string, CellState> = { '.': 'empty', '*': 'star', x: 'cross', X: 'cross' };
+
+/** Runs of non-blank lines, split where blank lines separate them. */
+function blocks(raw: string): TextLine[][] {
+  const result: TextLine[][] = [[]];
+  raw.split(/\r?\n/).forEach((text, index) => {
+    if (text.trim()) result[result.length - 1].push({ text: text.replace(/\s+$/, ''), line: index + 1 });
+    else if (result[result.length - 1].length > 0) result.push([]);
+  });
+  return result.filter((block) => block.length > 0);
+}
+
+export function looksLikeDottedGrid(raw: string): boolean {
+  const found = blocks(raw);
+  return found.length === 2 && looksLikeLetterGrid(found[0].map(({ text }) => text).join('\n'));
+}
+
+export function parseDottedGrid(raw: string): FormatResult {
+  const [layout = [], marks = [], extra] = blocks(raw);
+  if (extra) return fail('Expected a layout block and a marks block, found a third block.', extra[0].line);
+  const header = takeStarsHeader(layout);
+  const rows = readLetterRows(layout);
+  if (!Array.isArray(rows)) return rows;
+
+  if (marks.length > 0 && marks.length !== rows.length) {
+    return fail(`The marks block has ${marks.length} rows but the layout has ${rows.length}.`, marks[0].line);
+  }
+  for (let r = 0; r < marks.length; r += 1) {
+    const { text, line } = marks[r];
+    let c = 0;
+    for (let i = 0; i < text.length; i += 1) {
+      const char = text[i];
+      if (/\s/.test(char)) continue;
+      if (!(char in MARKS)) return fail(`Unexpected "${char}" in the marks; use ".", "*" or "x".`, line, i + 1);
+      if (c >= rows[r].cells.length) {
+        return fail(`Mark row ${r + 1} is longer than layout row ${r + 1}.`, line, i + 1);
+      }
+      rows[r].cells[c].mark = MARKS[char];
+      c += 1;
+    }
+    if (c < rows[r].cells.length) return fail(`Mark row ${r + 1} is shorter than layout row ${r + 1}.`, line);
+  }
+
+  return buildGrid(rows, { starsPerUnit: header.starsPerUnit, starsLine: header.line, regionLabel: idToLetter });
+}
+
+export function formatDottedGrid(state: PuzzleState): string {
+  const { starsPerUnit, regions } = state.def;
+  const layout = regions.map((row) => row.map(idToLetter).join(''));
+  const marks = state.cells.map((row) =>
+    row.map((cell) => (cell === 'star' ? '*' : cell === 'cross' ? 'x' : '.')).join(''),
+  );
+  return [starsHeader(starsPerUnit), ...layout, '', ...marks].join('\n');
+}
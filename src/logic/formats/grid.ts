@@ -0,0 +1,144 @@
+import type { CellState } from '../../types/puzzle';
+import { MAX_SIZE, MIN_SIZE, maxStarsPerUnit, supportedStarCounts } from '../../types/puzzle';
+
+/**
+ * Pieces shared by the text formats in this directory: the parse result,
+ * errors with their position, and the checks every grid goes through once a
+ * format has split it into cells.
+ */
+
+export interface ParsedPuzzle {
+  regions: number[][];
+  cells: CellState[][];
+  /** Stars per unit stated by the text, or null to leave it to the caller. */
+  starsPerUnit: number | null;
+}
+
+export interface FormatError {
+  message: string;
+  /** 1-based position in the pasted text, when the problem has one. */
+  line?: number;
+  column?: number;
+}
+
+export type FormatResult = { puzzle: ParsedPuzzle; error: null } | { puzzle: null; error: FormatError };
+
+export interface GridCell {
+  region: number;
+  mark: CellState;
+  /** Where the cell's token starts, 1-based, when the format knows it. */
+  line?: number;
+  column?: number;
+}
+
+export interface GridRow {
+  line?: number;
+  cells: GridCell[];
+}
+
+export interface TextLine {
+  text: string;
+  /** 1-based line number in the original text. */
+  line: number;
+}
+
+export function fail(message: string, line?: number, column?: number): FormatResult {
+  return { puzzle: null, error: { message, line, column } };
+}
+
+/** "Line 3, column 7: message", or just the message when it has no position. */
+export function formatErrorText(error: FormatError): string {
+  if (error.line === undefined) return error.message;
+  return `Line ${error.line}${error.column !== undefined ? `, column ${error.column}` : ''}: ${error.message}`;
+}
+
+/** The non-blank lines of `raw`, trimmed on the right, with their line numbers. */
+export function textLines(raw: string): TextLine[] {
+  return raw
+    .split(/\r?\n/)
+    .map((text, index) => ({ text: text.replace(/\s+$/, ''), line: index + 1 }))
+    .filter(({ text }) => text.trim().length > 0);
+}
+
+/** The whitespace-separated tokens of a line with their 1-based start columns. */
+export function tokensWithColumns(text: string): Array<{ token: string; column: number }> {
+  return [...text.matchAll(/\S+/g)].map((match) => ({ token: match[0], column: (match.index ?? 0) + 1 }));
+}
+
+const STARS_HEADER = /^\s*stars\s*[:=,;\t]\s*(\d+)\s*$/i;
+
+/** A leading "stars: 3" line (also "stars,3" in CSV), removed from `lines` when present. */
+export function takeStarsHeader(lines: TextLine[]): { starsPerUnit: number | null; line: number | null } {
+  const match = lines[0]?.text.match(STARS_HEADER);
+  if (!match) return { starsPerUnit: null, line: null };
+  const { line } = lines.shift()!;
+  return { starsPerUnit: parseInt(match[1], 10), line };
+}
+
+/**
+ * The header line for `starsPerUnit`. Written for every count, since text
+ * without one imports with the star count of the board that is open.
+ */
+export function starsHeader(starsPerUnit: number, separator = ': '): string {
+  return `stars${separator}${starsPerUnit}`;
+}
+
+export interface GridOptions {
+  starsPerUnit: number | null;
+  /** Line of the stars header, for errors about it. */
+  starsLine?: number | null;
+  /** Shift grids numbered 1..size down to 0-based (numeric formats). */
+  allowOneBased?: boolean;
+  /** How the format writes a region id, for error messages (default: the number). */
+  regionLabel?(id: number): string;
+}
+
+/**
+ * The checks shared by all grid formats: size within range, square, region
+ * ids that fit the board and a star count the board can hold.
+ */
+export function buildGrid(rows: GridRow[], options: GridOptions): FormatResult {
+  const { starsPerUnit, starsLine, allowOneBased = false, regionLabel = String } = options;
+  const size = rows.length;
+  if (size < MIN_SIZE || size > MAX_SIZE) {
+    return fail(`Expected between ${MIN_SIZE} and ${MAX_SIZE} rows, found ${size}.`);
+  }
+  if (starsPerUnit !== null && (starsPerUnit < 1 || starsPerUnit > maxStarsPerUnit(size))) {
+    return fail(
+      `A ${size}×${size} board supports ${supportedStarCounts(size)} per unit, got ${starsPerUnit}.`,
+      starsLine ?? undefined,
+    );
+  }
+  for (let r = 0; r < size; r += 1) {
+    const count = rows[r].cells.length;
+    if (count !== size) {
+      return fail(`Row ${r + 1} has ${count} entries, expected ${size}.`, rows[r].line);
+    }
+  }
+
+  const ids = rows.flatMap((row) => row.cells.map((cell) => cell.region));
+  const shift = allowOneBased && !ids.includes(0) && Math.max(...ids) === size ? 1 : 0;
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      const cell = rows[r].cells[c];
+      const id = cell.region - shift;
+      if (!Number.isInteger(id) || id < 0 || id >= size) {
+        return fail(
+          `Region id ${regionLabel(cell.region)} at row ${r + 1}, col ${c + 1} is out of range ` +
+            `${regionLabel(shift)}–${regionLabel(size - 1 + shift)} for a ${size}×${size} board.`,
+          cell.line,
+          cell.column,
+        );
+      }
+    }
+  }
+
+  return {
+    puzzle: {
+      regions: rows.map((row) => row.cells.map((cell) => cell.region - shift)),
+      cells: rows.map((row) => row.cells.map((cell) => cell.mark)),
+      starsPerUnit,
+    },
+    error: null,
+  };
+}
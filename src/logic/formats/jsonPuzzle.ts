@@ -0,0 +1,118 @@
+import type { CellState, PuzzleState } from '../../types/puzzle';
+import type { FormatResult, GridRow } from './grid';
+import { buildGrid, fail } from './grid';
+
+/**
+ * Puzzles as JSON objects:
+ *
+ *   { "size": 8, "starsPerUnit": 1, "regions": [[0, 0, 1, …], …], "cells": [["empty", "star", …], …] }
+ *
+ * `size`, `starsPerUnit` and `cells` are optional. The saved-state shape
+ * `{ "def": { … }, "cells": … }` is read too, so a board copied out of
+ * storage or the library can be pasted back.
+ */
+
+const CELL_STATES: CellState[] = ['empty', 'star', 'cross'];
+
+export function looksLikeJsonPuzzle(raw: string): boolean {
+  return raw.trim().startsWith('{');
+}
+
+/** Line and column of a character offset, both 1-based. */
+function positionOf(text: string, offset: number): { line: number; column: number } {
+  const before = text.slice(0, offset).split(/\r?\n/);
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/** Offset of the first character JSON.parse rejects, for messages that leave it out. */
+function rejectedOffset(text: string): number {
+  const acceptsPrefix = (length: number) => {
+    try {
+      JSON.parse(text.slice(0, length));
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : '';
+      const at = message.match(/at position (\d+)/);
+      return at ? Number(at[1]) >= length : /end of JSON input/.test(message);
+    }
+  };
+  let accepted = 0;
+  let rejected = text.length;
+  while (rejected - accepted > 1) {
+    const middle = Math.floor((accepted + rejected) / 2);
+    if (acceptsPrefix(middle)) accepted = middle;
+    else rejected = middle;
+  }
+  return rejected - 1;
+}
+
+function syntaxError(text: string, error: unknown): FormatResult {
+  const message = error instanceof Error ? error.message : String(error);
+  const offset = message.match(/at position (\d+)/);
+  const at = positionOf(text, offset ? Number(offset[1]) : rejectedOffset(text));
+  const reason = message
+    .replace(/\s*in JSON at position[\s\S]*$/, '')
+    .replace(/,\s*"[\s\S]*" is not valid JSON$/, '');
+  return fail(`Not valid JSON: ${reason}.`, at.line, at.column);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function parseJsonPuzzle(raw: string): FormatResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch (error) {
+    return syntaxError(raw, error);
+  }
+  if (!isRecord(value)) return fail('Expected a JSON object with a "regions" array.');
+  // Collections (see library/puzzleCollection.ts) hold several puzzles
+  if (value.format === 'star-battle-collection') {
+    return fail('This is a puzzle collection; use Import collection in the library panel.');
+  }
+  const def = isRecord(value.def) ? value.def : value;
+  const { size, starsPerUnit, regions } = def;
+  const cells = value.cells;
+
+  if (!Array.isArray(regions) || !regions.every(Array.isArray)) {
+    return fail('"regions" must be an array of rows, each an array of region numbers.');
+  }
+  if (size !== undefined && size !== regions.length) {
+    return fail(`"size" is ${JSON.stringify(size)} but "regions" has ${regions.length} rows.`);
+  }
+  if (starsPerUnit !== undefined && !Number.isInteger(starsPerUnit)) {
+    return fail(`"starsPerUnit" must be a whole number, got ${JSON.stringify(starsPerUnit)}.`);
+  }
+  if (cells !== undefined && (!Array.isArray(cells) || cells.length !== regions.length || !cells.every(Array.isArray))) {
+    return fail(`"cells" must be an array of ${regions.length} rows like "regions".`);
+  }
+
+  const rows: GridRow[] = [];
+  for (let r = 0; r < regions.length; r += 1) {
+    const row: GridRow = { cells: [] };
+    for (let c = 0; c < regions[r].length; c += 1) {
+      const region = regions[r][c];
+      if (!Number.isInteger(region)) return fail(`regions[${r}][${c}] must be a whole number, got ${JSON.stringify(region)}.`);
+      const mark = cells ? (cells as unknown[][])[r][c] : 'empty';
+      if (!CELL_STATES.includes(mark as CellState)) {
+        return fail(`cells[${r}][${c}] must be "empty", "star" or "cross", got ${JSON.stringify(mark)}.`);
+      }
+      row.cells.push({ region: region as number, mark: mark as CellState });
+    }
+    rows.push(row);
+  }
+  return buildGrid(rows, { starsPerUnit: (starsPerUnit as number | undefined) ?? null });
+}
+
+/** One row per line so the layout stays readable. */
+export function formatJsonPuzzle(state: PuzzleState): string {
+  const { size, starsPerUnit, regions } = state.def;
+  const grid = (rows: unknown[][]) => rows.map((row) => `    ${JSON.stringify(row)}`).join(',\n');
+  const fields = [`  "size": ${size}`, `  "starsPerUnit": ${starsPerUnit}`, `  "regions": [\n${grid(regions)}\n  ]`];
+  if (state.cells.some((row) => row.some((cell) => cell !== 'empty'))) {
+    fields.push(`  "cells": [\n${grid(state.cells)}\n  ]`);
+  }
+  return `{\n${fields.join(',\n')}\n}`;
+}
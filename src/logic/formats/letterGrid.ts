@@ -0,0 +1,53 @@
+import type { PuzzleState } from '../../types/puzzle';
+import { idToLetter } from '../helpers';
+import type { FormatResult, GridRow, TextLine } from './grid';
+import { buildGrid, fail, starsHeader, takeStarsHeader, textLines } from './grid';
+
+/**
+ * Region layouts written as letters, one line per row:
+ *
+ *   stars: 1          (optional header)
+ *   AABBC
+ *   AABCC
+ *   ...
+ *
+ * A is region 0. Letters may be separated by spaces and either case is
+ * accepted. The format has no marks; see dottedGrid.ts for one that does.
+ */
+
+const LINE = /^[A-Za-z](?:\s*[A-Za-z])*$/;
+
+export function looksLikeLetterGrid(raw: string): boolean {
+  const lines = textLines(raw);
+  takeStarsHeader(lines);
+  return lines.length > 0 && lines.every(({ text }) => LINE.test(text.trim()));
+}
+
+/** Rows of region letters, for this format and the layout block of dotted grids. */
+export function readLetterRows(lines: TextLine[]): GridRow[] | FormatResult {
+  const rows: GridRow[] = [];
+  for (const { text, line } of lines) {
+    const row: GridRow = { line, cells: [] };
+    for (let i = 0; i < text.length; i += 1) {
+      const char = text[i];
+      if (/\s/.test(char)) continue;
+      if (!/[A-Za-z]/.test(char)) return fail(`Unexpected "${char}"; region letters run from A.`, line, i + 1);
+      row.cells.push({ region: char.toUpperCase().charCodeAt(0) - 65, mark: 'empty', line, column: i + 1 });
+    }
+    rows.push(row);
+  }
+  return rows;
+}
+
+export function parseLetterGrid(raw: string): FormatResult {
+  const lines = textLines(raw);
+  const header = takeStarsHeader(lines);
+  const rows = readLetterRows(lines);
+  if (!Array.isArray(rows)) return rows;
+  return buildGrid(rows, { starsPerUnit: header.starsPerUnit, starsLine: header.line, regionLabel: idToLetter });
+}
+
+export function formatLetterGrid(state: PuzzleState): string {
+  const { starsPerUnit, regions } = state.def;
+  return [starsHeader(starsPerUnit), ...regions.map((row) => row.map(idToLetter).join(''))].join('\n');
+}
@@ -0,0 +1,46 @@
+import type { CellState, PuzzleState } from '../../types/puzzle';
+import type { FormatResult, GridRow } from './grid';
+import { buildGrid, fail, starsHeader, takeStarsHeader, textLines, tokensWithColumns } from './grid';
+
+/**
+ * The app's own grid format:
+ *
+ *   stars: 3          (optional header; defaults to the caller's choice)
+ *   0 0 1s 1 2x ...   (one line per row, one token per cell)
+ *
+ * Each token is a region id followed by an optional `s` (star) or `x` (cross).
+ * Region ids are 0-based (0 → A). Grids numbered 1..size are shifted down.
+ */
+
+const TOKEN = /^(\d+)([sxSX])?$/;
+
+export function tokenMark(suffix: string | undefined): CellState {
+  if (!suffix) return 'empty';
+  return suffix.toLowerCase() === 's' ? 'star' : 'cross';
+}
+
+export function formatToken(region: number, cell: CellState): string {
+  return `${region}${cell === 'star' ? 's' : cell === 'cross' ? 'x' : ''}`;
+}
+
+export function parseTokenGrid(raw: string): FormatResult {
+  const lines = textLines(raw);
+  const header = takeStarsHeader(lines);
+  const rows: GridRow[] = [];
+  for (const { text, line } of lines) {
+    const row: GridRow = { line, cells: [] };
+    for (const { token, column } of tokensWithColumns(text)) {
+      const match = token.match(TOKEN);
+      if (!match) return fail(`Invalid token "${token}". Use e.g. "3", "3s", "3x".`, line, column);
+      row.cells.push({ region: parseInt(match[1], 10), mark: tokenMark(match[2]), line, column });
+    }
+    rows.push(row);
+  }
+  return buildGrid(rows, { starsPerUnit: header.starsPerUnit, starsLine: header.line, allowOneBased: true });
+}
+
+export function formatTokenGrid(state: PuzzleState): string {
+  const { starsPerUnit, regions } = state.def;
+  const rows = regions.map((row, r) => row.map((id, c) => formatToken(id, state.cells[r][c])).join(' '));
+  return [starsHeader(starsPerUnit), ...rows].join('\n');
+}
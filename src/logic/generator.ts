@@ -0,0 +1,410 @@
+import type { CellState, Coords, PuzzleDef } from '../types/puzzle';
+import type { TechniqueId, TechniqueTier } from '../types/hints';
+import { techniqueTiers } from '../types/hints';
+import { DEFAULT_SIZE, DEFAULT_STARS_PER_UNIT, createEmptyPuzzleState } from '../types/puzzle';
+import { countSolutions, nonAdjacentColumnSets } from './search';
+import { yieldToBrowser } from './yieldUtils';
+import { orthogonalNeighbors } from './helpers';
+import type { SolvePathStep } from './solvePath';
+import { solveLogically } from './solverEngine';
+
+/**
+ * Puzzle generator.
+ *
+ * 1. Pick a random valid star solution (row by row, ignoring regions).
+ * 2. Seed one region per star and grow all regions outwards until every cell
+ *    belongs to a region holding exactly starsPerUnit of the solution's stars.
+ * 3. Use countSolutions() to check the layout. While it has another solution,
+ *    move one of that solution's extra stars across a region border, which
+ *    breaks it without touching the intended one.
+ *
+ * generateTargetedPuzzle() additionally solves each unique layout with the
+ * technique pipeline and keeps it only if the solve path matches a target
+ * (a required technique and/or a maximum technique tier).
+ *
+ * All randomness comes from a seeded PRNG, so the same seed and options give
+ * the same puzzle (as long as no solution count hits its timeout).
+ */
+
+export interface GeneratePuzzleOptions {
+  size?: number;
+  starsPerUnit?: number;
+  /** Seed for the PRNG (default: random). */
+  seed?: number;
+  /** Fresh layouts to try before giving up (default: 20). */
+  maxAttempts?: number;
+  /** Border moves to try per layout while it is not unique (default: 60). */
+  maxRefinements?: number;
+  /** Timeout for each countSolutions() call (default: 2000ms). */
+  countTimeoutMs?: number;
+}
+
+export interface GeneratedPuzzle {
+  def: PuzzleDef;
+  /** The star cells of the unique solution. */
+  solution: Coords[];
+  seed: number;
+  /** Number of layouts tried, including the successful one. */
+  attempts: number;
+}
+
+const MAX_PLACEMENT_STEPS = 200_000;
+
+export type RandomFn = () => number;
+
+/**
+ * mulberry32: small, fast, seedable PRNG returning floats in [0, 1).
+ */
+export function createSeededRandom(seed: number): RandomFn {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+}
+
+function randomInt(random: RandomFn, n: number): number {
+  return Math.floor(random() * n);
+}
+
+function shuffle<T>(items: T[], random: RandomFn): T[] {
+  for (let i = items.length - 1; i > 0; i -= 1) {
+    const j = randomInt(random, i + 1);
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Random star placement with starsPerUnit stars in every row and column and
+ * no two stars touching. Returns null if none is found within the step budget.
+ */
+export function randomStarSolution(size: number, starsPerUnit: number, random: RandomFn): Coords[] | null {
+  const rowOptions = nonAdjacentColumnSets(size, starsPerUnit);
+  if (rowOptions.length === 0) return null;
+
+  const colCounts = new Array(size).fill(0);
+  const chosen: number[][] = [];
+  let steps = 0;
+
+  function place(row: number): boolean {
+    if (row === size) {
+      return colCounts.every((count) => count === starsPerUnit);
+    }
+    const rowsAfter = size - row - 1;
+    for (const cols of shuffle([...rowOptions], random)) {
+      steps += 1;
+      if (steps > MAX_PLACEMENT_STEPS) return false;
+
+      const prev = chosen[row - 1];
+      if (prev && cols.some((c) => prev.some((p) => Math.abs(p - c) <= 1))) continue;
+      if (cols.some((c) => colCounts[c] >= starsPerUnit)) continue;
+
+      for (const c of cols) colCounts[c] += 1;
+      // A column can take at most one star per two remaining rows.
+      const feasible = colCounts.every((count) => count + Math.ceil(rowsAfter / 2) >= starsPerUnit);
+      if (feasible) {
+        chosen.push(cols);
+        if (place(row + 1)) return true;
+        chosen.pop();
+      }
+      for (const c of cols) colCounts[c] -= 1;
+    }
+    return false;
+  }
+
+  if (!place(0)) return null;
+
+  const stars: Coords[] = [];
+  chosen.forEach((cols, row) => cols.forEach((col) => stars.push({ row, col })));
+  return stars;
+}
+
+/**
+ * Grow size connected regions around the given stars so that each region ends
+ * up with exactly starsPerUnit stars. Returns null when growth gets stuck.
+ *
+ * Each region starts from one star. Regions that still need stars take turns
+ * claiming the nearest free star along a shortest path of unclaimed cells;
+ * once every star is claimed, the leftover cells are absorbed at random.
+ */
+export function growRegions(
+  size: number,
+  starsPerUnit: number,
+  stars: Coords[],
+  random: RandomFn,
+): number[][] | null {
+  const regions: number[][] = Array.from({ length: size }, () => new Array(size).fill(-1));
+  const isStar: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+  for (const star of stars) isStar[star.row][star.col] = true;
+
+  const regionSizes = new Array(size).fill(1);
+  const regionStars = new Array(size).fill(1);
+  const seeds = shuffle([...stars], random).slice(0, size);
+  seeds.forEach((seed, id) => {
+    regions[seed.row][seed.col] = id;
+  });
+
+  function claim(cell: Coords, id: number): void {
+    regions[cell.row][cell.col] = id;
+    regionSizes[id] += 1;
+    if (isStar[cell.row][cell.col]) regionStars[id] += 1;
+  }
+
+  // Phase 1: claim stars.
+  for (let round = 1; round < starsPerUnit; round += 1) {
+    for (const id of shuffle(Array.from({ length: size }, (_, i) => i), random)) {
+      const path = pathToNearestFreeStar(regions, isStar, id, random);
+      if (!path) return null;
+      for (const cell of path) claim(cell, id);
+    }
+  }
+
+  // Phase 2: absorb the remaining (non-star) cells.
+  for (;;) {
+    const moves: Array<{ cell: Coords; id: number }> = [];
+    for (let r = 0; r < size; r += 1) {
+      for (let c = 0; c < size; c += 1) {
+        if (regions[r][c] !== -1) continue;
+        for (const nb of orthogonalNeighbors({ row: r, col: c }, size)) {
+          const id = regions[nb.row][nb.col];
+          if (id !== -1) moves.push({ cell: { row: r, col: c }, id });
+        }
+      }
+    }
+    if (moves.length === 0) break;
+
+    // Tournament of two, favouring the smaller region, keeps sizes balanced.
+    let pick = moves[randomInt(random, moves.length)];
+    const rival = moves[randomInt(random, moves.length)];
+    if (regionSizes[rival.id] < regionSizes[pick.id]) pick = rival;
+    claim(pick.cell, pick.id);
+  }
+
+  return regionStars.every((count) => count === starsPerUnit) ? regions : null;
+}
+
+/**
+ * Breadth-first search from region `id` through unclaimed non-star cells to the
+ * nearest unclaimed star. Returns the cells to claim (ending with the star).
+ */
+function pathToNearestFreeStar(
+  regions: number[][],
+  isStar: boolean[][],
+  id: number,
+  random: RandomFn,
+): Coords[] | null {
+  const size = regions.length;
+  const parent = new Map<string, Coords | null>();
+  let frontier: Coords[] = [];
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (regions[r][c] === id) {
+        parent.set(`${r},${c}`, null);
+        frontier.push({ row: r, col: c });
+      }
+    }
+  }
+
+  while (frontier.length > 0) {
+    const next: Coords[] = [];
+    const found: Coords[] = [];
+    for (const cell of shuffle(frontier, random)) {
+      for (const nb of shuffle(orthogonalNeighbors(cell, size), random)) {
+        const key = `${nb.row},${nb.col}`;
+        if (parent.has(key) || regions[nb.row][nb.col] !== -1) continue;
+        parent.set(key, regions[cell.row][cell.col] === id ? null : cell);
+        if (isStar[nb.row][nb.col]) {
+          found.push(nb);
+        } else {
+          next.push(nb);
+        }
+      }
+    }
+    if (found.length > 0) {
+      const path: Coords[] = [];
+      let cell: Coords | null = found[randomInt(random, found.length)];
+      while (cell) {
+        path.push(cell);
+        cell = parent.get(`${cell.row},${cell.col}`) ?? null;
+      }
+      return path;
+    }
+    frontier = next;
+  }
+  return null;
+}
+
+function isRegionConnectedWithout(regions: number[][], regionId: number, removed: Coords): boolean {
+  const size = regions.length;
+  const cells: Coords[] = [];
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (regions[r][c] === regionId && (r !== removed.row || c !== removed.col)) {
+        cells.push({ row: r, col: c });
+      }
+    }
+  }
+  if (cells.length === 0) return false;
+
+  const seen = new Set<string>([`${cells[0].row},${cells[0].col}`]);
+  const queue = [cells[0]];
+  while (queue.length > 0) {
+    const cell = queue.pop()!;
+    for (const nb of orthogonalNeighbors(cell, size)) {
+      const key = `${nb.row},${nb.col}`;
+      if (seen.has(key) || regions[nb.row][nb.col] !== regionId) continue;
+      if (nb.row === removed.row && nb.col === removed.col) continue;
+      seen.add(key);
+      queue.push(nb);
+    }
+  }
+  return seen.size === cells.length;
+}
+
+/**
+ * Break an alternative solution: move one of its stars that is not a star of
+ * the intended solution into a neighbouring region. The old region drops to
+ * starsPerUnit - 1 of the alternative's stars and the new one rises above
+ * starsPerUnit, while the intended solution is untouched. Both regions stay
+ * connected. Returns false if no such move exists.
+ */
+function breakAlternative(
+  regions: number[][],
+  isStar: boolean[][],
+  alternative: CellState[][],
+  random: RandomFn,
+): boolean {
+  const size = regions.length;
+  const moves: Array<{ cell: Coords; to: number }> = [];
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (isStar[r][c] || alternative[r][c] !== 'star') continue;
+      for (const nb of orthogonalNeighbors({ row: r, col: c }, size)) {
+        const to = regions[nb.row][nb.col];
+        if (to !== regions[r][c]) moves.push({ cell: { row: r, col: c }, to });
+      }
+    }
+  }
+
+  for (const { cell, to } of shuffle(moves, random)) {
+    if (!isRegionConnectedWithout(regions, regions[cell.row][cell.col], cell)) continue;
+    regions[cell.row][cell.col] = to;
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Core generation loop. Yields null after each solution count so callers can
+ * pause between steps, and yields each uniquely solvable layout it finds
+ * before moving on to the next attempt. Finishes after maxAttempts layouts.
+ */
+function* generationSteps(options: GeneratePuzzleOptions): Generator<GeneratedPuzzle | null, void> {
+  const {
+    size = DEFAULT_SIZE,
+    starsPerUnit = DEFAULT_STARS_PER_UNIT,
+    seed = randomSeed(),
+    maxAttempts = 20,
+    maxRefinements = 60,
+    countTimeoutMs = 2000,
+  } = options;
+  const random = createSeededRandom(seed);
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt += 1) {
+    const solution = randomStarSolution(size, starsPerUnit, random);
+    if (!solution) continue;
+    const regions = growRegions(size, starsPerUnit, solution, random);
+    if (!regions) continue;
+
+    const def: PuzzleDef = { size, starsPerUnit, regions };
+    const isStar: boolean[][] = Array.from({ length: size }, () => new Array(size).fill(false));
+    for (const star of solution) isStar[star.row][star.col] = true;
+
+    for (let step = 0; step <= maxRefinements; step += 1) {
+      const alternatives: CellState[][][] = [];
+      const result = countSolutions(createEmptyPuzzleState(def), {
+        maxCount: 2,
+        timeoutMs: countTimeoutMs,
+        onSolution: (cells) => {
+          if (cells.some((row, r) => row.some((cell, c) => (cell === 'star') !== isStar[r][c]))) {
+            alternatives.push(cells);
+          }
+        },
+      });
+      if (result.timedOut) break;
+      if (result.count === 1) {
+        yield { def, solution, seed, attempts: attempt };
+        break;
+      }
+      yield null;
+      if (alternatives.length === 0 || !breakAlternative(regions, isStar, alternatives[0], random)) break;
+    }
+  }
+}
+
+/**
+ * Generate a puzzle with exactly one solution, or null if none was found
+ * within maxAttempts layouts.
+ */
+export function generatePuzzle(options: GeneratePuzzleOptions = {}): GeneratedPuzzle | null {
+  for (const candidate of generationSteps(options)) {
+    if (candidate) return candidate;
+  }
+  return null;
+}
+
+export interface PuzzleTarget {
+  /** The solve path must use this technique. */
+  requireTechnique?: TechniqueId;
+  /** Only techniques up to this tier may be used, and they must solve the puzzle. */
+  maxTier?: TechniqueTier;
+}
+
+export interface TargetedPuzzle extends GeneratedPuzzle {
+  /** The logical solve path (empty when no target was given). */
+  path: SolvePathStep[];
+}
+
+/**
+ * Generate a uniquely solvable puzzle whose logical solve path matches the
+ * target. Each unique layout is solved with the technique pipeline and kept
+ * only if the pipeline (restricted to maxTier) completes it and, when asked,
+ * uses requireTechnique along the way. Without a target this is an async
+ * generatePuzzle() that yields to the browser between solution counts.
+ * Resolves to null if aborted or no layout within maxAttempts matches.
+ */
+export async function generateTargetedPuzzle(
+  options: GeneratePuzzleOptions & PuzzleTarget & { signal?: AbortSignal } = {},
+): Promise<TargetedPuzzle | null> {
+  const { requireTechnique, maxTier, signal } = options;
+  const hasTarget = requireTechnique !== undefined || maxTier !== undefined;
+  const enabledTechniques =
+    maxTier === undefined
+      ? undefined
+      : (Object.keys(techniqueTiers) as TechniqueId[]).filter((id) => techniqueTiers[id] <= maxTier);
+  if (requireTechnique && enabledTechniques && !enabledTechniques.includes(requireTechnique)) {
+    return null;
+  }
+
+  for (const candidate of generationSteps(options)) {
+    if (signal?.aborted) return null;
+    await yieldToBrowser();
+    if (!candidate) continue;
+    if (!hasTarget) return { ...candidate, path: [] };
+
+    const trace = await solveLogically(createEmptyPuzzleState(candidate.def), { enabledTechniques, signal });
+    if (trace.aborted) return null;
+    if (!trace.solved) continue;
+    if (requireTechnique && !trace.steps.some((step) => step.technique === requireTechnique)) continue;
+    return { ...candidate, path: trace.steps };
+  }
+  return null;
+}
@@ -1,4 +1,5 @@
 import type { PuzzleState, Coords, CellState } from '../types/puzzle';
+import { createMask, type CellMask } from './bitboard';
 
 export function rowCells(state: PuzzleState, row: number): Coords[] {
   const { size } = state.def;
@@ -47,12 +48,12 @@ export function emptyCells(state: PuzzleState, cells: Coords[]): Coords[] {
 }
 
 /**
- * Convert a number (0-9) to a letter (A-J) for display
+ * Convert a region id (0-25) to a letter (A-Z) for display
  * This is the canonical implementation used throughout the codebase
  */
 export function idToLetter(id: number): string {
-  if (id >= 0 && id <= 9) {
-    return String.fromCharCode(65 + id); // 'A' = 65, so 0→'A', 9→'J'
+  if (id >= 0 && id <= 25) {
+    return String.fromCharCode(65 + id); // 'A' = 65, so 0→'A', 16→'Q'
   }
   return String(id);
 }
@@ -101,41 +102,68 @@ export function neighbors8(coord: Coords, size: number): Coords[] {
   return result;
 }
 
+const ORTHOGONAL: Array<[number, number]> = [
+  [-1, 0],
+  [1, 0],
+  [0, -1],
+  [0, 1],
+];
+
+export function orthogonalNeighbors(cell: Coords, size: number): Coords[] {
+  const result: Coords[] = [];
+  for (const [dr, dc] of ORTHOGONAL) {
+    const row = cell.row + dr;
+    const col = cell.col + dc;
+    if (row >= 0 && row < size && col >= 0 && col < size) {
+      result.push({ row, col });
+    }
+  }
+  return result;
+}
+
 // ============================================================================
 // Set Operations
 // ============================================================================
 
-function coordsEqual(a: Coords, b: Coords): boolean {
-  return a.row === b.row && a.col === b.col;
+// Coords lists are not tied to a board size, so membership uses MAX_SIZE
+// bitboards: O(n) per operation instead of pairwise comparisons. The scratch
+// masks are reused (and cleared again) to avoid allocating on every call.
+const scratchOther = createMask();
+const scratchSeen = createMask();
+
+function setCells(mask: CellMask, coords: Coords[], present: boolean): void {
+  for (const { row, col } of coords) {
+    if (present) mask[row] |= 1 << col;
+    else mask[row] &= ~(1 << col);
+  }
 }
 
-function deduplicate(coords: Coords[]): Coords[] {
+// Cells of `a` (first occurrence only) that are / are not in `b`.
+function filterByMembership(a: Coords[], b: Coords[], keepMembers: boolean): Coords[] {
+  setCells(scratchOther, b, true);
   const result: Coords[] = [];
-  for (const coord of coords) {
-    if (!result.some((c) => coordsEqual(c, coord))) {
-      result.push(coord);
-    }
+  for (const cell of a) {
+    const bit = 1 << cell.col;
+    if (scratchSeen[cell.row] & bit || ((scratchOther[cell.row] & bit) !== 0) !== keepMembers) continue;
+    scratchSeen[cell.row] |= bit;
+    result.push(cell);
   }
+  setCells(scratchSeen, result, false);
+  setCells(scratchOther, b, false);
   return result;
 }
 
 export function intersection(a: Coords[], b: Coords[]): Coords[] {
-  const deduped = deduplicate(a.filter((coordA) => b.some((coordB) => coordsEqual(coordA, coordB))));
-  return deduped;
+  return filterByMembership(a, b, true);
 }
 
 export function union(a: Coords[], b: Coords[]): Coords[] {
-  const result = [...a];
-  for (const coordB of b) {
-    if (!a.some((coordA) => coordsEqual(coordA, coordB))) {
-      result.push(coordB);
-    }
-  }
-  return deduplicate(result);
+  // Nothing is excluded, so every first occurrence is kept
+  return filterByMembership([...a, ...b], [], false);
 }
 
 export function difference(a: Coords[], b: Coords[]): Coords[] {
-  return deduplicate(a.filter((coordA) => !b.some((coordB) => coordsEqual(coordA, coordB))));
+  return filterByMembership(a, b, false);
 }
 
 // ============================================================================
@@ -312,7 +340,7 @@ export interface TShapePattern {
  */
 export function findLShapes(state: PuzzleState): LShapePattern[] {
   const patterns: LShapePattern[] = [];
-  const numRegions = 10; // Standard Star Battle has 10 regions
+  const numRegions = state.def.size; // One region per row/column
   
   for (let regionId = 0; regionId < numRegions; regionId += 1) {
     const cells = regionCells(state, regionId);
@@ -360,7 +388,7 @@ export function findLShapes(state: PuzzleState): LShapePattern[] {
  */
 export function findMShapes(state: PuzzleState): MShapePattern[] {
   const patterns: MShapePattern[] = [];
-  const numRegions = 10;
+  const numRegions = state.def.size;
   
   for (let regionId = 0; regionId < numRegions; regionId += 1) {
     const cells = regionCells(state, regionId);
@@ -433,7 +461,7 @@ export function findMShapes(state: PuzzleState): MShapePattern[] {
  */
 export function findTShapes(state: PuzzleState): TShapePattern[] {
   const patterns: TShapePattern[] = [];
-  const numRegions = 10;
+  const numRegions = state.def.size;
   
   for (let regionId = 0; regionId < numRegions; regionId += 1) {
     const cells = regionCells(state, regionId);
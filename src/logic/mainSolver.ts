@@ -1,5 +1,5 @@
 import type { PuzzleState, Coords } from '../types/puzzle';
-import type { Hint } from '../types/hints';
+import type { Hint, HintHighlight } from '../types/hints';
 import type {
   Deduction,
   CellDeduction,
@@ -91,8 +91,11 @@ function mergeHintHighlights(a?: Hint['highlights'], b?: Hint['highlights']): Hi
   return merged;
 }
 
-function deductionToHighlight(ded: Deduction, state: PuzzleState): Required<Hint['highlights']> {
-  const out: Required<Hint['highlights']> = {
+// Deduction highlights cover cells and units only (never forcing-chain branches).
+type DeductionHighlight = Required<Omit<HintHighlight, 'branches'>>;
+
+function deductionToHighlight(ded: Deduction, state: PuzzleState): DeductionHighlight {
+  const out: DeductionHighlight = {
     cells: [],
     rows: [],
     cols: [],
@@ -168,7 +171,7 @@ function deductionToHighlight(ded: Deduction, state: PuzzleState): Required<Hint
 function buildSupportingHighlights(deductions: Deduction[], state: PuzzleState): Hint['highlights'] | undefined {
   if (deductions.length === 0) return undefined;
 
-  const merged: Required<Hint['highlights']> = {
+  const merged: DeductionHighlight = {
     cells: [],
     rows: [],
     cols: [],
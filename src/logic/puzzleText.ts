@@ -0,0 +1,29 @@
+import type { CellState, PuzzleState } from '../types/puzzle';
+import { formatErrorText } from './formats/grid';
+import { formatTokenGrid, parseTokenGrid } from './formats/tokenGrid';
+
+/**
+ * The number grid (`0 0 1s 1 2x …`) for callers that only deal in that
+ * format, such as the built-in puzzles. Pasted text goes through the format
+ * registry in formats.ts instead; see formats/tokenGrid.ts for the syntax.
+ */
+export interface ParsedPuzzleText {
+  regions: number[][];
+  cells: CellState[][];
+  /** Stars per unit from the header line, or null when the text has none. */
+  starsPerUnit: number | null;
+  error: string | null;
+}
+
+export function parsePuzzleString(raw: string): ParsedPuzzleText {
+  if (!raw.trim()) {
+    return { regions: [], cells: [], starsPerUnit: null, error: 'Paste a puzzle grid first.' };
+  }
+  const result = parseTokenGrid(raw);
+  if (result.error) return { regions: [], cells: [], starsPerUnit: null, error: formatErrorText(result.error) };
+  return { ...result.puzzle, error: null };
+}
+
+export function formatPuzzleString(state: PuzzleState): string {
+  return formatTokenGrid(state);
+}
@@ -0,0 +1,108 @@
+import type { CellState, PuzzleState } from '../types/puzzle';
+import { MAX_SIZE, MIN_SIZE, maxStarsPerUnit, supportedStarCounts } from '../types/puzzle';
+import type { ParsedPuzzleText } from './puzzleText';
+
+/**
+ * Link format for sharing a board, kept in the URL fragment so it never
+ * reaches a server:
+ *
+ *   #size=10&stars=2&regions=000111223300…&marks=0k0…
+ *
+ * `regions` has one base-36 digit per cell, row by row (0 → A, a → K, up to
+ * g for 17×17). `marks` is optional and packs three cells per base-36 digit
+ * (empty 0, cross 1, star 2, first cell most significant); trailing empty
+ * cells are left out. `stars` defaults to the caller's choice like the text
+ * format's header.
+ */
+
+export interface PuzzleLinkOptions {
+  /** Include stars and crosses (default: true). Omitted anyway when the board has none. */
+  includeMarks?: boolean;
+}
+
+const MARK_VALUES: Record<CellState, number> = { empty: 0, cross: 1, star: 2 };
+const MARKS_BY_VALUE: CellState[] = ['empty', 'cross', 'star'];
+
+function failure(error: string): ParsedPuzzleText {
+  return { regions: [], cells: [], starsPerUnit: null, error };
+}
+
+function encodeMarks(cells: CellState[][]): string {
+  const flat = cells.flat();
+  let digits = '';
+  for (let i = 0; i < flat.length; i += 3) {
+    const value = [0, 1, 2].reduce((sum, offset) => sum * 3 + MARK_VALUES[flat[i + offset] ?? 'empty'], 0);
+    digits += value.toString(36);
+  }
+  return digits.replace(/0+$/, '');
+}
+
+/** The fragment (without '#') that opens `state`, e.g. "size=10&stars=2&regions=…". */
+export function encodePuzzleLink(state: PuzzleState, options: PuzzleLinkOptions = {}): string {
+  const { includeMarks = true } = options;
+  const { size, starsPerUnit, regions } = state.def;
+  const params = new URLSearchParams({
+    size: String(size),
+    stars: String(starsPerUnit),
+    regions: regions.flat().map((id) => id.toString(36)).join(''),
+  });
+  const marks = includeMarks ? encodeMarks(state.cells) : '';
+  if (marks) params.set('marks', marks);
+  return params.toString();
+}
+
+/**
+ * Read a board from a URL fragment (with or without the leading '#').
+ * Returns null when the fragment holds no puzzle at all.
+ */
+export function decodePuzzleLink(fragment: string): ParsedPuzzleText | null {
+  const params = new URLSearchParams(fragment.replace(/^#/, ''));
+  const layout = params.get('regions');
+  if (layout === null) return null;
+
+  const sizeParam = params.get('size');
+  const size = sizeParam === null ? Math.round(Math.sqrt(layout.length)) : Number(sizeParam);
+  if (!Number.isInteger(size) || size < MIN_SIZE || size > MAX_SIZE) {
+    return failure(`The link's board size must be ${MIN_SIZE}–${MAX_SIZE}, got ${sizeParam ?? layout.length + ' cells'}.`);
+  }
+  if (layout.length !== size * size) {
+    return failure(`The link has ${layout.length} region cells, expected ${size * size} for a ${size}×${size} board.`);
+  }
+
+  const starsParam = params.get('stars');
+  const starsPerUnit = starsParam === null ? null : Number(starsParam);
+  if (starsPerUnit !== null && (!Number.isInteger(starsPerUnit) || starsPerUnit < 1 || starsPerUnit > maxStarsPerUnit(size))) {
+    return failure(`A ${size}×${size} board supports ${supportedStarCounts(size)} per unit, got ${starsParam}.`);
+  }
+
+  const regions: number[][] = [];
+  for (let r = 0; r < size; r += 1) {
+    const row: number[] = [];
+    for (let c = 0; c < size; c += 1) {
+      const digit = layout[r * size + c];
+      const id = parseInt(digit, 36);
+      if (!/^[0-9a-z]$/i.test(digit) || id >= size) {
+        return failure(`Region "${digit}" at row ${r + 1}, col ${c + 1} is out of range for a ${size}×${size} board.`);
+      }
+      row.push(id);
+    }
+    regions.push(row);
+  }
+
+  const marks = params.get('marks') ?? '';
+  if (marks.length > Math.ceil((size * size) / 3)) {
+    return failure(`The link's marks run past the end of a ${size}×${size} board.`);
+  }
+  const flat: CellState[] = [];
+  for (let i = 0; i < Math.ceil((size * size) / 3); i += 1) {
+    const digit = marks[i] ?? '0';
+    const value = parseInt(digit, 36);
+    if (!/^[0-9a-z]$/i.test(digit) || value >= 27) {
+      return failure(`The link's marks contain an invalid character "${digit}".`);
+    }
+    flat.push(MARKS_BY_VALUE[Math.floor(value / 9)], MARKS_BY_VALUE[Math.floor(value / 3) % 3], MARKS_BY_VALUE[value % 3]);
+  }
+  const cells = regions.map((row, r) => row.map((_, c) => flat[r * size + c]));
+
+  return { regions, cells, starsPerUnit, error: null };
+}
@@ -0,0 +1,135 @@
+import type { PuzzleDef } from '../types/puzzle';
+import { MAX_SIZE, MIN_SIZE, maxStarsPerUnit, supportedStarCounts } from '../types/puzzle';
+
+/**
+ * puzz.link / pzprjs Star Battle URLs:
+ *
+ *   https://puzz.link/p?starbattle/10/10/2/<borders>
+ *
+ * after the '?' come the puzzle type, columns, rows, stars per unit and the
+ * region borders. Borders are bits, five per base-32 digit, most significant
+ * first: first the (cols - 1) × rows walls between horizontal neighbours,
+ * row by row, then the cols × (rows - 1) walls between vertical neighbours,
+ * row by row, each group padded to a whole digit. Regions are the areas the
+ * walls enclose, so a region split in two comes back as two regions.
+ */
+
+export const PZPR_BASE_URL = 'https://puzz.link/p';
+
+const PUZZLE_TYPE = 'starbattle';
+
+export interface PzprImport {
+  def: PuzzleDef | null;
+  error: string | null;
+}
+
+function failure(error: string): PzprImport {
+  return { def: null, error };
+}
+
+function encodeBits(bits: boolean[]): string {
+  let digits = '';
+  for (let i = 0; i < bits.length; i += 5) {
+    let value = 0;
+    for (let w = 0; w < 5; w += 1) value = value * 2 + (bits[i + w] ? 1 : 0);
+    digits += value.toString(32);
+  }
+  return digits;
+}
+
+function decodeBits(digits: string, count: number): boolean[] | null {
+  const bits: boolean[] = [];
+  for (const digit of digits) {
+    const value = parseInt(digit, 32);
+    if (Number.isNaN(value)) return null;
+    for (let w = 4; w >= 0; w -= 1) bits.push(((value >> w) & 1) === 1);
+  }
+  return bits.slice(0, count);
+}
+
+/** Whether `text` looks like a pzprjs URL for any puzzle type (has "p?type/" or "p.html?type/"). */
+export function isPzprUrl(text: string): boolean {
+  return /^\s*https?:\/\/\S*\?[a-z0-9_]+\/\S*\s*$/i.test(text);
+}
+
+/** The puzz.link URL for `def`'s layout and star count; marks are not part of the format. */
+export function encodePzprUrl(def: PuzzleDef, baseUrl = PZPR_BASE_URL): string {
+  const { size, starsPerUnit, regions } = def;
+  const vertical: boolean[] = [];
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size - 1; c += 1) vertical.push(regions[r][c] !== regions[r][c + 1]);
+  }
+  const horizontal: boolean[] = [];
+  for (let r = 0; r < size - 1; r += 1) {
+    for (let c = 0; c < size; c += 1) horizontal.push(regions[r][c] !== regions[r + 1][c]);
+  }
+  return `${baseUrl}?${PUZZLE_TYPE}/${size}/${size}/${starsPerUnit}/${encodeBits(vertical)}${encodeBits(horizontal)}`;
+}
+
+/**
+ * Read a puzz.link / pzprjs Star Battle URL. Region ids are numbered in the
+ * order their first cell appears, row by row.
+ */
+export function decodePzprUrl(url: string): PzprImport {
+  const query = url.trim().split('?')[1];
+  if (!query) return failure('Not a puzz.link URL: nothing after "?".');
+  const parts = query.split('/');
+  // Editor links name the type as "starbattle_edit"
+  const type = parts[0].replace(/_(edit|play)$/, '');
+  if (type !== PUZZLE_TYPE) return failure(`This is a "${type}" puzzle, not a Star Battle.`);
+
+  const [colsText, rowsText, starsText, borders = ''] = parts.slice(1);
+  const cols = Number(colsText);
+  const rows = Number(rowsText);
+  if (!Number.isInteger(cols) || !Number.isInteger(rows)) return failure('The URL is missing the board size.');
+  if (cols !== rows) return failure(`Star Battle boards are square; the URL has ${cols}×${rows}.`);
+  const size = cols;
+  if (size < MIN_SIZE || size > MAX_SIZE) {
+    return failure(`Expected a board from ${MIN_SIZE}×${MIN_SIZE} to ${MAX_SIZE}×${MAX_SIZE}, got ${size}×${size}.`);
+  }
+  const starsPerUnit = Number(starsText);
+  if (!Number.isInteger(starsPerUnit) || starsPerUnit < 1 || starsPerUnit > maxStarsPerUnit(size)) {
+    return failure(`A ${size}×${size} board supports ${supportedStarCounts(size)} per unit, got ${starsText ?? 'none'}.`);
+  }
+
+  // Both wall groups have size × (size - 1) bits on a square board. Like
+  // pzprjs, a short string leaves the remaining walls open.
+  const wallCount = size * (size - 1);
+  const digits = Math.ceil(wallCount / 5);
+  const vertical = decodeBits(borders.slice(0, digits).padEnd(digits, '0'), wallCount);
+  const horizontal = decodeBits(borders.slice(digits, 2 * digits).padEnd(digits, '0'), wallCount);
+  if (!vertical || !horizontal) return failure('The region borders contain characters outside base 32.');
+
+  const wallRight = (r: number, c: number) => vertical[r * (size - 1) + c];
+  const wallBelow = (r: number, c: number) => horizontal[r * size + c];
+  const regions: number[][] = Array.from({ length: size }, () => new Array<number>(size).fill(-1));
+  let nextId = 0;
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (regions[r][c] !== -1) continue;
+      const id = nextId;
+      nextId += 1;
+      regions[r][c] = id;
+      const queue = [[r, c]];
+      for (let i = 0; i < queue.length; i += 1) {
+        const [qr, qc] = queue[i];
+        const open: Array<[number, number, boolean]> = [
+          [qr, qc + 1, qc < size - 1 && !wallRight(qr, qc)],
+          [qr, qc - 1, qc > 0 && !wallRight(qr, qc - 1)],
+          [qr + 1, qc, qr < size - 1 && !wallBelow(qr, qc)],
+          [qr - 1, qc, qr > 0 && !wallBelow(qr - 1, qc)],
+        ];
+        for (const [nr, nc, passable] of open) {
+          if (!passable || regions[nr][nc] !== -1) continue;
+          regions[nr][nc] = id;
+          queue.push([nr, nc]);
+        }
+      }
+    }
+  }
+  if (nextId !== size) {
+    return failure(`The borders divide the board into ${nextId} regions; a ${size}×${size} Star Battle needs ${size}.`);
+  }
+
+  return { def: { size, starsPerUnit, regions }, error: null };
+}
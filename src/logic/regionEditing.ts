@@ -0,0 +1,36 @@
+import type { Coords } from '../types/puzzle';
+import { orthogonalNeighbors } from './helpers';
+
+/**
+ * Region layout edits used by the editor's paint tools. All functions take a
+ * regions grid and leave it unmodified.
+ */
+
+/** The orthogonally connected cells sharing `start`'s region id, starting with `start`. */
+export function connectedArea(regions: number[][], start: Coords): Coords[] {
+  const size = regions.length;
+  const id = regions[start.row][start.col];
+  const seen = new Set<string>([`${start.row},${start.col}`]);
+  const area: Coords[] = [start];
+  for (let i = 0; i < area.length; i += 1) {
+    for (const nb of orthogonalNeighbors(area[i], size)) {
+      const key = `${nb.row},${nb.col}`;
+      if (seen.has(key) || regions[nb.row][nb.col] !== id) continue;
+      seen.add(key);
+      area.push(nb);
+    }
+  }
+  return area;
+}
+
+/** Flood fill: give `regionId` to the connected area of `start`'s region. */
+export function floodFillRegion(regions: number[][], start: Coords, regionId: number): number[][] {
+  const next = regions.map((row) => [...row]);
+  for (const cell of connectedArea(regions, start)) next[cell.row][cell.col] = regionId;
+  return next;
+}
+
+/** Exchange two region ids everywhere on the board. */
+export function swapRegionIds(regions: number[][], a: number, b: number): number[][] {
+  return regions.map((row) => row.map((id) => (id === a ? b : id === b ? a : id)));
+}
@@ -0,0 +1,209 @@
+import type { CellState, Coords, PuzzleDef } from '../types/puzzle';
+import type { TechniqueId } from '../types/hints';
+import { createEmptyPuzzleState } from '../types/puzzle';
+import { countSolutionsAsync } from './search';
+import { orthogonalNeighbors } from './helpers';
+import { connectedArea } from './regionEditing';
+import type { SolvePathStep } from './solvePath';
+import { solveLogically } from './solverEngine';
+import { yieldToBrowser } from './yieldUtils';
+
+/**
+ * Region redesign suggestions for layouts with several solutions.
+ *
+ * Candidate edits reassign one border cell to the region of an orthogonal
+ * neighbour; with maxEdits 2, pairs of such edits on different cells are
+ * tried too. Every region must stay non-empty and connected. An edit set is
+ * kept when the edited layout has exactly one solution.
+ *
+ * Pruning: a solution of the original layout in which every edited cell is a
+ * cross keeps its star count in every region, so it is still a solution
+ * afterwards. Edit sets that leave two or more of the known solutions
+ * untouched are skipped without counting.
+ *
+ * Every edit set is tried until searchTimeoutMs runs out. The unique layouts
+ * found are solved with the technique pipeline and ranked by how few
+ * techniques change their number of steps compared with the original
+ * layout's solve path, then by number of edits; the best maxSuggestions are
+ * returned. A search cut short by its time limit ranks only what it found,
+ * which favours single edits and cells near the top.
+ */
+
+export interface RegionEdit {
+  cell: Coords;
+  from: number;
+  to: number;
+}
+
+export interface RedesignSuggestion {
+  edits: RegionEdit[];
+  /** The layout after the edits. */
+  def: PuzzleDef;
+  /** Techniques whose number of steps differs from the original solve path. */
+  changedTechniques: TechniqueId[];
+  /** Logical solve path of the edited layout from the empty board. */
+  path: SolvePathStep[];
+  /** False when the techniques ran out before the edited puzzle was complete. */
+  solved: boolean;
+}
+
+export interface RedesignOptions {
+  /** Cells reassigned per suggestion, 1 or 2 (default: 2). */
+  maxEdits?: 1 | 2;
+  /** Number of suggestions to return, best first (default: 5). */
+  maxSuggestions?: number;
+  /** Time for trying edit sets before ranking what was found (default: 10000ms). */
+  searchTimeoutMs?: number;
+  /** Solutions of the original layout to collect for pruning (default: 200). */
+  maxKnownSolutions?: number;
+  /** Timeout for each countSolutionsAsync() call (default: 2000ms). */
+  countTimeoutMs?: number;
+  /** Techniques for the solve paths used in ranking (default: all). */
+  enabledTechniques?: readonly TechniqueId[];
+  signal?: AbortSignal;
+}
+
+// Time between yields to the browser between edit sets (ms).
+const YIELD_EVERY_MS = 16;
+
+// Every (cell, neighbouring region) pair, in row-major order.
+function borderEdits(def: PuzzleDef): RegionEdit[] {
+  const edits: RegionEdit[] = [];
+  for (let r = 0; r < def.size; r += 1) {
+    for (let c = 0; c < def.size; c += 1) {
+      const from = def.regions[r][c];
+      const targets = new Set<number>();
+      for (const nb of orthogonalNeighbors({ row: r, col: c }, def.size)) {
+        const to = def.regions[nb.row][nb.col];
+        if (to !== from) targets.add(to);
+      }
+      for (const to of targets) edits.push({ cell: { row: r, col: c }, from, to });
+    }
+  }
+  return edits;
+}
+
+function isRegionConnected(regions: number[][], regionId: number): boolean {
+  const cells: Coords[] = [];
+  regions.forEach((row, r) => {
+    row.forEach((id, c) => {
+      if (id === regionId) cells.push({ row: r, col: c });
+    });
+  });
+  return cells.length > 0 && connectedArea(regions, cells[0]).length === cells.length;
+}
+
+/** Apply `edits` to a copy of `def`, or return null if a region would break apart or vanish. */
+export function applyRegionEdits(def: PuzzleDef, edits: RegionEdit[]): PuzzleDef | null {
+  const regions = def.regions.map((row) => [...row]);
+  for (const { cell, to } of edits) regions[cell.row][cell.col] = to;
+  const touched = new Set(edits.flatMap(({ from, to }) => [from, to]));
+  for (const id of touched) {
+    if (!isRegionConnected(regions, id)) return null;
+  }
+  return { ...def, regions };
+}
+
+function* editSets(singles: RegionEdit[], maxEdits: number): Generator<RegionEdit[]> {
+  for (const edit of singles) yield [edit];
+  if (maxEdits < 2) return;
+  for (let i = 0; i < singles.length; i += 1) {
+    for (let j = i + 1; j < singles.length; j += 1) {
+      const a = singles[i].cell;
+      const b = singles[j].cell;
+      if (a.row === b.row && a.col === b.col) continue;
+      yield [singles[i], singles[j]];
+    }
+  }
+}
+
+function editKey(edit: RegionEdit): string {
+  return `${edit.cell.row},${edit.cell.col}>${edit.to}`;
+}
+
+function techniqueCounts(steps: SolvePathStep[]): Map<TechniqueId, number> {
+  const counts = new Map<TechniqueId, number>();
+  for (const { technique } of steps) counts.set(technique, (counts.get(technique) ?? 0) + 1);
+  return counts;
+}
+
+/**
+ * Suggest one- or two-cell region edits that give `def` exactly one
+ * solution, best first. Returns an empty list when the layout is already
+ * unique, has no solution, no edit helps, or the search is aborted.
+ */
+export async function suggestRegionRedesigns(
+  def: PuzzleDef,
+  options: RedesignOptions = {},
+): Promise<RedesignSuggestion[]> {
+  const {
+    maxEdits = 2,
+    maxSuggestions = 5,
+    searchTimeoutMs = 10000,
+    maxKnownSolutions = 200,
+    countTimeoutMs = 2000,
+    enabledTechniques,
+    signal,
+  } = options;
+
+  const known: CellState[][][] = [];
+  const search = await countSolutionsAsync(createEmptyPuzzleState(def), {
+    maxCount: maxKnownSolutions,
+    timeoutMs: countTimeoutMs,
+    signal,
+    onSolution: (cells) => known.push(cells),
+  });
+  if (search.aborted || known.length < 2) return [];
+
+  const found: Array<{ edits: RegionEdit[]; def: PuzzleDef }> = [];
+  const uniqueSingles = new Set<string>();
+  const deadline = Date.now() + searchTimeoutMs;
+  let lastYield = Date.now();
+
+  for (const edits of editSets(borderEdits(def), maxEdits)) {
+    if (Date.now() >= deadline) break;
+    // A pair containing an edit that works alone adds nothing
+    if (edits.length > 1 && edits.some((edit) => uniqueSingles.has(editKey(edit)))) continue;
+    const untouched = known.filter((cells) => edits.every(({ cell }) => cells[cell.row][cell.col] !== 'star'));
+    if (untouched.length > 1) continue;
+
+    const edited = applyRegionEdits(def, edits);
+    if (!edited) continue;
+    const result = await countSolutionsAsync(createEmptyPuzzleState(edited), {
+      maxCount: 2,
+      timeoutMs: countTimeoutMs,
+      signal,
+    });
+    if (result.aborted) return [];
+    if (result.count === 1 && !result.timedOut) {
+      found.push({ edits, def: edited });
+      if (edits.length === 1) uniqueSingles.add(editKey(edits[0]));
+    }
+
+    if (Date.now() - lastYield >= YIELD_EVERY_MS) {
+      await yieldToBrowser();
+      lastYield = Date.now();
+      if (signal?.aborted) return [];
+    }
+  }
+
+  const original = await solveLogically(createEmptyPuzzleState(def), { enabledTechniques, signal });
+  if (original.aborted) return [];
+  const originalCounts = techniqueCounts(original.steps);
+
+  const suggestions: RedesignSuggestion[] = [];
+  for (const candidate of found) {
+    const trace = await solveLogically(createEmptyPuzzleState(candidate.def), { enabledTechniques, signal });
+    if (trace.aborted) return [];
+    const counts = techniqueCounts(trace.steps);
+    const changedTechniques = [...new Set([...originalCounts.keys(), ...counts.keys()])].filter(
+      (id) => originalCounts.get(id) !== counts.get(id),
+    );
+    suggestions.push({ ...candidate, changedTechniques, path: trace.steps, solved: trace.solved });
+  }
+
+  // Stable sort keeps the search order (singles first, row-major) among ties
+  return suggestions
+    .sort((a, b) => a.changedTechniques.length - b.changedTechniques.length || a.edits.length - b.edits.length)
+    .slice(0, maxSuggestions);
+}
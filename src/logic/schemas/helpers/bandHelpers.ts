@@ -2,7 +2,7 @@
  * Band (row/column band) helper functions
  */
 
-import { getSolveSignal } from '../../../store/puzzleStore';
+import { getSolveSignal } from '../../solveContext';
 import type { BoardState, RowBand, ColumnBand, Region, CellId } from '../model/types';
 import { CellState, coordToCellId } from '../model/types';
 import { regionFullyInsideRows, regionFullyInsideCols } from './groupHelpers';
@@ -10,7 +10,8 @@ import { getAllSchemas } from './registry';
 import type { SchemaApplication, SchemaContext } from './types';
 import { renderExplanation } from './explanations/templates';
 import { clearPackingCache } from './helpers/blockPacking';
-import { store } from '../../store/puzzleStore';
+import { getSolveSignal, reportSolveProgress } from '../solveContext';
+import { yieldToBrowser } from '../yieldUtils';
 
 /**
  * Convert schema application to hint format
@@ -147,7 +148,7 @@ export async function findBestSchemaApplication(
   const schemaApplicationCounts: Record<string, number> = {};
   let totalSchemasChecked = 0;
   const HARD_BUDGET_MS = 30;
-  const signal = store.solveAbortController?.signal ?? null;
+  const signal = getSolveSignal();
 
   // Clear packing cache at start of each schema application
   // (state has changed, so previous cache entries are invalid)
@@ -166,30 +167,23 @@ export async function findBestSchemaApplication(
   const allSchemas = getAllSchemas();
   console.log('[DEBUG] All schemas created', allSchemas.length)
 
-  // Store original technique name to restore later
-  const originalTechnique = store.currentTechnique;
-
   for (const schema of allSchemas) {
     if (signal?.aborted) {
-      store.currentTechnique = originalTechnique;
+      reportSolveProgress(null);
       return null;
     }
     totalSchemasChecked++;
     const schemaStartTime = performance.now();
     
     // Update UI to show current schema being tested
-    store.currentTechnique = `Schema: ${schema.id}`;
+    reportSolveProgress(`Schema: ${schema.id}`);
     
     // Yield to allow UI to update (but only occasionally to avoid too much overhead)
     if (totalSchemasChecked % 3 === 0) {
-      await new Promise(resolve => {
-        requestAnimationFrame(() => {
-          requestAnimationFrame(resolve);
-        });
-      });
+      await yieldToBrowser();
     }
     if (signal?.aborted) {
-      store.currentTechnique = originalTechnique;
+      reportSolveProgress(null);
       return null;
     }
     
@@ -218,8 +212,7 @@ export async function findBestSchemaApplication(
         const app = applications[0];
         const { baseExplanation, baseHighlights } = buildSchemaNarrative(app, state);
         console.log('[DEBUG] Best schema application found', schema.id, 'schema time', performance.now() - startTime)
-        // Restore original technique name
-        store.currentTechnique = originalTechnique;
+        reportSolveProgress(null);
         return { app, baseExplanation, baseHighlights };
       }
       console.log('[DEBUG] Schema application not found', schema.id, 'schema time', performance.now() - startTime)
@@ -235,14 +228,13 @@ export async function findBestSchemaApplication(
     }
   }
 
-  // Restore original technique name
-  store.currentTechnique = originalTechnique;
+  reportSolveProgress(null);
   return null;
 }
 
 /**
  * Get all schema applications (for deduction collection)
- * Updates store.currentTechnique with schema IDs during testing
+ * Reports each schema ID as solve progress while testing
  */
 export async function getAllSchemaApplications(state: PuzzleState): Promise<SchemaApplication[]> {
   clearPackingCache();
@@ -250,10 +242,7 @@ export async function getAllSchemaApplications(state: PuzzleState): Promise<Sche
   const ctx: SchemaContext = { state: boardState };
   const allSchemas = getAllSchemas();
   const allApplications: SchemaApplication[] = [];
-  const signal = store.solveAbortController?.signal ?? null;
-
-  // Store original technique name to restore later
-  const originalTechnique = store.currentTechnique;
+  const signal = getSolveSignal();
 
   for (const schema of allSchemas) {
     if (signal?.aborted) {
@@ -261,14 +250,10 @@ export async function getAllSchemaApplications(state: PuzzleState): Promise<Sche
     }
     try {
       // Update UI to show current schema being tested
-      store.currentTechnique = `Schema: ${schema.id}`;
+      reportSolveProgress(`Schema: ${schema.id}`);
       
       // Yield to allow UI to update
-      await new Promise(resolve => {
-        requestAnimationFrame(() => {
-          requestAnimationFrame(resolve);
-        });
-      });
+      await yieldToBrowser();
       if (signal?.aborted) {
         break;
       }
@@ -283,8 +268,8 @@ export async function getAllSchemaApplications(state: PuzzleState): Promise<Sche
     }
   }
 
-  // Restore original technique name (or null if it was null)
-  store.currentTechnique = originalTechnique;
+  // Progress goes back to the technique itself
+  reportSolveProgress(null);
 
   // Filter out applications with no valid deductions
   return allApplications.map(app => {
@@ -1,33 +1,61 @@
-import type { PuzzleDef, PuzzleState, CellState, Coords } from '../types/puzzle';
+import type { PuzzleDef, PuzzleState, CellState } from '../types/puzzle';
 import { createEmptyPuzzleState } from '../types/puzzle';
 import { yieldToBrowser } from './yieldUtils';
+import { createExactSearch } from './exactSolver';
 
 /**
- * Specialized row-by-row solver for 10×10, 2★ Star Battle puzzles.
- * This is used only in tests; it assumes size === 10 and starsPerUnit === 2.
+ * All ways to choose `count` mutually non-adjacent columns out of `size`,
+ * in ascending column order.
  */
-export function solvePuzzle(def: PuzzleDef): PuzzleState | null {
-  if (def.size !== 10 || def.starsPerUnit !== 2) {
-    return null;
+export function nonAdjacentColumnSets(size: number, count: number): number[][] {
+  const result: number[][] = [];
+  const current: number[] = [];
+
+  function build(startCol: number): void {
+    if (current.length === count) {
+      result.push([...current]);
+      return;
+    }
+    const remaining = count - current.length;
+    // Each remaining star needs its own column plus a gap before the next one.
+    for (let c = startCol; c + 2 * (remaining - 1) < size; c += 1) {
+      current.push(c);
+      build(c + 2);
+      current.pop();
+    }
   }
 
+  build(0);
+  return result;
+}
+
+/**
+ * Row-by-row solver for Star Battle puzzles of any size and star count.
+ * This is used only in tests; it returns the first solution it finds.
+ */
+export function solvePuzzle(def: PuzzleDef): PuzzleState | null {
   const size = def.size;
   const starsPerUnit = def.starsPerUnit;
+  if (starsPerUnit < 1 || size < 1) {
+    return null;
+  }
   const regionIds = Array.from(new Set(def.regions.flat()));
+  const rowOptions = nonAdjacentColumnSets(size, starsPerUnit);
 
   // Column and region star counts accumulated as we go.
   const colCounts = new Array(size).fill(0);
   const regionCounts = new Map<number, number>();
 
   // Store chosen star columns for each row to materialize the solution later.
-  const rowStars: [number, number][] = new Array(size);
+  const rowStars: number[][] = new Array(size);
 
   function rowHasCapacityAfter(r: number): boolean {
-    // For columns, ensure that with remaining rows we can still reach 2 stars.
+    // For columns, ensure that with remaining rows we can still reach starsPerUnit stars.
     for (let c = 0; c < size; c += 1) {
       const remainingRows = size - (r + 1);
       if (colCounts[c] > starsPerUnit) return false;
-      if (colCounts[c] + remainingRows < starsPerUnit) return false;
+      // Stars in one column cannot be vertically adjacent, so at most every other remaining row helps.
+      if (colCounts[c] + Math.ceil(remainingRows / 2) < starsPerUnit) return false;
     }
     return true;
   }
@@ -44,58 +72,54 @@ export function solvePuzzle(def: PuzzleDef): PuzzleState | null {
       return true;
     }
 
-    // Try all column pairs (c1,c2) with |c1-c2| >= 2 for this row.
-    for (let c1 = 0; c1 < size; c1 += 1) {
-      for (let c2 = c1 + 2; c2 < size; c2 += 1) {
-        const cols = [c1, c2];
-
-        // Check adjacency with previous row's stars.
-        let ok = true;
-        for (const pc of prevCols) {
-          for (const cc of cols) {
-            if (Math.abs(pc - cc) <= 1) {
-              ok = false;
-              break;
-            }
-          }
-          if (!ok) break;
-        }
-        if (!ok) continue;
-
-        // Column and region quota checks for this row.
+    // Try every set of non-adjacent columns for this row.
+    for (const cols of rowOptions) {
+      // Check adjacency with previous row's stars.
+      let ok = true;
+      for (const pc of prevCols) {
         for (const cc of cols) {
-          if (colCounts[cc] >= starsPerUnit) {
-            ok = false;
-            break;
-          }
-          const regionId = def.regions[row][cc];
-          const currentRegionCount = regionCounts.get(regionId) ?? 0;
-          if (currentRegionCount >= starsPerUnit) {
+          if (Math.abs(pc - cc) <= 1) {
             ok = false;
             break;
           }
         }
-        if (!ok) continue;
+        if (!ok) break;
+      }
+      if (!ok) continue;
 
-        // Apply this row's stars.
-        for (const cc of cols) {
-          colCounts[cc] += 1;
-          const regionId = def.regions[row][cc];
-          regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) + 1);
+      // Column and region quota checks for this row.
+      for (const cc of cols) {
+        if (colCounts[cc] >= starsPerUnit) {
+          ok = false;
+          break;
         }
-        rowStars[row] = [c1, c2];
-
-        // Feasibility check with remaining rows.
-        if (rowHasCapacityAfter(row) && solveRow(row + 1, cols)) {
-          return true;
+        const regionId = def.regions[row][cc];
+        const currentRegionCount = regionCounts.get(regionId) ?? 0;
+        if (currentRegionCount >= starsPerUnit) {
+          ok = false;
+          break;
         }
+      }
+      if (!ok) continue;
 
-        // Undo.
-        for (const cc of cols) {
-          colCounts[cc] -= 1;
-          const regionId = def.regions[row][cc];
-          regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) - 1);
-        }
+      // Apply this row's stars.
+      for (const cc of cols) {
+        colCounts[cc] += 1;
+        const regionId = def.regions[row][cc];
+        regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) + 1);
+      }
+      rowStars[row] = cols;
+
+      // Feasibility check with remaining rows.
+      if (rowHasCapacityAfter(row) && solveRow(row + 1, cols)) {
+        return true;
+      }
+
+      // Undo.
+      for (const cc of cols) {
+        colCounts[cc] -= 1;
+        const regionId = def.regions[row][cc];
+        regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) - 1);
       }
     }
 
@@ -107,14 +131,17 @@ export function solvePuzzle(def: PuzzleDef): PuzzleState | null {
 
   const state = createEmptyPuzzleState(def);
   for (let r = 0; r < size; r += 1) {
-    const [c1, c2] = rowStars[r];
-    state.cells[r][c1] = 'star';
-    state.cells[r][c2] = 'star';
+    for (const c of rowStars[r]) {
+      state.cells[r][c] = 'star';
+    }
   }
 
   return state;
 }
 
+// Search nodes between timeout/cancellation checks (well under a millisecond).
+const SEARCH_SLICE_NODES = 64;
+
 /**
  * Options for solution counting
  */
@@ -123,8 +150,10 @@ export interface CountSolutionsOptions {
   maxCount?: number;
   /** Timeout in milliseconds (default: 5000ms) */
   timeoutMs?: number;
-  /** Maximum search depth (default: Infinity) */
+  /** Maximum search depth in branching decisions (default: Infinity) */
   maxDepth?: number;
+  /** Called with a copy of each solution found (non-star cells are crosses) */
+  onSolution?: (cells: CellState[][]) => void;
 }
 
 /**
@@ -141,7 +170,8 @@ export interface CountSolutionsResult {
 
 /**
  * Count the number of solutions for a given puzzle state.
- * This uses backtracking to explore all possible completions of the puzzle.
+ * This runs the propagating exact search in exactSolver.ts, so typical 10×10
+ * states finish in milliseconds rather than hitting the timeout.
  * 
  * @param state - The current puzzle state (may be partially filled)
  * @param options - Options for controlling the search
@@ -155,264 +185,21 @@ export function countSolutions(
     maxCount = Infinity,
     timeoutMs = 2000,
     maxDepth = Infinity,
+    onSolution,
   } = options;
 
-  const def = state.def;
-  const size = def.size;
-  const starsPerUnit = def.starsPerUnit;
-  const regionIds = Array.from(new Set(def.regions.flat()));
-
-  // Start timing
   const startTime = Date.now();
   let timedOut = false;
   let solutionCount = 0;
 
-  // Track current state of stars
-  const cells: CellState[][] = state.cells.map(row => [...row]);
-  const rowCounts = new Array(size).fill(0);
-  const colCounts = new Array(size).fill(0);
-  const regionCounts = new Map<number, number>();
-
-  // Initialize counts from existing state
-  for (let r = 0; r < size; r++) {
-    for (let c = 0; c < size; c++) {
-      if (cells[r][c] === 'star') {
-        rowCounts[r]++;
-        colCounts[c]++;
-        const regionId = def.regions[r][c];
-        regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) + 1);
-      }
-    }
-  }
-
-  // Bail out early if the provided state already violates quotas or adjacency.
-  for (let r = 0; r < size; r++) {
-    if (rowCounts[r] > starsPerUnit) {
-      return { count: 0, timedOut: false, cappedAtMax: false };
-    }
-  }
-  for (let c = 0; c < size; c++) {
-    if (colCounts[c] > starsPerUnit) {
-      return { count: 0, timedOut: false, cappedAtMax: false };
-    }
-  }
-  for (const id of regionIds) {
-    if ((regionCounts.get(id) ?? 0) > starsPerUnit) {
-      return { count: 0, timedOut: false, cappedAtMax: false };
-    }
-  }
-
-  for (let r = 0; r < size; r++) {
-    for (let c = 0; c < size; c++) {
-      if (cells[r][c] !== 'star') continue;
-      for (let dr = -1; dr <= 1; dr++) {
-        for (let dc = -1; dc <= 1; dc++) {
-          if (dr === 0 && dc === 0) continue;
-          const nr = r + dr;
-          const nc = c + dc;
-          if (nr >= 0 && nr < size && nc >= 0 && nc < size) {
-            if (cells[nr][nc] === 'star') {
-              return { count: 0, timedOut: false, cappedAtMax: false };
-            }
-          }
-        }
-      }
-    }
-  }
-
-  // Find all empty cells
-  const emptyCells: Coords[] = [];
-  for (let r = 0; r < size; r++) {
-    for (let c = 0; c < size; c++) {
-      if (cells[r][c] === 'empty') {
-        emptyCells.push({ row: r, col: c });
-      }
-    }
-  }
-
-  /**
-   * Check if placing a star at (row, col) is valid
-   */
-  function canPlaceStar(row: number, col: number): boolean {
-    // Check row/col/region quotas
-    if (rowCounts[row] >= starsPerUnit) return false;
-    if (colCounts[col] >= starsPerUnit) return false;
-    const regionId = def.regions[row][col];
-    if ((regionCounts.get(regionId) ?? 0) >= starsPerUnit) return false;
-
-    // Check adjacency (no stars in 8 surrounding cells)
-    for (let dr = -1; dr <= 1; dr++) {
-      for (let dc = -1; dc <= 1; dc++) {
-        if (dr === 0 && dc === 0) continue;
-        const nr = row + dr;
-        const nc = col + dc;
-        if (nr >= 0 && nr < size && nc >= 0 && nc < size) {
-          if (cells[nr][nc] === 'star') return false;
-        }
-      }
-    }
-
-    // Check 2×2 blocks
-    for (let dr = -1; dr <= 0; dr++) {
-      for (let dc = -1; dc <= 0; dc++) {
-        const r0 = row + dr;
-        const c0 = col + dc;
-        if (r0 >= 0 && r0 < size - 1 && c0 >= 0 && c0 < size - 1) {
-          // Check if this 2×2 block already has a star
-          let hasStarInBlock = false;
-          for (let br = 0; br < 2; br++) {
-            for (let bc = 0; bc < 2; bc++) {
-              const checkRow = r0 + br;
-              const checkCol = c0 + bc;
-              if (checkRow === row && checkCol === col) continue;
-              if (cells[checkRow][checkCol] === 'star') {
-                hasStarInBlock = true;
-                break;
-              }
-            }
-            if (hasStarInBlock) break;
-          }
-          if (hasStarInBlock) return false;
-        }
-      }
-    }
-
-    return true;
-  }
-
-  /**
-   * Check if the current state can still reach a valid solution
-   */
-  function canReachSolution(): boolean {
-    // Count remaining empty cells per unit
-    const rowEmptyCounts = new Array(size).fill(0);
-    const colEmptyCounts = new Array(size).fill(0);
-    const regionEmptyCounts = new Map<number, number>();
-
-    for (let r = 0; r < size; r++) {
-      for (let c = 0; c < size; c++) {
-        if (cells[r][c] === 'empty') {
-          rowEmptyCounts[r]++;
-          colEmptyCounts[c]++;
-          const regionId = def.regions[r][c];
-          regionEmptyCounts.set(regionId, (regionEmptyCounts.get(regionId) ?? 0) + 1);
-        }
-      }
-    }
-
-    // Check if any unit can't reach required stars
-    for (let r = 0; r < size; r++) {
-      const needed = starsPerUnit - rowCounts[r];
-      if (needed > rowEmptyCounts[r]) return false;
-    }
-    for (let c = 0; c < size; c++) {
-      const needed = starsPerUnit - colCounts[c];
-      if (needed > colEmptyCounts[c]) return false;
-    }
-    for (const id of regionIds) {
-      const needed = starsPerUnit - (regionCounts.get(id) ?? 0);
-      const available = regionEmptyCounts.get(id) ?? 0;
-      if (needed > available) return false;
-    }
-
-    return true;
-  }
-
-  /**
-   * Backtracking search
-   */
-  function search(depth: number): void {
-    // Check timeout
+  const search = createExactSearch(state, { maxCount, maxDepth, onSolution });
+  while (!search.run(SEARCH_SLICE_NODES)) {
     if (Date.now() - startTime > timeoutMs) {
       timedOut = true;
-      return;
-    }
-
-    // Check depth limit
-    if (depth > maxDepth) {
-      return;
-    }
-
-    // Check if we've found enough solutions
-    if (solutionCount >= maxCount) {
-      return;
-    }
-
-    // Early pruning: check if solution is still reachable
-    if (!canReachSolution()) {
-      return;
-    }
-
-    // Find next empty cell
-    let nextCell: Coords | null = null;
-    for (const cell of emptyCells) {
-      if (cells[cell.row][cell.col] === 'empty') {
-        nextCell = cell;
-        break;
-      }
-    }
-
-    // If no empty cells, check if this is a valid solution
-    if (nextCell === null) {
-      // Verify all units have exactly starsPerUnit stars
-      let isValid = true;
-      for (let r = 0; r < size; r++) {
-        if (rowCounts[r] !== starsPerUnit) {
-          isValid = false;
-          break;
-        }
-      }
-      if (isValid) {
-        for (let c = 0; c < size; c++) {
-          if (colCounts[c] !== starsPerUnit) {
-            isValid = false;
-            break;
-          }
-        }
-      }
-      if (isValid) {
-        for (const id of regionIds) {
-          if ((regionCounts.get(id) ?? 0) !== starsPerUnit) {
-            isValid = false;
-            break;
-          }
-        }
-      }
-
-      if (isValid) {
-        solutionCount++;
-      }
-      return;
-    }
-
-    const { row, col } = nextCell;
-
-    // Try placing a star
-    if (canPlaceStar(row, col)) {
-      cells[row][col] = 'star';
-      rowCounts[row]++;
-      colCounts[col]++;
-      const regionId = def.regions[row][col];
-      regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) + 1);
-
-      search(depth + 1);
-
-      // Backtrack
-      cells[row][col] = 'empty';
-      rowCounts[row]--;
-      colCounts[col]--;
-      regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) - 1);
-    }
-
-    // Try placing a cross (or leaving empty)
-    if (!timedOut && solutionCount < maxCount) {
-      cells[row][col] = 'cross';
-      search(depth + 1);
-      cells[row][col] = 'empty';
+      break;
     }
   }
-
-  search(0);
+  solutionCount = search.count;
 
   return {
     count: solutionCount,
@@ -446,257 +233,37 @@ export async function countSolutionsAsync(
     maxCount = Infinity,
     timeoutMs = 2000,
     maxDepth = Infinity,
+    onSolution,
     signal,
     yieldEveryMs = 16,
   } = options;
 
-  const def = state.def;
-  const size = def.size;
-  const starsPerUnit = def.starsPerUnit;
-  const regionIds = Array.from(new Set(def.regions.flat()));
-
   const startTime = Date.now();
   let lastYieldTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
   let timedOut = false;
   let aborted = false;
   let solutionCount = 0;
 
-  const cells: CellState[][] = state.cells.map(row => [...row]);
-  const rowCounts = new Array(size).fill(0);
-  const colCounts = new Array(size).fill(0);
-  const regionCounts = new Map<number, number>();
-
-  // Initialize counts from existing state
-  for (let r = 0; r < size; r++) {
-    for (let c = 0; c < size; c++) {
-      if (cells[r][c] === 'star') {
-        rowCounts[r]++;
-        colCounts[c]++;
-        const regionId = def.regions[r][c];
-        regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) + 1);
-      }
-    }
-  }
-
-  // Early bail if already invalid.
-  for (let r = 0; r < size; r++) {
-    if (rowCounts[r] > starsPerUnit) {
-      return { count: 0, timedOut: false, cappedAtMax: false, aborted: false };
-    }
-  }
-  for (let c = 0; c < size; c++) {
-    if (colCounts[c] > starsPerUnit) {
-      return { count: 0, timedOut: false, cappedAtMax: false, aborted: false };
-    }
-  }
-  for (const id of regionIds) {
-    if ((regionCounts.get(id) ?? 0) > starsPerUnit) {
-      return { count: 0, timedOut: false, cappedAtMax: false, aborted: false };
-    }
-  }
-  for (let r = 0; r < size; r++) {
-    for (let c = 0; c < size; c++) {
-      if (cells[r][c] !== 'star') continue;
-      for (let dr = -1; dr <= 1; dr++) {
-        for (let dc = -1; dc <= 1; dc++) {
-          if (dr === 0 && dc === 0) continue;
-          const nr = r + dr;
-          const nc = c + dc;
-          if (nr >= 0 && nr < size && nc >= 0 && nc < size) {
-            if (cells[nr][nc] === 'star') {
-              return { count: 0, timedOut: false, cappedAtMax: false, aborted: false };
-            }
-          }
-        }
-      }
-    }
-  }
-
-  const emptyCells: Coords[] = [];
-  for (let r = 0; r < size; r++) {
-    for (let c = 0; c < size; c++) {
-      if (cells[r][c] === 'empty') {
-        emptyCells.push({ row: r, col: c });
-      }
-    }
-  }
-
-  function canPlaceStar(row: number, col: number): boolean {
-    if (rowCounts[row] >= starsPerUnit) return false;
-    if (colCounts[col] >= starsPerUnit) return false;
-    const regionId = def.regions[row][col];
-    if ((regionCounts.get(regionId) ?? 0) >= starsPerUnit) return false;
-
-    for (let dr = -1; dr <= 1; dr++) {
-      for (let dc = -1; dc <= 1; dc++) {
-        if (dr === 0 && dc === 0) continue;
-        const nr = row + dr;
-        const nc = col + dc;
-        if (nr >= 0 && nr < size && nc >= 0 && nc < size) {
-          if (cells[nr][nc] === 'star') return false;
-        }
-      }
-    }
-
-    for (let dr = -1; dr <= 0; dr++) {
-      for (let dc = -1; dc <= 0; dc++) {
-        const r0 = row + dr;
-        const c0 = col + dc;
-        if (r0 >= 0 && r0 < size - 1 && c0 >= 0 && c0 < size - 1) {
-          let hasStarInBlock = false;
-          for (let br = 0; br < 2; br++) {
-            for (let bc = 0; bc < 2; bc++) {
-              const checkRow = r0 + br;
-              const checkCol = c0 + bc;
-              if (checkRow === row && checkCol === col) continue;
-              if (cells[checkRow][checkCol] === 'star') {
-                hasStarInBlock = true;
-                break;
-              }
-            }
-            if (hasStarInBlock) break;
-          }
-          if (hasStarInBlock) return false;
-        }
-      }
-    }
-
-    return true;
-  }
-
-  function canReachSolution(): boolean {
-    const rowEmptyCounts = new Array(size).fill(0);
-    const colEmptyCounts = new Array(size).fill(0);
-    const regionEmptyCounts = new Map<number, number>();
-
-    for (let r = 0; r < size; r++) {
-      for (let c = 0; c < size; c++) {
-        if (cells[r][c] === 'empty') {
-          rowEmptyCounts[r]++;
-          colEmptyCounts[c]++;
-          const regionId = def.regions[r][c];
-          regionEmptyCounts.set(regionId, (regionEmptyCounts.get(regionId) ?? 0) + 1);
-        }
-      }
-    }
-
-    for (let r = 0; r < size; r++) {
-      const needed = starsPerUnit - rowCounts[r];
-      if (needed > rowEmptyCounts[r]) return false;
-    }
-    for (let c = 0; c < size; c++) {
-      const needed = starsPerUnit - colCounts[c];
-      if (needed > colEmptyCounts[c]) return false;
-    }
-    for (const id of regionIds) {
-      const needed = starsPerUnit - (regionCounts.get(id) ?? 0);
-      const available = regionEmptyCounts.get(id) ?? 0;
-      if (needed > available) return false;
-    }
-
-    return true;
-  }
-
-  let nodesVisited = 0;
-
-  async function maybeYield(): Promise<void> {
+  const search = createExactSearch(state, { maxCount, maxDepth, onSolution });
+  for (;;) {
     if (signal?.aborted) {
       aborted = true;
       timedOut = true; // treat as "stop now"
-      return;
+      break;
+    }
+    if (Date.now() - startTime > timeoutMs) {
+      timedOut = true;
+      break;
     }
-    if (yieldEveryMs <= 0) return;
+    if (search.run(SEARCH_SLICE_NODES)) break;
+    if (yieldEveryMs <= 0) continue;
     const now = typeof performance !== 'undefined' ? performance.now() : Date.now();
     if (now - lastYieldTime >= yieldEveryMs) {
       await yieldToBrowser();
       lastYieldTime = typeof performance !== 'undefined' ? performance.now() : Date.now();
     }
   }
-
-  async function search(depth: number): Promise<void> {
-    if (signal?.aborted) {
-      aborted = true;
-      timedOut = true;
-      return;
-    }
-    if (Date.now() - startTime > timeoutMs) {
-      timedOut = true;
-      return;
-    }
-    if (depth > maxDepth) return;
-    if (solutionCount >= maxCount) return;
-    if (!canReachSolution()) return;
-
-    nodesVisited++;
-    if ((nodesVisited & 0x3ff) === 0) {
-      await maybeYield();
-      if (timedOut) return;
-    }
-
-    let nextCell: Coords | null = null;
-    for (const cell of emptyCells) {
-      if (cells[cell.row][cell.col] === 'empty') {
-        nextCell = cell;
-        break;
-      }
-    }
-
-    if (nextCell === null) {
-      let isValid = true;
-      for (let r = 0; r < size; r++) {
-        if (rowCounts[r] !== starsPerUnit) {
-          isValid = false;
-          break;
-        }
-      }
-      if (isValid) {
-        for (let c = 0; c < size; c++) {
-          if (colCounts[c] !== starsPerUnit) {
-            isValid = false;
-            break;
-          }
-        }
-      }
-      if (isValid) {
-        for (const id of regionIds) {
-          if ((regionCounts.get(id) ?? 0) !== starsPerUnit) {
-            isValid = false;
-            break;
-          }
-        }
-      }
-      if (isValid) {
-        solutionCount++;
-      }
-      return;
-    }
-
-    const { row, col } = nextCell;
-
-    if (canPlaceStar(row, col)) {
-      cells[row][col] = 'star';
-      rowCounts[row]++;
-      colCounts[col]++;
-      const regionId = def.regions[row][col];
-      regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) + 1);
-
-      await search(depth + 1);
-
-      cells[row][col] = 'empty';
-      rowCounts[row]--;
-      colCounts[col]--;
-      regionCounts.set(regionId, (regionCounts.get(regionId) ?? 0) - 1);
-      if (timedOut || solutionCount >= maxCount) return;
-    }
-
-    if (!timedOut && solutionCount < maxCount) {
-      cells[row][col] = 'cross';
-      await search(depth + 1);
-      cells[row][col] = 'empty';
-    }
-  }
-
-  await search(0);
+  solutionCount = search.count;
 
   return {
     count: solutionCount,
@@ -705,4 +272,3 @@ export async function countSolutionsAsync(
     aborted,
   };
 }
-
@@ -0,0 +1,53 @@
+/**
+ * Ambient state for the hint search currently running.
+ *
+ * Techniques are called as findResult(state), so anything deep inside them
+ * (schema loops, band helpers) that needs to stop early or report what it is
+ * doing reads it from here rather than from the app store. The solver engine
+ * installs a context for the duration of each search. Searches in one JS
+ * realm run one at a time: a search started while another is running waits
+ * for it, so each keeps its own context across its awaits.
+ */
+
+export interface SolveContext {
+  signal: AbortSignal | null;
+  /** Receives sub-step labels (e.g. "Schema: …"); null means back to the technique itself. */
+  onProgress: ((label: string | null) => void) | null;
+  /** Step limit for the trial technique (default: DEFAULT_TRIAL_DEPTH in techniques/trial.ts). */
+  trialDepth?: number;
+}
+
+const idleContext: SolveContext = { signal: null, onProgress: null };
+let activeContext: SolveContext = idleContext;
+
+export function getSolveSignal(): AbortSignal | null {
+  return activeContext.signal;
+}
+
+export function getTrialDepth(): number | undefined {
+  return activeContext.trialDepth;
+}
+
+export function reportSolveProgress(label: string | null): void {
+  activeContext.onProgress?.(label);
+}
+
+// Settles when the last search started so far has finished
+let lastSearch: Promise<unknown> = Promise.resolve();
+
+/**
+ * Run `fn` with `context` installed once the searches started before it have
+ * finished. Calls must not nest: `fn` would wait for its own search.
+ */
+export function runWithSolveContext<T>(context: SolveContext, fn: () => Promise<T>): Promise<T> {
+  const search = lastSearch.then(async () => {
+    activeContext = context;
+    try {
+      return await fn();
+    } finally {
+      activeContext = idleContext;
+    }
+  });
+  lastSearch = search.catch(() => undefined);
+  return search;
+}
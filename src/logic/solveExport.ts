@@ -0,0 +1,268 @@
+import type { CellState, Coords, PuzzleDef, PuzzleState } from '../types/puzzle';
+import type { HintHighlight, TechniqueId, TechniqueTier } from '../types/hints';
+import { techniqueTiers } from '../types/hints';
+import { idToLetter } from './helpers';
+import { techniqueNameById } from './techniques';
+import { applyHintToCells, describeMarks, hintMarks, type HintMark, type SolvePathStep } from './solvePath';
+
+/**
+ * Solve path documents: every step of a logical solve with the board it
+ * started from, so a walkthrough can be replayed or published.
+ *
+ *   {
+ *     "format": "star-battle-solve-path",
+ *     "version": 1,
+ *     "title": "Monday",
+ *     "puzzle": { "size": 10, "starsPerUnit": 2, "regions": [[0, 0, 1, …], …] },
+ *     "solved": true,
+ *     "steps": [
+ *       {
+ *         "number": 1, "technique": "trivial-marks", "techniqueName": "…", "tier": 1,
+ *         "explanation": "…", "details": [],
+ *         "results": [{ "row": 0, "col": 3, "value": "cross" }],
+ *         "highlights": { "rows": [0] },
+ *         "before": [["empty", "star", …], …]
+ *       }
+ *     ],
+ *     "final": [["cross", "star", …], …]
+ *   }
+ *
+ * Rows and columns are 0-based in the JSON, as in the app, and so are the
+ * "Row 3" and "Column 3" of explanations; cells there are named from 1, as
+ * "R4C5". The Markdown and HTML walkthroughs count from 1 throughout, like
+ * the CLI: see walkthroughText().
+ */
+
+export const SOLVE_DOCUMENT_FORMAT = 'star-battle-solve-path';
+export const SOLVE_DOCUMENT_VERSION = 1;
+
+export interface SolveDocumentStep {
+  /** 1-based position in the path. */
+  number: number;
+  technique: TechniqueId;
+  techniqueName: string;
+  tier: TechniqueTier;
+  explanation: string;
+  details: string[];
+  results: HintMark[];
+  highlights: HintHighlight | null;
+  /** The board before this step's marks were written. */
+  before: CellState[][];
+}
+
+export interface SolveDocument {
+  format: typeof SOLVE_DOCUMENT_FORMAT;
+  version: number;
+  title: string;
+  puzzle: PuzzleDef;
+  /** True when the steps completed the puzzle. */
+  solved: boolean;
+  steps: SolveDocumentStep[];
+  /** The board after the last step. */
+  final: CellState[][];
+}
+
+export interface SolveDocumentOptions {
+  title?: string;
+  solved: boolean;
+}
+
+function copyCells(cells: CellState[][]): CellState[][] {
+  return cells.map((row) => [...row]);
+}
+
+/**
+ * Replay `steps` from `start` and record the board before each one. `start`
+ * is not modified.
+ */
+export function buildSolveDocument(start: PuzzleState, steps: SolvePathStep[], options: SolveDocumentOptions): SolveDocument {
+  const { size, starsPerUnit, regions } = start.def;
+  const state: PuzzleState = { def: start.def, cells: copyCells(start.cells) };
+  const documentSteps = steps.map(({ technique, hint }, index): SolveDocumentStep => {
+    const before = copyCells(state.cells);
+    applyHintToCells(state, hint);
+    return {
+      number: index + 1,
+      technique,
+      techniqueName: techniqueNameById[technique] ?? technique,
+      tier: techniqueTiers[technique],
+      explanation: hint.explanation,
+      details: [...(hint.details ?? [])],
+      results: hintMarks(hint),
+      highlights: hint.highlights ?? null,
+      before,
+    };
+  });
+  return {
+    format: SOLVE_DOCUMENT_FORMAT,
+    version: SOLVE_DOCUMENT_VERSION,
+    title: options.title?.trim() || `${size}×${size} Star Battle`,
+    puzzle: { size, starsPerUnit, regions: regions.map((row) => [...row]) },
+    solved: options.solved,
+    steps: documentSteps,
+    final: copyCells(state.cells),
+  };
+}
+
+export function solveDocumentToJson(document: SolveDocument): string {
+  return `${JSON.stringify(document, null, 2)}\n`;
+}
+
+function cellName({ row, col }: Coords): string {
+  return `R${row + 1}C${col + 1}`;
+}
+
+/**
+ * An explanation with the app's 0-based "Row 3" and "Column 3" (see
+ * formatRow and formatCol) counted from 1, as "Row 4" and "Column 4", to
+ * match the diagrams. Cells are already named from 1, as "R4C5".
+ */
+export function walkthroughText(text: string): string {
+  return text.replace(/\b(Row|Column) (\d+)\b/g, (_, unit: string, index: string) => `${unit} ${Number(index) + 1}`);
+}
+
+function summary(document: SolveDocument): string {
+  const count = document.steps.length;
+  const { size, starsPerUnit } = document.puzzle;
+  const outcome = document.solved ? `Solved in ${count} step${count !== 1 ? 's' : ''}` : `Stuck after ${count} step${count !== 1 ? 's' : ''}`;
+  return `${size}×${size}, ${starsPerUnit} star${starsPerUnit !== 1 ? 's' : ''} per row, column and region. ${outcome}.`;
+}
+
+const TEXT_MARKS: Record<CellState, string> = { empty: ' ', star: '*', cross: 'x' };
+
+/**
+ * A text diagram of the board: each cell is its region letter and mark,
+ * and `>` points at the cells `changed` marks.
+ */
+export function boardDiagram(def: PuzzleDef, cells: CellState[][], changed: Coords[] = []): string {
+  const changedKeys = new Set(changed.map(({ row, col }) => `${row},${col}`));
+  const width = String(def.size).length;
+  const header = `${' '.repeat(width)} ${def.regions[0].map((_, c) => `${String(c + 1).padStart(2)} `).join('')}`.trimEnd();
+  const rows = def.regions.map((regionRow, r) => {
+    const line = regionRow
+      .map((region, c) => `${changedKeys.has(`${r},${c}`) ? '>' : ' '}${idToLetter(region)}${TEXT_MARKS[cells[r][c]]}`)
+      .join('');
+    return `${String(r + 1).padStart(width)} ${line}`.trimEnd();
+  });
+  return [header, ...rows].join('\n');
+}
+
+export function solveDocumentToMarkdown(document: SolveDocument): string {
+  const { puzzle } = document;
+  const lines = [
+    `# ${document.title}`,
+    '',
+    summary(document),
+    '',
+    'Each cell shows its region letter and mark: `*` star, `x` cross. `>` marks the cells a step changes.',
+    '',
+    '```text',
+    boardDiagram(puzzle, document.steps[0]?.before ?? document.final),
+    '```',
+  ];
+  for (const step of document.steps) {
+    lines.push('', `## Step ${step.number}: ${step.techniqueName}`, '');
+    lines.push(`Tier ${step.tier}. Places ${describeMarks(step.results)}.`);
+    if (step.explanation) lines.push('', walkthroughText(step.explanation));
+    if (step.details.length > 0) lines.push('', ...step.details.map((detail) => `- ${walkthroughText(detail)}`));
+    const after = copyCells(step.before);
+    for (const { row, col, value } of step.results) after[row][col] = value;
+    lines.push('', '```text', boardDiagram(puzzle, after, step.results), '```');
+  }
+  lines.push('', `## ${document.solved ? 'Solution' : 'Where the steps stop'}`, '');
+  lines.push('```text', boardDiagram(puzzle, document.final), '```', '');
+  return lines.join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const HTML_MARKS: Record<CellState, string> = { empty: '', star: '★', cross: '×' };
+
+function highlightedKeys(highlights: HintHighlight | null, size: number): Set<string> {
+  const keys = new Set<string>();
+  if (!highlights) return keys;
+  for (const { row, col } of highlights.cells ?? []) keys.add(`${row},${col}`);
+  for (let i = 0; i < size; i += 1) {
+    for (const row of highlights.rows ?? []) keys.add(`${row},${i}`);
+    for (const col of highlights.cols ?? []) keys.add(`${i},${col}`);
+  }
+  return keys;
+}
+
+function boardTable(def: PuzzleDef, cells: CellState[][], results: HintMark[] = [], highlights: HintHighlight | null = null): string {
+  const resultKeys = new Set(results.map(({ row, col }) => `${row},${col}`));
+  const highlighted = highlightedKeys(highlights, def.size);
+  const highlightedRegions = new Set(highlights?.regions ?? []);
+  const { regions, size } = def;
+  const rows = regions.map((regionRow, r) => {
+    const tds = regionRow.map((region, c) => {
+      const key = `${r},${c}`;
+      const classes = [`mark-${cells[r][c]}`];
+      if (resultKeys.has(key)) classes.push('result');
+      else if (highlighted.has(key) || highlightedRegions.has(region)) classes.push('highlight');
+      // Thick borders where the region changes
+      const borders = [
+        r === 0 || regions[r - 1][c] !== region ? 'border-top:2px solid #222' : '',
+        c === size - 1 || regionRow[c + 1] !== region ? 'border-right:2px solid #222' : '',
+        r === size - 1 || regions[r + 1][c] !== region ? 'border-bottom:2px solid #222' : '',
+        c === 0 || regionRow[c - 1] !== region ? 'border-left:2px solid #222' : '',
+      ].filter(Boolean);
+      const style = [`background:hsl(${(region * 137) % 360} 60% 86%)`, ...borders].join(';');
+      return `<td class="${classes.join(' ')}" style="${style}" title="${cellName({ row: r, col: c })}">${HTML_MARKS[cells[r][c]]}</td>`;
+    });
+    return `<tr>${tds.join('')}</tr>`;
+  });
+  return `<table class="board">${rows.join('')}</table>`;
+}
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;max-width:48rem;margin:2rem auto;padding:0 1rem;color:#222;line-height:1.5}
+.board{border-collapse:collapse;margin:0.75rem 0}
+.board td{width:1.75rem;height:1.75rem;padding:0;text-align:center;border:1px solid #999;font-size:1.1rem}
+.board td.mark-cross{color:#666}
+.board td.highlight{box-shadow:inset 0 0 0 3px rgba(37,99,235,0.55)}
+.board td.result{box-shadow:inset 0 0 0 3px #dc2626;font-weight:700}
+.step{border-top:1px solid #ddd;padding-top:0.5rem}
+.tier{color:#666;font-size:0.9rem}`;
+
+/** A standalone page: no scripts or external resources. */
+export function solveDocumentToHtml(document: SolveDocument): string {
+  const { puzzle } = document;
+  const steps = document.steps.map((step) => {
+    const after = copyCells(step.before);
+    for (const { row, col, value } of step.results) after[row][col] = value;
+    const details = step.details.length > 0
+      ? `<ul>${step.details.map((detail) => `<li>${escapeHtml(walkthroughText(detail))}</li>`).join('')}</ul>`
+      : '';
+    return [
+      `<section class="step" id="step-${step.number}">`,
+      `<h2>Step ${step.number}: ${escapeHtml(step.techniqueName)}</h2>`,
+      `<p class="tier">Tier ${step.tier}. Places ${escapeHtml(describeMarks(step.results))}.</p>`,
+      step.explanation ? `<p>${escapeHtml(walkthroughText(step.explanation))}</p>` : '',
+      details,
+      boardTable(puzzle, after, step.results, step.highlights),
+      '</section>',
+    ].filter(Boolean).join('\n');
+  });
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(document.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    `<h1>${escapeHtml(document.title)}</h1>`,
+    `<p>${escapeHtml(summary(document))}</p>`,
+    '<p>Red outlines mark the cells a step changes; blue outlines mark the rows, columns, regions and cells its reasoning uses.</p>',
+    boardTable(puzzle, document.steps[0]?.before ?? document.final),
+    ...steps,
+    `<h2>${document.solved ? 'Solution' : 'Where the steps stop'}</h2>`,
+    boardTable(puzzle, document.final),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,75 @@
+import type { Coords, PuzzleState } from '../types/puzzle';
+import type { Hint, TechniqueId } from '../types/hints';
+import { isPuzzleComplete } from './validation';
+
+export interface SolvePathStep {
+  technique: TechniqueId;
+  hint: Hint;
+}
+
+export interface SolvePath {
+  steps: SolvePathStep[];
+  /** True when the logical steps alone completed the puzzle. */
+  solved: boolean;
+  /** Board after the last step (the input state is not modified). */
+  state: PuzzleState;
+  aborted: boolean;
+}
+
+export interface HintMark extends Coords {
+  value: 'star' | 'cross';
+}
+
+/** The mark a hint puts on each of its result cells. */
+export function hintMarks(hint: Hint): HintMark[] {
+  const marks: HintMark[] = [];
+  for (const cell of hint.resultCells) {
+    // Schema-based hints may mix stars and crosses
+    const value = hint.schemaCellTypes
+      ? hint.schemaCellTypes.get(`${cell.row},${cell.col}`)
+      : hint.kind === 'place-star'
+        ? 'star'
+        : 'cross';
+    if (value) marks.push({ row: cell.row, col: cell.col, value });
+  }
+  return marks;
+}
+
+/** Marks in R/C notation (1-based), e.g. "star R2C5; crosses R1C1, R1C2". */
+export function describeMarks(marks: HintMark[]): string {
+  const stars: string[] = [];
+  const crosses: string[] = [];
+  for (const { row, col, value } of marks) {
+    (value === 'star' ? stars : crosses).push(`R${row + 1}C${col + 1}`);
+  }
+  const parts: string[] = [];
+  if (stars.length > 0) parts.push(`star${stars.length !== 1 ? 's' : ''} ${stars.join(', ')}`);
+  if (crosses.length > 0) parts.push(`cross${crosses.length !== 1 ? 'es' : ''} ${crosses.join(', ')}`);
+  return parts.join('; ');
+}
+
+/**
+ * Write a hint's marks into `state`. Returns false if every cell already had
+ * the hinted value.
+ */
+export function applyHintToCells(state: PuzzleState, hint: Hint): boolean {
+  let changed = false;
+  for (const { row, col, value } of hintMarks(hint)) {
+    if (state.cells[row][col] === value) continue;
+    state.cells[row][col] = value;
+    changed = true;
+  }
+  return changed;
+}
+
+/**
+ * A board is solved once every unit has its stars; any cells still empty are
+ * then crosses.
+ */
+export function isBoardSolved(state: PuzzleState): boolean {
+  const filled: PuzzleState = {
+    def: state.def,
+    cells: state.cells.map((row) => row.map((cell) => (cell === 'star' ? 'star' : 'cross'))),
+  };
+  return isPuzzleComplete(filled);
+}
@@ -0,0 +1,119 @@
+import type { PuzzleState } from '../types/puzzle';
+import type { Deduction } from '../types/deductions';
+import type { TechniqueId } from '../types/hints';
+import { findNextHint, isTechniqueApplicable, runTechnique, techniquesInOrder } from './techniques';
+import { analyzeDeductionsWithContext } from './mainSolver';
+import { runWithSolveContext } from './solveContext';
+import { applyHintToCells, isBoardSolved, type SolvePath, type SolvePathStep } from './solvePath';
+
+/**
+ * Headless solver API. Everything here takes a PuzzleState plus options and
+ * returns plain results, so it runs the same in the app, in tests, in a
+ * worker or from the command line. The app store is never read or written.
+ */
+
+export { findNextHint };
+
+export interface SolverLogEntry {
+  timestamp: number;
+  technique: string;
+  timeMs: number;
+  message: string;
+  testedTechniques: Array<{ technique: string; timeMs: number }>;
+}
+
+export interface SolverEngineOptions {
+  /** Techniques that may run (default: all). */
+  enabledTechniques?: readonly TechniqueId[];
+  signal?: AbortSignal | null;
+  /** Receives one entry per hint search (and a summary from solveLogically). */
+  logger?: (entry: SolverLogEntry) => void;
+  /** Called with the technique or schema being tried; awaited before each technique. */
+  onProgress?: (label: string) => void | Promise<void>;
+  /** Called whenever the accumulated deductions change. */
+  onDeductions?: (deductions: Deduction[]) => void;
+  /** Steps the trial technique may follow from an assumed star (default: 8). */
+  trialDepth?: number;
+}
+
+export interface SolveLogicallyOptions extends SolverEngineOptions {
+  /** Stop after this many hints (default: 500). */
+  maxSteps?: number;
+}
+
+/**
+ * Run every enabled technique on `state` independently and collect the hint
+ * each one finds (deductions alone count when the main solver can turn them
+ * into a hint). Unlike findNextHint this does not stop at the first hint.
+ */
+export async function findAllHints(
+  state: PuzzleState,
+  options: SolverEngineOptions = {},
+): Promise<SolvePathStep[]> {
+  const { enabledTechniques, signal = null, onProgress, trialDepth } = options;
+  const hints: SolvePathStep[] = [];
+
+  await runWithSolveContext({ signal, onProgress: null, trialDepth }, async () => {
+    for (const tech of techniquesInOrder) {
+      if (signal?.aborted) return;
+      if (enabledTechniques && !enabledTechniques.includes(tech.id)) continue;
+      if (!isTechniqueApplicable(tech, state.def)) continue;
+
+      await onProgress?.(tech.name);
+      const result = await runTechnique(tech, state);
+      if (signal?.aborted) return;
+
+      if (result.type === 'hint') {
+        hints.push({ technique: tech.id, hint: result.hint });
+      } else if (result.type === 'deductions') {
+        const { hint } = analyzeDeductionsWithContext(result.deductions, state);
+        if (hint) hints.push({ technique: tech.id, hint });
+      }
+    }
+  });
+
+  return hints;
+}
+
+/**
+ * Apply hints until the puzzle is solved or no enabled technique makes
+ * progress, recording which technique produced each step. The input state is
+ * not modified.
+ */
+export async function solveLogically(
+  start: PuzzleState,
+  options: SolveLogicallyOptions = {},
+): Promise<SolvePath> {
+  const { maxSteps = 500, signal = null, logger } = options;
+  const startTime = performance.now();
+  const state: PuzzleState = { def: start.def, cells: start.cells.map((row) => [...row]) };
+  const steps: SolvePathStep[] = [];
+
+  const finish = (aborted: boolean): SolvePath => {
+    const solved = !aborted && isBoardSolved(state);
+    const stepText = `${steps.length} step${steps.length !== 1 ? 's' : ''}`;
+    logger?.({
+      timestamp: Date.now(),
+      technique: 'Solve Logically',
+      timeMs: performance.now() - startTime,
+      message: aborted
+        ? `Stopped: cancelled after ${stepText}`
+        : solved
+          ? `Solved puzzle in ${stepText}`
+          : `Stopped: no more hints found after ${stepText}`,
+      testedTechniques: [],
+    });
+    return { steps, solved, state, aborted };
+  };
+
+  while (steps.length < maxSteps && !isBoardSolved(state)) {
+    // Let the UI handle events between steps; the techniques themselves run synchronously.
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    const hint = await findNextHint(state, options);
+    if (signal?.aborted) return finish(true);
+    if (!hint || !applyHintToCells(state, hint)) break;
+    steps.push({ technique: hint.technique, hint });
+  }
+
+  return finish(false);
+}
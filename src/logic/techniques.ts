@@ -1,9 +1,10 @@
-import type { PuzzleState } from '../types/puzzle';
+import type { PuzzleDef, PuzzleState } from '../types/puzzle';
 import type { Hint, TechniqueId } from '../types/hints';
 import type { TechniqueResult, Deduction } from '../types/deductions';
-import { addLogEntry, store } from '../store/puzzleStore';
+import type { SolverEngineOptions } from './solverEngine';
 import { analyzeDeductionsWithContext } from './mainSolver';
 import { filterValidDeductions, mergeDeductions } from './deductionUtils';
+import { runWithSolveContext } from './solveContext';
 import { findTrivialMarksHint, findTrivialMarksResult } from './techniques/trivialMarks';
 import { findLockedLineHint, findLockedLineResult } from './techniques/lockedLine';
 import { findSaturationHint, findSaturationResult } from './techniques/saturation';
@@ -18,7 +19,7 @@ import { findExclusionHint, findExclusionResult } from './techniques/exclusion';
 import { findPressuredExclusionHint, findPressuredExclusionResult } from './techniques/pressuredExclusion';
 import { findAdjacentExclusionHint, findAdjacentExclusionResult } from './techniques/adjacentExclusion';
 import { findForcedPlacementHint, findForcedPlacementResult } from './techniques/forcedPlacement';
-import { findSimpleShapesHint, findSimpleShapesResult } from './techniques/simpleShapes';
+import { findSimpleShapesHint, findSimpleShapesResult, isSimpleShapesApplicable } from './techniques/simpleShapes';
 import { findUndercountingHint, findUndercountingResult } from './techniques/undercounting';
 import { findOvercountingHint, findOvercountingResult } from './techniques/overcounting';
 import { findFinnedCountsHint, findFinnedCountsResult } from './techniques/finnedCounts';
@@ -32,16 +33,26 @@ import { findKissingLsHint, findKissingLsResult } from './techniques/kissingLs';
 import { findTheMHint, findTheMResult } from './techniques/theM';
 import { findPressuredTsHint, findPressuredTsResult } from './techniques/pressuredTs';
 import { findFishHint, findFishResult } from './techniques/fish';
-import { findNRooksHint, findNRooksResult } from './techniques/nRooks';
+import { findNRooksHint, findNRooksResult, isNRooksApplicable } from './techniques/nRooks';
 import { findEntanglementHint, findEntanglementResult } from './techniques/entanglement';
-import { findEntanglementPatternHint, findEntanglementPatternResult } from './techniques/entanglementPatterns';
+import { findEntanglementPatternHint, findEntanglementPatternResult, isEntanglementPatternsApplicable } from './techniques/entanglementPatterns';
 import { findSchemaBasedHint, findSchemaBasedResult } from './techniques/schemaBased';
+import { findForcingChainHint, findForcingChainResult } from './techniques/forcingChain';
+import { findTrialHint, findTrialResult } from './techniques/trial';
 
 export interface Technique {
   id: TechniqueId;
   name: string;
   findHint(state: PuzzleState): Hint | null | Promise<Hint | null>; // Can be async
   findResult?(state: PuzzleState): TechniqueResult | Promise<TechniqueResult>; // Optional: new deduction-aware method (can be async)
+  isApplicable?(def: PuzzleDef): boolean; // Optional: false when the rule does not hold for this size/star count (default: applicable)
+}
+
+/**
+ * Whether a technique's reasoning holds for the given board size and star count.
+ */
+export function isTechniqueApplicable(tech: Technique, def: PuzzleDef): boolean {
+  return tech.isApplicable ? tech.isApplicable(def) : true;
 }
 
 export const techniquesInOrder: Technique[] = [
@@ -86,6 +97,7 @@ export const techniquesInOrder: Technique[] = [
     name: 'Simple Shapes',
     findHint: findSimpleShapesHint,
     findResult: findSimpleShapesResult,
+    isApplicable: isSimpleShapesApplicable,
   },
   {
     id: 'cross-empty-patterns',
@@ -206,6 +218,7 @@ export const techniquesInOrder: Technique[] = [
     name: 'Entanglement Patterns',
     findHint: findEntanglementPatternHint,
     findResult: findEntanglementPatternResult,
+    isApplicable: isEntanglementPatternsApplicable,
   },
   {
     id: 'fish',
@@ -218,6 +231,7 @@ export const techniquesInOrder: Technique[] = [
     name: 'N Rooks',
     findHint: findNRooksHint,
     findResult: findNRooksResult,
+    isApplicable: isNRooksApplicable,
   },
   {
     id: 'square-counting',
@@ -237,6 +251,18 @@ export const techniquesInOrder: Technique[] = [
     findHint: findByAThreadAtSeaHint,
     findResult: findByAThreadAtSeaResult,
   },
+  {
+    id: 'forcing-chain',
+    name: 'Forcing Chain',
+    findHint: findForcingChainHint,
+    findResult: findForcingChainResult,
+  },
+  {
+    id: 'trial',
+    name: 'Trial',
+    findHint: findTrialHint,
+    findResult: findTrialResult,
+  },
 ];
 
 /**
@@ -252,184 +278,273 @@ function wrapOldTechniqueResult(
   return { type: 'none' };
 }
 
-export async function findNextHint(state: PuzzleState): Promise<Hint | null> {
+export interface HintSearchOptions {
+  /** Techniques to skip. */
+  disabledTechniques?: readonly TechniqueId[];
+  signal?: AbortSignal | null;
+  /** Called before each technique runs (e.g. to show its name and let the UI paint). */
+  beforeTechnique?(tech: Technique): void | Promise<void>;
+  /** Called with sub-steps reported inside a technique (e.g. the schema being tried). */
+  onProgress?(label: string): void;
+  /** Called whenever the accumulated deductions are re-analysed. */
+  onDeductions?(deductions: Deduction[]): void;
+  /** Step limit for the trial technique. */
+  trialDepth?: number;
+}
+
+export interface HintSearchResult {
+  hint: Hint | null;
+  /** Name of the technique that produced the hint ('Main Solver' for combined deductions). */
+  techniqueName: string | null;
+  /** Time spent in each technique that ran, in order. */
+  testedTechniques: Array<{ technique: string; timeMs: number }>;
+  /** Valid deductions accumulated when no hint was found. */
+  deductions: Deduction[];
+  aborted: boolean;
+}
+
+// Maximum total time allowed for finding a hint (30 seconds)
+const MAX_TOTAL_TIME_MS = 30000;
+// Maximum time allowed per technique (10 seconds)
+const MAX_TECHNIQUE_TIME_MS = 10000;
+
+/**
+ * Run a single technique, treating errors and overlong runs as "nothing found".
+ */
+export async function runTechnique(tech: Technique, state: PuzzleState): Promise<TechniqueResult> {
+  // Try new findResult method first, fall back to old findHint
+  try {
+    // Check time before running technique
+    const beforeTech = performance.now();
+    let result: TechniqueResult;
+
+    if (tech.findResult) {
+      const resultOrPromise = tech.findResult(state);
+      // Handle both sync and async results
+      result = resultOrPromise instanceof Promise ? await resultOrPromise : resultOrPromise;
+    } else {
+      const hintOrPromise = tech.findHint(state);
+      // Handle both sync and async hints
+      const hint = hintOrPromise instanceof Promise ? await hintOrPromise : hintOrPromise;
+      result = wrapOldTechniqueResult(hint, tech.id);
+    }
+
+    // Check if technique took too long
+    const afterTech = performance.now();
+    const techniqueDuration = afterTech - beforeTech;
+    console.error(`[DEBUG] ${tech.name} took ${techniqueDuration.toFixed(2)}ms`);
+
+    if (techniqueDuration > MAX_TECHNIQUE_TIME_MS) {
+      console.error(`[TIMEOUT] ${tech.name} took ${techniqueDuration.toFixed(2)}ms, exceeding limit of ${MAX_TECHNIQUE_TIME_MS}ms`);
+      // Continue to next technique instead of returning null
+      return { type: 'none' };
+    }
+    return result;
+  } catch (error) {
+    console.error(`[ERROR] ${tech.name} failed:`, error);
+    return { type: 'none' };
+  }
+}
+
+/**
+ * Run the techniques in order until one of them (or the main solver, combining
+ * the deductions gathered so far) produces a hint. Does not touch the store.
+ */
+export async function searchNextHint(
+  state: PuzzleState,
+  options: HintSearchOptions = {},
+): Promise<HintSearchResult> {
+  const { signal = null, onProgress, trialDepth } = options;
+  let currentTechniqueName: string | null = null;
+  return runWithSolveContext(
+    {
+      signal,
+      onProgress: onProgress
+        ? (label) => {
+            const shown = label ?? currentTechniqueName;
+            if (shown) onProgress(shown);
+          }
+        : null,
+      trialDepth,
+    },
+    () => runHintSearch(state, options, (tech) => {
+      currentTechniqueName = tech.name;
+    }),
+  );
+}
+
+async function runHintSearch(
+  state: PuzzleState,
+  options: HintSearchOptions,
+  onTechniqueStart: (tech: Technique) => void,
+): Promise<HintSearchResult> {
+  const { disabledTechniques = [], signal = null, beforeTechnique, onDeductions } = options;
   const startTime = performance.now();
   const testedTechniques: Array<{ technique: string; timeMs: number }> = [];
   let accumulatedDeductions: Deduction[] = [];
-  const signal = store.solveAbortController?.signal ?? null;
-  
-  // Maximum total time allowed for finding a hint (30 seconds)
-  const MAX_TOTAL_TIME_MS = 30000;
-  // Maximum time allowed per technique (10 seconds)
-  const MAX_TECHNIQUE_TIME_MS = 10000;
 
-  // Set thinking state
-  store.isThinking = true;
-  store.currentTechnique = null;
-  store.filteredDeductions = [];
+  const found = (hint: Hint, techniqueName: string): HintSearchResult => ({
+    hint,
+    techniqueName,
+    testedTechniques,
+    deductions: [],
+    aborted: false,
+  });
+  const notFound = (aborted: boolean): HintSearchResult => ({
+    hint: null,
+    techniqueName: null,
+    testedTechniques,
+    deductions: aborted ? [] : filterValidDeductions(accumulatedDeductions, state),
+    aborted,
+  });
+
+  if (signal?.aborted) {
+    return notFound(true);
+  }
+  for (const tech of techniquesInOrder) {
+    if (signal?.aborted) {
+      return notFound(true);
+    }
+    // Check if we've exceeded total time limit
+    const elapsedTotal = performance.now() - startTime;
+    if (elapsedTotal > MAX_TOTAL_TIME_MS) {
+      console.error(`[TIMEOUT] findNextHint exceeded maximum time limit of ${MAX_TOTAL_TIME_MS}ms`);
+      return notFound(false);
+    }
 
-  // Yield to allow UI to update
-  await new Promise(resolve => setTimeout(resolve, 0));
+    if (disabledTechniques.includes(tech.id)) {
+      continue;
+    }
+    if (!isTechniqueApplicable(tech, state.def)) {
+      continue;
+    }
 
-  try {
+    const techStartTime = performance.now();
+    onTechniqueStart(tech);
+    await beforeTechnique?.(tech);
     if (signal?.aborted) {
-      return null;
+      return notFound(true);
     }
-    for (const tech of techniquesInOrder) {
-      if (signal?.aborted) {
-        return null;
-      }
-      // Check if we've exceeded total time limit
-      const elapsedTotal = performance.now() - startTime;
-      if (elapsedTotal > MAX_TOTAL_TIME_MS) {
-        console.error(`[TIMEOUT] findNextHint exceeded maximum time limit of ${MAX_TOTAL_TIME_MS}ms`);
-        return null;
-      }
-      
-      if (store.disabledTechniques.includes(tech.id)) {
-        continue;
-      }
 
-      const techStartTime = performance.now();
-      store.currentTechnique = tech.name;
-
-      // Yield to allow Vue to update the UI with the current technique name
-      // Use requestAnimationFrame to ensure the browser paints before we start the technique
-      await new Promise(resolve => {
-        requestAnimationFrame(() => {
-          // Double RAF to ensure paint happens
-          requestAnimationFrame(resolve);
-        });
-      });
-      if (signal?.aborted) {
-        return null;
-      }
+    // Log start of technique
+    console.log(`[DEBUG] Starting ${tech.name}...`);
 
-      // Log start of technique
-      console.log(`[DEBUG] Starting ${tech.name}...`);
-
-      // Try new findResult method first, fall back to old findHint
-      let result: TechniqueResult;
-      try {
-        // Check time before running technique
-        const beforeTech = performance.now();
-        
-        if (tech.findResult) {
-          const resultOrPromise = tech.findResult(state);
-          // Handle both sync and async results
-          result = resultOrPromise instanceof Promise ? await resultOrPromise : resultOrPromise;
-        } else {
-          const hintOrPromise = tech.findHint(state);
-          // Handle both sync and async hints
-          const hint = hintOrPromise instanceof Promise ? await hintOrPromise : hintOrPromise;
-          result = wrapOldTechniqueResult(hint, tech.id);
-        }
-
-        if (signal?.aborted) {
-          return null;
-        }
-        
-        // Check if technique took too long
-        const afterTech = performance.now();
-        const techniqueDuration = afterTech - beforeTech;
-        console.error(`[DEBUG] ${tech.name} took ${techniqueDuration.toFixed(2)}ms`);
-
-        if (techniqueDuration > MAX_TECHNIQUE_TIME_MS) {
-          console.error(`[TIMEOUT] ${tech.name} took ${techniqueDuration.toFixed(2)}ms, exceeding limit of ${MAX_TECHNIQUE_TIME_MS}ms`);
-          // Continue to next technique instead of returning null
-          result = { type: 'none' };
-        }
-      } catch (error) {
-        console.error(`[ERROR] ${tech.name} failed:`, error);
-        result = { type: 'none' };
-      }
+    const result = await runTechnique(tech, state);
+    if (signal?.aborted) {
+      return notFound(true);
+    }
 
-      const techEndTime = performance.now();
-      const techTimeMs = techEndTime - techStartTime;
-      const techniqueName = tech.name;
+    const techEndTime = performance.now();
+    const techTimeMs = techEndTime - techStartTime;
+    const techniqueName = tech.name;
 
-      console.log(`[DEBUG] ${techniqueName} completed in ${techTimeMs.toFixed(2)}ms`);
+    console.log(`[DEBUG] ${techniqueName} completed in ${techTimeMs.toFixed(2)}ms`);
 
-      testedTechniques.push({
-        technique: techniqueName,
-        timeMs: techTimeMs,
-      });
+    testedTechniques.push({
+      technique: techniqueName,
+      timeMs: techTimeMs,
+    });
 
-      // Warn about slow techniques
-      if (techTimeMs > 100) {
-        console.warn(`[PERF] ${techniqueName} took ${techTimeMs.toFixed(2)}ms`);
-      }
+    // Warn about slow techniques
+    if (techTimeMs > 100) {
+      console.warn(`[PERF] ${techniqueName} took ${techTimeMs.toFixed(2)}ms`);
+    }
 
-      // Warn if technique is taking suspiciously long (potential freeze)
-      if (techTimeMs > 5000) {
-        console.error(`[FREEZE] ${techniqueName} took ${techTimeMs.toFixed(2)}ms - possible freeze!`);
-      }
+    // Warn if technique is taking suspiciously long (potential freeze)
+    if (techTimeMs > 5000) {
+      console.error(`[FREEZE] ${techniqueName} took ${techTimeMs.toFixed(2)}ms - possible freeze!`);
+    }
 
-      // Handle result
-      if (result.type === 'hint') {
-        store.filteredDeductions = [];
-        const totalTimeMs = techEndTime - startTime;
-        const message = result.hint.explanation || `Found hint using ${techniqueName}`;
-
-        console.log(`[DEBUG] ${techniqueName} found hint in ${techTimeMs.toFixed(2)}ms`);
-
-        addLogEntry({
-          timestamp: Date.now(),
-          technique: techniqueName,
-          timeMs: techTimeMs,
-          message: `${message} (placed ${result.hint.resultCells.length} ${result.hint.kind === 'place-star' ? 'star' : 'cross'}${result.hint.resultCells.length !== 1 ? (result.hint.kind === 'place-star' ? 's' : 'es') : ''})`,
-          testedTechniques: testedTechniques,
-        });
-
-        return result.hint;
-      } else if (result.type === 'deductions') {
-        // Add deductions to accumulator
-        accumulatedDeductions = mergeDeductions(accumulatedDeductions, result.deductions);
-        console.log(`[DEBUG] ${techniqueName} produced ${result.deductions.length} deduction(s), total: ${accumulatedDeductions.length}`);
-
-        // After adding deductions, check if main solver can find a hint
-        const analysis = analyzeDeductionsWithContext(accumulatedDeductions, state);
-        store.filteredDeductions = analysis.hint ? analysis.supportingDeductions : analysis.validDeductions;
-        if (analysis.hint) {
-          const totalTimeMs = techEndTime - startTime;
-          const message = analysis.hint.explanation || `Found hint by combining deductions from multiple techniques`;
-
-          console.log(`[DEBUG] Main solver found hint after ${techniqueName} in ${techTimeMs.toFixed(2)}ms`);
-
-          addLogEntry({
-            timestamp: Date.now(),
-            technique: 'Main Solver',
-            timeMs: techTimeMs,
-            message: `${message} (placed ${analysis.hint.resultCells.length} ${analysis.hint.kind === 'place-star' ? 'star' : 'cross'}${analysis.hint.resultCells.length !== 1 ? (analysis.hint.kind === 'place-star' ? 's' : 'es') : ''})`,
-            testedTechniques: testedTechniques,
-          });
-
-          return analysis.hint;
-        }
+    // Handle result
+    if (result.type === 'hint') {
+      onDeductions?.([]);
+      console.log(`[DEBUG] ${techniqueName} found hint in ${techTimeMs.toFixed(2)}ms`);
+      return found(result.hint, techniqueName);
+    } else if (result.type === 'deductions') {
+      // Add deductions to accumulator
+      accumulatedDeductions = mergeDeductions(accumulatedDeductions, result.deductions);
+      console.log(`[DEBUG] ${techniqueName} produced ${result.deductions.length} deduction(s), total: ${accumulatedDeductions.length}`);
+
+      // After adding deductions, check if main solver can find a hint
+      const analysis = analyzeDeductionsWithContext(accumulatedDeductions, state);
+      onDeductions?.(analysis.hint ? analysis.supportingDeductions : analysis.validDeductions);
+      if (analysis.hint) {
+        console.log(`[DEBUG] Main solver found hint after ${techniqueName} in ${techTimeMs.toFixed(2)}ms`);
+        return found(analysis.hint, 'Main Solver');
       }
-      // result.type === 'none' - continue to next technique
     }
+    // result.type === 'none' - continue to next technique
+  }
+
+  const totalTimeMs = performance.now() - startTime;
+  console.log(`[DEBUG] No hint found after ${totalTimeMs.toFixed(2)}ms (accumulated ${accumulatedDeductions.length} deductions)`);
+  return notFound(false);
+}
 
-    const totalTimeMs = performance.now() - startTime;
-    console.log(`[DEBUG] No hint found after ${totalTimeMs.toFixed(2)}ms (accumulated ${accumulatedDeductions.length} deductions)`);
+function pluralizeMarks(hint: Hint): string {
+  const count = hint.resultCells.length;
+  const noun = hint.kind === 'place-star' ? 'star' : 'cross';
+  return `${count} ${noun}${count !== 1 ? (hint.kind === 'place-star' ? 's' : 'es') : ''}`;
+}
 
-    const filteredDeductions = filterValidDeductions(accumulatedDeductions, state);
-    store.filteredDeductions = filteredDeductions;
+/**
+ * Techniques to skip so that only `enabled` run (all of them when undefined).
+ */
+export function disabledTechniquesFor(enabled: readonly TechniqueId[] | undefined): TechniqueId[] {
+  if (!enabled) return [];
+  return techniquesInOrder.filter((tech) => !enabled.includes(tech.id)).map((tech) => tech.id);
+}
 
-    addLogEntry({
-      timestamp: Date.now(),
-      technique: 'None',
-      timeMs: totalTimeMs,
-      message: 'No hint found with current techniques',
-      testedTechniques: testedTechniques,
-    });
+/**
+ * Find the next hint for `state`. Store-free: progress, deductions and log
+ * entries go to the callbacks in `options`. Also available as part of the
+ * solver engine API (see solverEngine.ts).
+ */
+export async function findNextHint(
+  state: PuzzleState,
+  options: SolverEngineOptions = {},
+): Promise<Hint | null> {
+  const { enabledTechniques, signal = null, logger, onProgress, onDeductions, trialDepth } = options;
+  const startTime = performance.now();
+
+  const result = await searchNextHint(state, {
+    disabledTechniques: disabledTechniquesFor(enabledTechniques),
+    signal,
+    beforeTechnique: onProgress ? (tech) => onProgress(tech.name) : undefined,
+    onProgress: onProgress ? (label) => void onProgress(label) : undefined,
+    onDeductions,
+    trialDepth,
+  });
 
+  if (result.aborted) {
     return null;
-  } finally {
-    // Always clear thinking state
-    store.isThinking = false;
-    store.currentTechnique = null;
   }
+
+  const lastTested = result.testedTechniques[result.testedTechniques.length - 1];
+  if (result.hint) {
+    const message = result.hint.explanation || (result.techniqueName === 'Main Solver'
+      ? 'Found hint by combining deductions from multiple techniques'
+      : `Found hint using ${result.techniqueName}`);
+    logger?.({
+      timestamp: Date.now(),
+      technique: result.techniqueName ?? 'Unknown',
+      timeMs: lastTested?.timeMs ?? 0,
+      message: `${message} (placed ${pluralizeMarks(result.hint)})`,
+      testedTechniques: result.testedTechniques,
+    });
+    return result.hint;
+  }
+
+  onDeductions?.(result.deductions);
+  logger?.({
+    timestamp: Date.now(),
+    technique: 'None',
+    timeMs: performance.now() - startTime,
+    message: 'No hint found with current techniques',
+    testedTechniques: result.testedTechniques,
+  });
+
+  return null;
 }
 
 export const techniqueNameById: Record<TechniqueId, string> = techniquesInOrder.reduce(
@@ -1,7 +1,7 @@
 import type { PuzzleState, Coords } from '../../types/puzzle';
 import type { Hint } from '../../types/hints';
 import type { TechniqueResult, Deduction, CellDeduction } from '../../types/deductions';
-import { neighbors8, rowCells, colCells, regionCells, emptyCells, countStars } from '../helpers';
+import { neighbors8, rowCells, colCells, regionCells, emptyCells, countStars, formatRow, formatCol } from '../helpers';
 
 let hintCounter = 0;
 
@@ -253,7 +253,7 @@ export function findAdjacentExclusionHint(state: PuzzleState): Hint | null {
             // This means: rowNeedsStars > 0 AND all possible placements are adjacent to testCell
             // AND we're not in the same row (otherwise it's trivial)
             if (r !== testCell.row) {
-              const explanation = `Row ${r + 1} needs ${rowNeedsStars} star(s), and all possible placements for these stars are adjacent to this cell. Therefore, this cell cannot contain a star.`;
+              const explanation = `${formatRow(r)} needs ${rowNeedsStars} star(s), and all possible placements for these stars are adjacent to this cell. Therefore, this cell cannot contain a star.`;
 
               return {
                 id: nextHintId(),
@@ -293,7 +293,7 @@ export function findAdjacentExclusionHint(state: PuzzleState): Hint | null {
 
           if (allAdjacent) {
             if (c !== testCell.col) {
-              const explanation = `Column ${c + 1} needs ${colNeedsStars} star(s), and all possible placements for these stars are adjacent to this cell. Therefore, this cell cannot contain a star.`;
+              const explanation = `${formatCol(c)} needs ${colNeedsStars} star(s), and all possible placements for these stars are adjacent to this cell. Therefore, this cell cannot contain a star.`;
 
               return {
                 id: nextHintId(),
@@ -236,7 +236,7 @@ function buildExplanation(
   otherCount: number,
   state: PuzzleState
 ): string {
-  const cellRef = `(${cell.row}, ${cell.col})`;
+  const cellRef = `R${cell.row + 1}C${cell.col + 1}`;
   const opposite = forcedValue === 'star' ? 'cross' : 'star';
   
   if (otherCount === 0) {
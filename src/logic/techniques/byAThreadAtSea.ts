@@ -288,7 +288,7 @@ function buildCombinedExplanation(
   isolationContext: IsolationContext,
   uniquenessExplanation: string
 ): string {
-  const cellRef = `(${cell.row}, ${cell.col})`;
+  const cellRef = `R${cell.row + 1}C${cell.col + 1}`;
   
   return `By a thread at sea: Cell ${cellRef} is in isolation at ${isolationContext.description}, ` +
          `and by uniqueness reasoning, it must be a ${forcedValue}. ${uniquenessExplanation}`;
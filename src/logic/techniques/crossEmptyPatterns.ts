@@ -6,7 +6,6 @@ import {
   colCells,
   regionCells,
   emptyCells,
-  countCrosses,
   countStars,
   formatRow,
   formatCol,
@@ -267,42 +266,46 @@ function findOneThenTwoEmpty(empties: Coords[], isRow: boolean): { single: Coord
 /**
  * Cross-Empty Patterns technique:
  * 
- * If a row or column has 5 crosses:
+ * The patterns depend only on how many stars a row or column still needs and
+ * how its remaining empty cells are laid out, so they hold for any board size.
+ * (On a 10×10 2★ board, "needs 2 stars in 5 cells" is the classic "5 crosses".)
+ * 
+ * If a row or column still needs 2 stars:
  * - If there are 5 empty cells:
  *   - If the 5 empty cells are adjacent, then crosses can be placed vertically or 
  *     horizontally adjacent to the 2nd and 4th empty spot (positions 1 and 3, 0-indexed)
  *   - If the empty spots are split as 2 + 3, then crosses can be placed vertically 
  *     or horizontally adjacent to the middle empty in the group of 3
  * 
- * If a row or column has 6 crosses:
+ * If a row or column still needs 2 stars:
  * - If there are 4 empty cells (2+2 pattern):
  *   - If the 4 empty cells are split as 2+2, then crosses can be placed vertically or
  *     horizontally adjacent to both groups of 2 empty cells
  * 
- * If a row or column has 7 crosses:
+ * If a row or column still needs 2 stars:
  * - If there are 3 empty cells (1+2 pattern):
  *   - If the 3 empty cells are split as 1+2 (single empty first, then 2 adjacent empty),
  *     first recommend a star in the single empty cell, then crosses can be placed
  *     vertically or horizontally adjacent to the 2 empty cells
  * 
- * If a row or column has 1 star and 6 crosses:
+ * If a row or column still needs 1 star:
  * - If there are 3 empty cells:
  *   - If the 3 empty cells are contiguous (all in a row/column), then crosses can be placed
  *     vertically adjacent to the middle empty cell (for rows) or horizontally adjacent (for columns)
  */
 export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
-  const { size } = state.def;
+  const { size, starsPerUnit } = state.def;
   
   // Check rows
   for (let r = 0; r < size; r += 1) {
     const row = rowCells(state, r);
     const empties = emptyCells(state, row);
-    const crosses = countCrosses(state, row);
     const stars = countStars(state, row);
+    const needed = starsPerUnit - stars;
     
-    // Check if this row has exactly 5 crosses
-    if (crosses === 5) {
-      // Case 1: 5 crosses and 5 empty cells
+    // Check if this row still needs 2 stars
+    if (needed === 2) {
+      // Case 1: 2 stars needed in 5 empty cells
       if (empties.length === 5) {
         // Check if the 5 empty cells are adjacent
         if (areCellsAdjacentInRow(empties)) {
@@ -322,7 +325,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-cross',
               technique: 'cross-empty-patterns',
               resultCells: adjacentCells,
-              explanation: `${formatRow(r)} has 5 crosses and 5 adjacent empty cells. Crosses can be placed vertically adjacent to the 2nd and 4th empty spots.`,
+              explanation: `${formatRow(r)} needs 2 stars in 5 adjacent empty cells. Crosses can be placed vertically adjacent to the 2nd and 4th empty spots.`,
               highlights: {
                 rows: [r],
                 cells: [...empties, ...adjacentCells],
@@ -346,7 +349,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
                 kind: 'place-cross',
                 technique: 'cross-empty-patterns',
                 resultCells: adjacentCells,
-                explanation: `${formatRow(r)} has 5 crosses and 5 empty cells split as 2+3. Crosses can be placed vertically adjacent to the middle empty in the group of 3.`,
+                explanation: `${formatRow(r)} needs 2 stars in 5 empty cells split as 2+3. Crosses can be placed vertically adjacent to the middle empty in the group of 3.`,
                 highlights: {
                   rows: [r],
                   cells: [...empties, ...adjacentCells],
@@ -359,9 +362,9 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
       
     }
     
-    // Check if this row has exactly 6 crosses
-    if (crosses === 6) {
-      // Case 2: 6 crosses and 4 empty cells (2+2 pattern)
+    // Check if this row still needs 2 stars
+    if (needed === 2) {
+      // Case 2: 2 stars needed in 4 empty cells (2+2 pattern)
       if (empties.length === 4) {
         const groups = findGroupsOfTwo(empties, true);
         if (groups) {
@@ -374,7 +377,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-cross',
               technique: 'cross-empty-patterns',
               resultCells: adjacentCells,
-              explanation: `${formatRow(r)} has 6 crosses and 4 empty cells split as 2+2. Crosses can be placed vertically adjacent to the empty cell groups.`,
+              explanation: `${formatRow(r)} needs 2 stars in 4 empty cells split as 2+2. Crosses can be placed vertically adjacent to the empty cell groups.`,
               highlights: {
                 rows: [r],
                 cells: [...empties, ...adjacentCells],
@@ -385,9 +388,9 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
       }
     }
     
-    // Check if this row has exactly 7 crosses
-    if (crosses === 7) {
-      // Case 3: 7 crosses and 3 empty cells (1+2 pattern)
+    // Check if this row still needs 2 stars
+    if (needed === 2) {
+      // Case 3: 2 stars needed in 3 empty cells (1+2 pattern)
       if (empties.length === 3) {
         const oneThenTwo = findOneThenTwoEmpty(empties, true);
         if (oneThenTwo) {
@@ -416,7 +419,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-star',
               technique: 'cross-empty-patterns',
               resultCells: [singleEmpty],
-              explanation: `${formatRow(r)} has 7 crosses and 3 empty cells split as 1+2. A star must be placed in the single empty cell first.`,
+              explanation: `${formatRow(r)} needs 2 stars in 3 empty cells split as 1+2. A star must be placed in the single empty cell first.`,
               highlights: {
                 rows: [r],
                 cells: [...empties],
@@ -432,7 +435,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
                 kind: 'place-cross',
                 technique: 'cross-empty-patterns',
                 resultCells: adjacentCells,
-                explanation: `${formatRow(r)} has 7 crosses and 3 empty cells split as 1+2. Crosses can be placed vertically adjacent to the 2 empty cells.`,
+                explanation: `${formatRow(r)} needs 2 stars in 3 empty cells split as 1+2. Crosses can be placed vertically adjacent to the 2 empty cells.`,
                 highlights: {
                   rows: [r],
                   cells: [...empties, ...adjacentCells],
@@ -444,9 +447,9 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
       }
     }
     
-    // Check if this row has exactly 1 star and 6 crosses
-    if (stars === 1 && crosses === 6) {
-      // Case 4: 1 star, 6 crosses, and 3 empty cells
+    // Check if this row still needs 1 star
+    if (needed === 1) {
+      // Case 4: 1 star needed in 3 empty cells
       if (empties.length === 3) {
         // Check if the 3 empty cells are contiguous (all adjacent in a row)
         if (areCellsAdjacentInRow(empties)) {
@@ -463,7 +466,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-cross',
               technique: 'cross-empty-patterns',
               resultCells: adjacentCells,
-              explanation: `${formatRow(r)} has 1 star, 6 crosses, and 3 contiguous empty cells. Crosses can be placed vertically adjacent to the middle empty cell.`,
+              explanation: `${formatRow(r)} needs 1 star in 3 contiguous empty cells. Crosses can be placed vertically adjacent to the middle empty cell.`,
               highlights: {
                 rows: [r],
                 cells: [...empties, ...adjacentCells],
@@ -479,12 +482,12 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
   for (let c = 0; c < size; c += 1) {
     const col = colCells(state, c);
     const empties = emptyCells(state, col);
-    const crosses = countCrosses(state, col);
     const stars = countStars(state, col);
+    const needed = starsPerUnit - stars;
     
-    // Check if this column has exactly 5 crosses
-    if (crosses === 5) {
-      // Case 1: 5 crosses and 5 empty cells
+    // Check if this column still needs 2 stars
+    if (needed === 2) {
+      // Case 1: 2 stars needed in 5 empty cells
       if (empties.length === 5) {
         // Check if the 5 empty cells are adjacent
         if (areCellsAdjacentInCol(empties)) {
@@ -504,7 +507,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-cross',
               technique: 'cross-empty-patterns',
               resultCells: adjacentCells,
-              explanation: `${formatCol(c)} has 5 crosses and 5 adjacent empty cells. Crosses can be placed horizontally adjacent to the 2nd and 4th empty spots.`,
+              explanation: `${formatCol(c)} needs 2 stars in 5 adjacent empty cells. Crosses can be placed horizontally adjacent to the 2nd and 4th empty spots.`,
               highlights: {
                 cols: [c],
                 cells: [...empties, ...adjacentCells],
@@ -528,7 +531,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
                 kind: 'place-cross',
                 technique: 'cross-empty-patterns',
                 resultCells: adjacentCells,
-                explanation: `${formatCol(c)} has 5 crosses and 5 empty cells split as 2+3. Crosses can be placed horizontally adjacent to the middle empty in the group of 3.`,
+                explanation: `${formatCol(c)} needs 2 stars in 5 empty cells split as 2+3. Crosses can be placed horizontally adjacent to the middle empty in the group of 3.`,
                 highlights: {
                   cols: [c],
                   cells: [...empties, ...adjacentCells],
@@ -541,9 +544,9 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
       
     }
     
-    // Check if this column has exactly 6 crosses
-    if (crosses === 6) {
-      // Case 2: 6 crosses and 4 empty cells (2+2 pattern)
+    // Check if this column still needs 2 stars
+    if (needed === 2) {
+      // Case 2: 2 stars needed in 4 empty cells (2+2 pattern)
       if (empties.length === 4) {
         const groups = findGroupsOfTwo(empties, false);
         if (groups) {
@@ -556,7 +559,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-cross',
               technique: 'cross-empty-patterns',
               resultCells: adjacentCells,
-              explanation: `${formatCol(c)} has 6 crosses and 4 empty cells split as 2+2. Crosses can be placed horizontally adjacent to the empty cell groups.`,
+              explanation: `${formatCol(c)} needs 2 stars in 4 empty cells split as 2+2. Crosses can be placed horizontally adjacent to the empty cell groups.`,
               highlights: {
                 cols: [c],
                 cells: [...empties, ...adjacentCells],
@@ -567,9 +570,9 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
       }
     }
     
-    // Check if this column has exactly 7 crosses
-    if (crosses === 7) {
-      // Case 3: 7 crosses and 3 empty cells (1+2 pattern)
+    // Check if this column still needs 2 stars
+    if (needed === 2) {
+      // Case 3: 2 stars needed in 3 empty cells (1+2 pattern)
       if (empties.length === 3) {
         const oneThenTwo = findOneThenTwoEmpty(empties, false);
         if (oneThenTwo) {
@@ -598,7 +601,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-star',
               technique: 'cross-empty-patterns',
               resultCells: [singleEmpty],
-              explanation: `${formatCol(c)} has 7 crosses and 3 empty cells split as 1+2. A star must be placed in the single empty cell first.`,
+              explanation: `${formatCol(c)} needs 2 stars in 3 empty cells split as 1+2. A star must be placed in the single empty cell first.`,
               highlights: {
                 cols: [c],
                 cells: [...empties],
@@ -614,7 +617,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
                 kind: 'place-cross',
                 technique: 'cross-empty-patterns',
                 resultCells: adjacentCells,
-                explanation: `${formatCol(c)} has 7 crosses and 3 empty cells split as 1+2. Crosses can be placed horizontally adjacent to the 2 empty cells.`,
+                explanation: `${formatCol(c)} needs 2 stars in 3 empty cells split as 1+2. Crosses can be placed horizontally adjacent to the 2 empty cells.`,
                 highlights: {
                   cols: [c],
                   cells: [...empties, ...adjacentCells],
@@ -626,9 +629,9 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
       }
     }
     
-    // Check if this column has exactly 1 star and 6 crosses
-    if (stars === 1 && crosses === 6) {
-      // Case 4: 1 star, 6 crosses, and 3 empty cells
+    // Check if this column still needs 1 star
+    if (needed === 1) {
+      // Case 4: 1 star needed in 3 empty cells
       if (empties.length === 3) {
         // Check if the 3 empty cells are contiguous (all adjacent in a column)
         if (areCellsAdjacentInCol(empties)) {
@@ -645,7 +648,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
               kind: 'place-cross',
               technique: 'cross-empty-patterns',
               resultCells: adjacentCells,
-              explanation: `${formatCol(c)} has 1 star, 6 crosses, and 3 contiguous empty cells. Crosses can be placed horizontally adjacent to the middle empty cell.`,
+              explanation: `${formatCol(c)} needs 1 star in 3 contiguous empty cells. Crosses can be placed horizontally adjacent to the middle empty cell.`,
               highlights: {
                 cols: [c],
                 cells: [...empties, ...adjacentCells],
@@ -664,7 +667,7 @@ export function findCrossEmptyPatternsHint(state: PuzzleState): Hint | null {
  * Find result with deductions support
  */
 export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResult {
-  const { size } = state.def;
+  const { size, starsPerUnit } = state.def;
   const deductions: Deduction[] = [];
 
   // Emit deductions for cells that must be crosses due to pattern constraints
@@ -672,11 +675,11 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
   for (let r = 0; r < size; r += 1) {
     const row = rowCells(state, r);
     const empties = emptyCells(state, row);
-    const crosses = countCrosses(state, row);
     const stars = countStars(state, row);
+    const needed = starsPerUnit - stars;
     
-    // Pattern: 5 crosses + 5 adjacent empty cells -> crosses adjacent to 2nd and 4th empty
-    if (crosses === 5 && empties.length === 5 && areCellsAdjacentInRow(empties)) {
+    // Pattern: 2 stars needed + 5 adjacent empty cells -> crosses adjacent to 2nd and 4th empty
+    if (needed === 2 && empties.length === 5 && areCellsAdjacentInRow(empties)) {
       const sorted = [...empties].sort((a, b) => a.col - b.col);
       const secondEmpty = sorted[1];
       const fourthEmpty = sorted[3];
@@ -688,14 +691,14 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
             technique: 'cross-empty-patterns',
             cell,
             type: 'forceEmpty',
-            explanation: `${formatRow(r)} has 5 crosses and 5 adjacent empty cells. Crosses can be placed vertically adjacent to the 2nd and 4th empty spots.`,
+            explanation: `${formatRow(r)} needs 2 stars in 5 adjacent empty cells. Crosses can be placed vertically adjacent to the 2nd and 4th empty spots.`,
           });
         }
       }
     }
     
-    // Pattern: 6 crosses + 4 empty cells (2+2) -> crosses adjacent to both groups
-    if (crosses === 6 && empties.length === 4) {
+    // Pattern: 2 stars needed + 4 empty cells (2+2) -> crosses adjacent to both groups
+    if (needed === 2 && empties.length === 4) {
       const groups = findGroupsOfTwo(empties, true);
       if (groups) {
         const adjacentCells = findVerticalAdjacentCells(state, [...groups.group1, ...groups.group2]);
@@ -706,15 +709,15 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
               technique: 'cross-empty-patterns',
               cell,
               type: 'forceEmpty',
-              explanation: `${formatRow(r)} has 6 crosses and 4 empty cells split as 2+2. Crosses can be placed vertically adjacent to the empty cell groups.`,
+              explanation: `${formatRow(r)} needs 2 stars in 4 empty cells split as 2+2. Crosses can be placed vertically adjacent to the empty cell groups.`,
             });
           }
         }
       }
     }
     
-    // Pattern: 7 crosses + 3 empty cells (1+2) -> crosses adjacent to pair
-    if (crosses === 7 && empties.length === 3) {
+    // Pattern: 2 stars needed + 3 empty cells (1+2) -> crosses adjacent to pair
+    if (needed === 2 && empties.length === 3) {
       const oneThenTwo = findOneThenTwoEmpty(empties, true);
       if (oneThenTwo) {
         const adjacentCells = findVerticalAdjacentCells(state, oneThenTwo.pair);
@@ -725,15 +728,15 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
               technique: 'cross-empty-patterns',
               cell,
               type: 'forceEmpty',
-              explanation: `${formatRow(r)} has 7 crosses and 3 empty cells split as 1+2. Crosses can be placed vertically adjacent to the 2 empty cells.`,
+              explanation: `${formatRow(r)} needs 2 stars in 3 empty cells split as 1+2. Crosses can be placed vertically adjacent to the 2 empty cells.`,
             });
           }
         }
       }
     }
     
-    // Pattern: 1 star + 6 crosses + 3 contiguous empty -> crosses adjacent to middle
-    if (stars === 1 && crosses === 6 && empties.length === 3 && areCellsAdjacentInRow(empties)) {
+    // Pattern: 1 star needed + 3 contiguous empty -> crosses adjacent to middle
+    if (needed === 1 && empties.length === 3 && areCellsAdjacentInRow(empties)) {
       const sorted = [...empties].sort((a, b) => a.col - b.col);
       const middleEmpty = sorted[1];
       const adjacentCells = findVerticalAdjacentCells(state, [middleEmpty]);
@@ -744,7 +747,7 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
             technique: 'cross-empty-patterns',
             cell,
             type: 'forceEmpty',
-            explanation: `${formatRow(r)} has 1 star, 6 crosses, and 3 contiguous empty cells. Crosses can be placed vertically adjacent to the middle empty cell.`,
+            explanation: `${formatRow(r)} needs 1 star in 3 contiguous empty cells. Crosses can be placed vertically adjacent to the middle empty cell.`,
           });
         }
       }
@@ -755,11 +758,11 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
   for (let c = 0; c < size; c += 1) {
     const col = colCells(state, c);
     const empties = emptyCells(state, col);
-    const crosses = countCrosses(state, col);
     const stars = countStars(state, col);
+    const needed = starsPerUnit - stars;
     
-    // Pattern: 5 crosses + 5 adjacent empty cells -> crosses adjacent to 2nd and 4th empty
-    if (crosses === 5 && empties.length === 5 && areCellsAdjacentInCol(empties)) {
+    // Pattern: 2 stars needed + 5 adjacent empty cells -> crosses adjacent to 2nd and 4th empty
+    if (needed === 2 && empties.length === 5 && areCellsAdjacentInCol(empties)) {
       const sorted = [...empties].sort((a, b) => a.row - b.row);
       const secondEmpty = sorted[1];
       const fourthEmpty = sorted[3];
@@ -771,14 +774,14 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
             technique: 'cross-empty-patterns',
             cell,
             type: 'forceEmpty',
-            explanation: `${formatCol(c)} has 5 crosses and 5 adjacent empty cells. Crosses can be placed horizontally adjacent to the 2nd and 4th empty spots.`,
+            explanation: `${formatCol(c)} needs 2 stars in 5 adjacent empty cells. Crosses can be placed horizontally adjacent to the 2nd and 4th empty spots.`,
           });
         }
       }
     }
     
-    // Pattern: 6 crosses + 4 empty cells (2+2) -> crosses adjacent to both groups
-    if (crosses === 6 && empties.length === 4) {
+    // Pattern: 2 stars needed + 4 empty cells (2+2) -> crosses adjacent to both groups
+    if (needed === 2 && empties.length === 4) {
       const groups = findGroupsOfTwo(empties, false);
       if (groups) {
         const adjacentCells = findHorizontalAdjacentCells(state, [...groups.group1, ...groups.group2]);
@@ -789,15 +792,15 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
               technique: 'cross-empty-patterns',
               cell,
               type: 'forceEmpty',
-              explanation: `${formatCol(c)} has 6 crosses and 4 empty cells split as 2+2. Crosses can be placed horizontally adjacent to the empty cell groups.`,
+              explanation: `${formatCol(c)} needs 2 stars in 4 empty cells split as 2+2. Crosses can be placed horizontally adjacent to the empty cell groups.`,
             });
           }
         }
       }
     }
     
-    // Pattern: 7 crosses + 3 empty cells (1+2) -> crosses adjacent to pair
-    if (crosses === 7 && empties.length === 3) {
+    // Pattern: 2 stars needed + 3 empty cells (1+2) -> crosses adjacent to pair
+    if (needed === 2 && empties.length === 3) {
       const oneThenTwo = findOneThenTwoEmpty(empties, false);
       if (oneThenTwo) {
         const adjacentCells = findHorizontalAdjacentCells(state, oneThenTwo.pair);
@@ -808,15 +811,15 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
               technique: 'cross-empty-patterns',
               cell,
               type: 'forceEmpty',
-              explanation: `${formatCol(c)} has 7 crosses and 3 empty cells split as 1+2. Crosses can be placed horizontally adjacent to the 2 empty cells.`,
+              explanation: `${formatCol(c)} needs 2 stars in 3 empty cells split as 1+2. Crosses can be placed horizontally adjacent to the 2 empty cells.`,
             });
           }
         }
       }
     }
     
-    // Pattern: 1 star + 6 crosses + 3 contiguous empty -> crosses adjacent to middle
-    if (stars === 1 && crosses === 6 && empties.length === 3 && areCellsAdjacentInCol(empties)) {
+    // Pattern: 1 star needed + 3 contiguous empty -> crosses adjacent to middle
+    if (needed === 1 && empties.length === 3 && areCellsAdjacentInCol(empties)) {
       const sorted = [...empties].sort((a, b) => a.row - b.row);
       const middleEmpty = sorted[1];
       const adjacentCells = findHorizontalAdjacentCells(state, [middleEmpty]);
@@ -827,7 +830,7 @@ export function findCrossEmptyPatternsResult(state: PuzzleState): TechniqueResul
             technique: 'cross-empty-patterns',
             cell,
             type: 'forceEmpty',
-            explanation: `${formatCol(c)} has 1 star, 6 crosses, and 3 contiguous empty cells. Crosses can be placed horizontally adjacent to the middle empty cell.`,
+            explanation: `${formatCol(c)} needs 1 star in 3 contiguous empty cells. Crosses can be placed horizontally adjacent to the middle empty cell.`,
           });
         }
       }
@@ -1,7 +1,7 @@
 import type { PuzzleState, Coords } from '../../types/puzzle';
 import type { Hint } from '../../types/hints';
 import type { TechniqueResult, Deduction, AreaDeduction, CellDeduction } from '../../types/deductions';
-import { rowCells, colCells, emptyCells, countCrosses, formatRow, formatCol, neighbors8, getCell } from '../helpers';
+import { rowCells, colCells, emptyCells, formatRow, formatCol, neighbors8, getCell } from '../helpers';
 
 let hintCounter = 0;
 
@@ -13,14 +13,13 @@ function nextHintId() {
 /**
  * Cross Pressure technique:
  * 
- * If a row or column has 7 crosses and 3 empty cells, there must be at least
+ * If a row or column still needs 2 stars and has 3 empty cells, there must be at least
  * one forced star. If the 3 empty cells are adjacent (contiguous), we can
  * determine the location of two stars. Otherwise, we can determine the location
  * of one star.
  * 
- * For a 10x10 grid with 2 stars per unit:
- * - 7 crosses + 3 empty = 10 cells total
- * - Need 2 stars total, so all 3 empty cells must contain stars
+ * On a 10x10 grid with 2 stars per unit this is the "7 crosses + 3 empty" case:
+ * - Need 2 more stars in the 3 empty cells
  * - If the 3 cells are adjacent, we can place stars at specific positions
  *   (e.g., positions 0 and 2 of a 3-cell block)
  * - If not adjacent, we need to determine which cells can be stars
@@ -32,12 +31,11 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
   // Check rows
   for (let row = 0; row < size; row += 1) {
     const rowCellsList = rowCells(state, row);
-    const crosses = countCrosses(state, rowCellsList);
     const empties = emptyCells(state, rowCellsList);
     const stars = rowCellsList.filter((c) => state.cells[c.row][c.col] === 'star').length;
     
-    // Check if this row has 7 crosses and 3 empty cells
-    if (crosses === 7 && empties.length === 3 && stars < starsPerUnit) {
+    // Check if this row needs 2 more stars in 3 empty cells
+    if (empties.length === 3 && starsPerUnit - stars === 2) {
       const forcedStars = analyzeForcedStars(state, empties, starsPerUnit - stars, 'row', row);
       if (forcedStars.length > 0) {
         // Also find crosses adjacent to these forced stars
@@ -48,7 +46,7 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
           kind: 'place-star',
           technique: 'cross-pressure',
           resultCells: forcedStars,
-          explanation: `${formatRow(row)} has 7 crosses and 3 empty cells. Since this row needs ${starsPerUnit - stars} more star${starsPerUnit - stars !== 1 ? 's' : ''}, ${forcedStars.length === 2 ? 'two stars are forced' : 'one star is forced'} in the empty cells.${forcedCrosses.length > 0 ? ` Additionally, ${forcedCrosses.length} adjacent cell${forcedCrosses.length !== 1 ? 's' : ''} must be crosses.` : ''}`,
+          explanation: `${formatRow(row)} has 3 empty cells. Since this row needs ${starsPerUnit - stars} more star${starsPerUnit - stars !== 1 ? 's' : ''}, ${forcedStars.length === 2 ? 'two stars are forced' : 'one star is forced'} in the empty cells.${forcedCrosses.length > 0 ? ` Additionally, ${forcedCrosses.length} adjacent cell${forcedCrosses.length !== 1 ? 's' : ''} must be crosses.` : ''}`,
           highlights: { rows: [row], cells: [...empties, ...forcedStars, ...forcedCrosses] },
         };
       }
@@ -58,12 +56,11 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
   // Check columns
   for (let col = 0; col < size; col += 1) {
     const colCellsList = colCells(state, col);
-    const crosses = countCrosses(state, colCellsList);
     const empties = emptyCells(state, colCellsList);
     const stars = colCellsList.filter((c) => state.cells[c.row][c.col] === 'star').length;
     
-    // Check if this column has 7 crosses and 3 empty cells
-    if (crosses === 7 && empties.length === 3 && stars < starsPerUnit) {
+    // Check if this column needs 2 more stars in 3 empty cells
+    if (empties.length === 3 && starsPerUnit - stars === 2) {
       const forcedStars = analyzeForcedStars(state, empties, starsPerUnit - stars, 'col', col);
       if (forcedStars.length > 0) {
         // Also find crosses adjacent to these forced stars
@@ -74,7 +71,7 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
           kind: 'place-star',
           technique: 'cross-pressure',
           resultCells: forcedStars,
-          explanation: `${formatCol(col)} has 7 crosses and 3 empty cells. Since this column needs ${starsPerUnit - stars} more star${starsPerUnit - stars !== 1 ? 's' : ''}, ${forcedStars.length === 2 ? 'two stars are forced' : 'one star is forced'} in the empty cells.${forcedCrosses.length > 0 ? ` Additionally, ${forcedCrosses.length} adjacent cell${forcedCrosses.length !== 1 ? 's' : ''} must be crosses.` : ''}`,
+          explanation: `${formatCol(col)} has 3 empty cells. Since this column needs ${starsPerUnit - stars} more star${starsPerUnit - stars !== 1 ? 's' : ''}, ${forcedStars.length === 2 ? 'two stars are forced' : 'one star is forced'} in the empty cells.${forcedCrosses.length > 0 ? ` Additionally, ${forcedCrosses.length} adjacent cell${forcedCrosses.length !== 1 ? 's' : ''} must be crosses.` : ''}`,
           highlights: { cols: [col], cells: [...empties, ...forcedStars, ...forcedCrosses] },
         };
       }
@@ -82,14 +79,14 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
   }
   
   // SECOND: Check for crosses above/below adjacent empty cell pairs (only if no star hints found)
-  // Check rows: if a row has 1 star and 2 adjacent empty cells, crosses above/below are forced
+  // Check rows: if a row needs 1 more star in 2 adjacent empty cells, crosses above/below are forced
   for (let row = 0; row < size; row += 1) {
     const rowCellsList = rowCells(state, row);
     const empties = emptyCells(state, rowCellsList);
     const stars = rowCellsList.filter((c) => state.cells[c.row][c.col] === 'star').length;
     
     // Check if this row has 1 star and exactly 2 empty cells
-    if (stars === 1 && empties.length === 2 && stars < starsPerUnit) {
+    if (starsPerUnit - stars === 1 && empties.length === 2) {
       // Check if the 2 empty cells are adjacent (horizontally)
       if (empties[0].row === empties[1].row && Math.abs(empties[0].col - empties[1].col) === 1) {
         const forcedCrosses = findCrossesAboveBelowAdjacentPair(state, empties[0], empties[1]);
@@ -99,7 +96,7 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
             kind: 'place-cross',
             technique: 'cross-pressure',
             resultCells: forcedCrosses,
-            explanation: `${formatRow(row)} has 1 star and 2 adjacent empty cells. Since one of these cells must be a star, the cells directly above and below the pair must be crosses.`,
+            explanation: `${formatRow(row)} needs 1 more star in 2 adjacent empty cells. Since one of these cells must be a star, the cells directly above and below the pair must be crosses.`,
             highlights: { rows: [row], cells: [...empties, ...forcedCrosses] },
           };
         }
@@ -107,14 +104,14 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
     }
   }
   
-  // Check columns: if a column has 1 star and 2 adjacent empty cells, crosses left/right are forced
+  // Check columns: if a column needs 1 more star in 2 adjacent empty cells, crosses left/right are forced
   for (let col = 0; col < size; col += 1) {
     const colCellsList = colCells(state, col);
     const empties = emptyCells(state, colCellsList);
     const stars = colCellsList.filter((c) => state.cells[c.row][c.col] === 'star').length;
     
     // Check if this column has 1 star and exactly 2 empty cells
-    if (stars === 1 && empties.length === 2 && stars < starsPerUnit) {
+    if (starsPerUnit - stars === 1 && empties.length === 2) {
       // Check if the 2 empty cells are adjacent (vertically)
       if (empties[0].col === empties[1].col && Math.abs(empties[0].row - empties[1].row) === 1) {
         const forcedCrosses = findCrossesLeftRightAdjacentPair(state, empties[0], empties[1]);
@@ -124,7 +121,7 @@ export function findCrossPressureHint(state: PuzzleState): Hint | null {
             kind: 'place-cross',
             technique: 'cross-pressure',
             resultCells: forcedCrosses,
-            explanation: `${formatCol(col)} has 1 star and 2 adjacent empty cells. Since one of these cells must be a star, the cells directly to the left and right of the pair must be crosses.`,
+            explanation: `${formatCol(col)} needs 1 more star in 2 adjacent empty cells. Since one of these cells must be a star, the cells directly to the left and right of the pair must be crosses.`,
             highlights: { cols: [col], cells: [...empties, ...forcedCrosses] },
           };
         }
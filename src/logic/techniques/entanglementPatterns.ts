@@ -1,4 +1,4 @@
-import type { PuzzleState } from '../../types/puzzle';
+import type { PuzzleDef, PuzzleState } from '../../types/puzzle';
 import type { Hint } from '../../types/hints';
 import type { TechniqueResult } from '../../types/deductions';
 import { loadEntanglementSpecs, filterSpecsByPuzzle, getTripleRuleId } from '../entanglements/loader';
@@ -50,6 +50,15 @@ async function ensureSpecsLoaded(): Promise<void> {
   }
 }
 
+/**
+ * Entanglement patterns are mined per board size and star count, so the
+ * technique only applies when a spec exists for this puzzle's parameters.
+ */
+export function isEntanglementPatternsApplicable(def: PuzzleDef): boolean {
+  if (cachedSpecs === null) return true;
+  return filterSpecsByPuzzle(cachedSpecs, def.size, def.starsPerUnit).length > 0;
+}
+
 export function findEntanglementPatternHint(state: PuzzleState): Hint | null {
   const startTime = performance.now();
   const { size, starsPerUnit } = state.def;
@@ -0,0 +1,184 @@
+import type { CellState, Coords, PuzzleState } from '../../types/puzzle';
+import type { Hint } from '../../types/hints';
+import type { TechniqueResult } from '../../types/deductions';
+import {
+  applyBasicStep,
+  buildUnits,
+  describeCells,
+  findBasicStep,
+  findContradiction,
+  formatCells,
+  plural,
+  type BasicStep,
+  type PropagationUnit,
+} from '../basicPropagation';
+import { getTrialDepth } from '../solveContext';
+import { DEFAULT_TRIAL_DEPTH } from './trial';
+
+let hintCounter = 0;
+
+function nextHintId() {
+  hintCounter += 1;
+  return `forcing-chain-${hintCounter}`;
+}
+
+/**
+ * Forcing Chain:
+ *
+ * Find a row, column or region whose missing stars fit in exactly two ways
+ * (e.g. a row needing one star with two empty cells left). Follow each way
+ * with the basic techniques (see basicPropagation.ts) for up to the trial
+ * depth in steps. A cell that ends up crossed in both branches is a cross,
+ * and one starred in both is a star, whichever way the unit is filled.
+ *
+ * Branching starts from the board with its own basic consequences filled
+ * in, so only marks that need the branches are reported. Units where one
+ * branch runs into a contradiction are left to the trial technique.
+ * `details` lists the steps of each branch up to the last one the conclusion
+ * depends on.
+ */
+
+interface Branch {
+  placement: Coords[];
+  cells: CellState[][];
+  steps: BasicStep[];
+}
+
+function touches(a: Coords, b: Coords): boolean {
+  return Math.abs(a.row - b.row) <= 1 && Math.abs(a.col - b.col) <= 1;
+}
+
+// Ways to put `need` non-touching stars on `empties`, stopping once there are more than two.
+function placements(empties: Coords[], need: number): Coords[][] {
+  const found: Coords[][] = [];
+  const chosen: Coords[] = [];
+
+  function extend(start: number): void {
+    if (found.length > 2) return;
+    if (chosen.length === need) {
+      found.push([...chosen]);
+      return;
+    }
+    for (let i = start; i < empties.length; i += 1) {
+      if (chosen.some((cell) => touches(cell, empties[i]))) continue;
+      chosen.push(empties[i]);
+      extend(i + 1);
+      chosen.pop();
+    }
+  }
+
+  extend(0);
+  return found;
+}
+
+/**
+ * Place `placement` on a copy of `start` and propagate for up to `maxDepth`
+ * steps; null when the branch contradicts itself.
+ */
+function followBranch(
+  state: PuzzleState,
+  units: PropagationUnit[],
+  start: CellState[][],
+  placement: Coords[],
+  maxDepth: number,
+): Branch | null {
+  const cells = start.map((row) => [...row]);
+  for (const cell of placement) cells[cell.row][cell.col] = 'star';
+  const steps: BasicStep[] = [];
+
+  for (;;) {
+    if (findContradiction(cells, units, state.def.starsPerUnit)) return null;
+    if (steps.length >= maxDepth) break;
+    const step = findBasicStep(cells, units, state);
+    if (!step) break;
+    applyBasicStep(cells, step);
+    steps.push(step);
+  }
+  return { placement, cells, steps };
+}
+
+// Steps of a branch up to the last one that marks one of `targets`.
+function stepsLeadingTo(branch: Branch, targets: Coords[]): BasicStep[] {
+  const marks = (step: BasicStep) =>
+    [...step.stars, ...step.crosses].some((cell) => targets.some((t) => t.row === cell.row && t.col === cell.col));
+  let last = -1;
+  branch.steps.forEach((step, index) => {
+    if (marks(step)) last = index;
+  });
+  return branch.steps.slice(0, last + 1);
+}
+
+export function findForcingChainHint(state: PuzzleState, maxDepth = getTrialDepth() ?? DEFAULT_TRIAL_DEPTH): Hint | null {
+  const { size, starsPerUnit } = state.def;
+  const units = buildUnits(state);
+  // The board's own basic consequences, which hold in every branch anyway
+  const base = followBranch(state, units, state.cells, [], Infinity);
+  if (!base) return null;
+  const { cells } = base;
+
+  for (const unit of units) {
+    const need = starsPerUnit - unit.cells.filter((cell) => cells[cell.row][cell.col] === 'star').length;
+    if (need <= 0) continue;
+    const empties = unit.cells.filter((cell) => cells[cell.row][cell.col] === 'empty');
+    const ways = placements(empties, need);
+    if (ways.length !== 2) continue;
+
+    const branches = ways.map((placement) => followBranch(state, units, cells, placement, maxDepth));
+    const [first, second] = branches;
+    if (!first || !second) continue;
+
+    const stars: Coords[] = [];
+    const crosses: Coords[] = [];
+    for (let r = 0; r < size; r += 1) {
+      for (let c = 0; c < size; c += 1) {
+        if (cells[r][c] !== 'empty' || first.cells[r][c] !== second.cells[r][c]) continue;
+        if (first.cells[r][c] === 'star') stars.push({ row: r, col: c });
+        else if (first.cells[r][c] === 'cross') crosses.push({ row: r, col: c });
+      }
+    }
+    if (stars.length === 0 && crosses.length === 0) continue;
+
+    // Stars make more progress; a mixed hint would need schemaCellTypes
+    const kind = stars.length > 0 ? 'place-star' : 'place-cross';
+    const resultCells = stars.length > 0 ? stars : crosses;
+    const conclusion = describeCells(resultCells, stars.length > 0 ? 'star' : 'cross');
+    const options = ways.map((way) => formatCells(way)).join(' or ');
+
+    const details: string[] = [];
+    if (base.steps.length > 0) {
+      details.push(`The board already implies ${plural(base.steps.length, 'basic step')}; both branches start after them.`);
+    }
+    details.push(`${unit.label} needs ${plural(need, 'star')}: ${options}.`);
+    [first, second].forEach((branch, index) => {
+      details.push(`Branch ${index + 1}: ${describeCells(branch.placement, 'star')}.`);
+      stepsLeadingTo(branch, resultCells).forEach((step, stepIndex) => details.push(`${stepIndex + 1}. ${step.text}`));
+    });
+    details.push(`Both branches: ${conclusion}.`);
+
+    return {
+      id: nextHintId(),
+      kind,
+      technique: 'forcing-chain',
+      resultCells,
+      explanation:
+        `${unit.label} can only get its ${plural(need, 'missing star')} as ${options}. ` +
+        `Following the basic techniques from either choice, ${conclusion}, so that holds either way.`,
+      highlights: {
+        ...unit.highlight,
+        cells: resultCells,
+        branches: ways,
+      },
+      details,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Find result with deductions support
+ */
+export function findForcingChainResult(state: PuzzleState): TechniqueResult {
+  const hint = findForcingChainHint(state);
+  return hint ? { type: 'hint', hint } : { type: 'none' };
+}
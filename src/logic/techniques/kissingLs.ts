@@ -5,7 +5,7 @@ import {
   isValidStarPlacement,
   canPlaceAllStarsSimultaneously,
 } from '../constraints/placement';
-import { findLShapes, emptyCells } from '../helpers';
+import { findLShapes, emptyCells, countStars } from '../helpers';
 
 let hintCounter = 0;
 
@@ -41,7 +41,7 @@ function doLShapesTouch(l1Cells: Coords[], l2Cells: Coords[]): boolean {
  * Kissing Ls technique:
  * 
  * When two L-shaped regions touch in a specific configuration, the constraint
- * that each region needs 2 stars combined with the adjacency and 2×2 rules
+ * that each region needs its stars combined with the adjacency and 2×2 rules
  * can force specific star placements.
  * 
  * The key insight is that when two Ls "kiss", the touching point and the
@@ -71,7 +71,7 @@ export function findKissingLsHint(state: PuzzleState): Hint | null {
           kind: forcedCells[0].kind,
           technique: 'kissing-ls',
           resultCells: forcedCells.map((fc) => fc.cell),
-          explanation: `Two L-shaped regions (${l1.regionId} and ${l2.regionId}) touch in a kissing configuration. The spatial constraints from both regions requiring 2 stars each, combined with adjacency and 2×2 rules, force specific placements.`,
+          explanation: `Two L-shaped regions (${l1.regionId} and ${l2.regionId}) touch in a kissing configuration. The spatial constraints from both regions requiring ${state.def.starsPerUnit} star${state.def.starsPerUnit !== 1 ? 's' : ''} each, combined with adjacency and 2×2 rules, force specific placements.`,
           highlights: {
             regions: [l1.regionId, l2.regionId],
             cells: [...l1.cells, ...l2.cells, ...forcedCells.map((fc) => fc.cell)],
@@ -136,10 +136,10 @@ function analyzeKissingLs(
   
   // Analyze the configuration based on where the Ls touch
   // Key insight: When two Ls kiss, certain cells in each L become forced
-  // based on the need to place 2 stars in each L while respecting adjacency
+  // based on the need to place all stars in each L while respecting adjacency
   
   // Strategy: Look for cells in one L that, if they contained a star,
-  // would make it impossible to place 2 stars in the other L
+  // would make it impossible to place all stars in the other L
   
   // Check each empty cell in L1
   const l1Empties = emptyCells(state, l1.cells);
@@ -154,15 +154,17 @@ function analyzeKissingLs(
       isValidStarPlacement(state, cell) &&
       canPlaceAllStarsSimultaneously(state, [cell], state.def.starsPerUnit) !== null
   );
+  const l1Needed = state.def.starsPerUnit - countStars(state, l1.cells);
+  const l2Needed = state.def.starsPerUnit - countStars(state, l2.cells);
   for (const cell of viableL1Empties) {
     // Count how many cells in L2 would be blocked if we place a star here
     const blockedInL2 = viableL2Empties.filter((c2) => {
       return areAdjacent(cell, c2);
     });
 
-    // If placing a star here would block too many cells in L2,
-    // making it impossible for L2 to get 2 stars, this cell must be a cross
-    if (viableL2Empties.length - blockedInL2.length < 2) {
+    // If placing a star here would leave L2 fewer cells than the stars it
+    // still needs, this cell must be a cross
+    if (viableL2Empties.length - blockedInL2.length < l2Needed) {
       forcedCells.push({ cell, kind: 'place-cross' });
     }
   }
@@ -174,9 +176,9 @@ function analyzeKissingLs(
       return areAdjacent(cell, c1);
     });
 
-    // If placing a star here would block too many cells in L1,
-    // making it impossible for L1 to get 2 stars, this cell must be a cross
-    if (viableL1Empties.length - blockedInL1.length < 2) {
+    // If placing a star here would leave L1 fewer cells than the stars it
+    // still needs, this cell must be a cross
+    if (viableL1Empties.length - blockedInL1.length < l1Needed) {
       forcedCells.push({ cell, kind: 'place-cross' });
     }
   }
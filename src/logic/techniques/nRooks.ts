@@ -1,5 +1,6 @@
 import type { Hint } from '../../types/hints';
-import type { Coords, PuzzleState } from '../../types/puzzle';
+import type { Coords, PuzzleDef, PuzzleState } from '../../types/puzzle';
+import { DEFAULT_SIZE } from '../../types/puzzle';
 import type { TechniqueResult, Deduction, BlockDeduction, CellDeduction } from '../../types/deductions';
 import { colCells, getCell, neighbors8, regionCells, rowCells } from '../helpers';
 
@@ -15,12 +16,22 @@ export interface BlockCoords {
   bCol: number;
 }
 
-export function blockId(block: BlockCoords): number {
-  return block.bRow * 5 + block.bCol;
+/**
+ * N-Rooks tiles the board with (size/2)×(size/2) disjoint 2×2 blocks. A block
+ * holds at most one star, so each block row holds 2·starsPerUnit starred blocks
+ * and the rest are empty. The argument needs exactly one empty block per block
+ * row and column, i.e. size/2 = 2·starsPerUnit + 1 (6×6 1★, 10×10 2★, 14×14 3★).
+ */
+export function isNRooksApplicable(def: PuzzleDef): boolean {
+  return def.size % 2 === 0 && def.size / 2 - 2 * def.starsPerUnit === 1;
+}
+
+export function blockId(block: BlockCoords, blocksPerSide = DEFAULT_SIZE / 2): number {
+  return block.bRow * blocksPerSide + block.bCol;
 }
 
-export function idToBlock(id: number): BlockCoords {
-  return { bRow: Math.floor(id / 5), bCol: id % 5 };
+export function idToBlock(id: number, blocksPerSide = DEFAULT_SIZE / 2): BlockCoords {
+  return { bRow: Math.floor(id / blocksPerSide), bCol: id % blocksPerSide };
 }
 
 export function cellsInBlock(block: BlockCoords): Coords[] {
@@ -95,9 +106,10 @@ function countStarsInUnit(state: PuzzleState, cells: Coords[]): number {
 
 export function analyseBlocks(state: PuzzleState): BlockInfo[] {
   const blocks: BlockInfo[] = [];
+  const blocksPerSide = Math.floor(state.def.size / 2);
 
-  for (let bRow = 0; bRow < 5; bRow += 1) {
-    for (let bCol = 0; bCol < 5; bCol += 1) {
+  for (let bRow = 0; bRow < blocksPerSide; bRow += 1) {
+    for (let bCol = 0; bCol < blocksPerSide; bCol += 1) {
       const coords = { bRow, bCol };
       const cells = cellsInBlock(coords);
       const hasFixedStar = cells.some((cell) => isFixedStar(state, cell));
@@ -113,9 +125,9 @@ function blockIsProvedEmpty(state: PuzzleState, cells: Coords[]): boolean {
   return cells.every((cell) => isImpossibleStarCell(state, cell));
 }
 
-function buildBlockRowInfo(blocks: BlockInfo[]): BlockRowInfo[] {
+function buildBlockRowInfo(blocks: BlockInfo[], blocksPerSide: number): BlockRowInfo[] {
   const rows: BlockRowInfo[] = [];
-  for (let bRow = 0; bRow < 5; bRow += 1) {
+  for (let bRow = 0; bRow < blocksPerSide; bRow += 1) {
     const rowBlocks = blocks.filter((block) => block.coords.bRow === bRow);
     rows.push({
       row: bRow,
@@ -131,13 +143,14 @@ function buildBlockRowInfo(blocks: BlockInfo[]): BlockRowInfo[] {
 function buildBlockColInfo(
   blocks: BlockInfo[],
   blockRows: BlockRowInfo[],
+  blocksPerSide: number,
 ): BlockColInfo[] {
   const rowsWithoutEmpty = new Set(
     blockRows.filter((row) => row.empties.length === 0).map((row) => row.row),
   );
 
   const cols: BlockColInfo[] = [];
-  for (let bCol = 0; bCol < 5; bCol += 1) {
+  for (let bCol = 0; bCol < blocksPerSide; bCol += 1) {
     const colBlocks = blocks.filter((block) => block.coords.bCol === bCol);
     cols.push({
       col: bCol,
@@ -209,11 +222,12 @@ function createEmptyBlockHint(block: BlockInfo): Hint {
 }
 
 export function findNRooksHint(state: PuzzleState): Hint | null {
-  if (state.def.size !== 10 || state.def.starsPerUnit !== 2) return null;
+  if (!isNRooksApplicable(state.def)) return null;
 
+  const blocksPerSide = state.def.size / 2;
   const blocks = analyseBlocks(state);
-  const blockRows = buildBlockRowInfo(blocks);
-  const blockCols = buildBlockColInfo(blocks, blockRows);
+  const blockRows = buildBlockRowInfo(blocks, blocksPerSide);
+  const blockCols = buildBlockColInfo(blocks, blockRows, blocksPerSide);
 
   const forcedEmpty = findForcedEmptyByRowAndCol(state, blockRows, blockCols);
 
@@ -236,7 +250,7 @@ export function findNRooksHint(state: PuzzleState): Hint | null {
  * Find result with deductions support
  */
 export function findNRooksResult(state: PuzzleState): TechniqueResult {
-  if (state.def.size !== 10 || state.def.starsPerUnit !== 2) {
+  if (!isNRooksApplicable(state.def)) {
     return { type: 'none' };
   }
 
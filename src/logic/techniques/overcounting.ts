@@ -68,6 +68,19 @@ type RegionInfo = {
   candidateEmpties: Coords[];
 };
 
+// A group of regions with its total need and the rows/columns (as bitmasks,
+// bit i = row or column i) holding their candidate empties.
+type RegionGroup = {
+  regs: number[];
+  need: number;
+  candidateRowBits: number;
+  candidateColBits: number;
+};
+
+function unitBits(indices: number[]): number {
+  return indices.reduce((bits, i) => bits | (1 << i), 0);
+}
+
 /**
  * OVERCOUNTING (safe version)
  *
@@ -143,21 +156,34 @@ export function findOvercountingHint(state: PuzzleState): Hint | null {
     regionInfo.set(id, { id, cells, remaining, candidateEmpties });
   }
 
-  // Helpers for confinement checks
-  function confinedToRows(reg: RegionInfo, rowsSet: Set<number>): boolean {
-    // Only care about viable candidate empties; if a cell is not globally viable,
-    // it cannot host a future star and shouldn't affect confinement.
-    for (const e of reg.candidateEmpties) {
-      if (!rowsSet.has(e.row)) return false;
-    }
-    return true;
-  }
-
-  function confinedToCols(reg: RegionInfo, colsSet: Set<number>): boolean {
-    for (const e of reg.candidateEmpties) {
-      if (!colsSet.has(e.col)) return false;
+  // Region groups do not depend on the chosen rows/columns, so work out each
+  // group's need and confinement once. Groups that can never match (a region
+  // over quota, nothing needed, or a region needing stars with no viable
+  // candidate) are dropped here.
+  function regionGroups(groupSize: number): RegionGroup[] {
+    const groups: RegionGroup[] = [];
+    for (const regs of combinations(regionIds, groupSize)) {
+      let need = 0;
+      let candidateRowBits = 0;
+      let candidateColBits = 0;
+      let ok = true;
+      for (const id of regs) {
+        const reg = regionInfo.get(id);
+        if (!reg || reg.remaining < 0 || (reg.remaining > 0 && reg.candidateEmpties.length === 0)) {
+          ok = false;
+          break;
+        }
+        need += reg.remaining;
+        // Only viable candidate empties matter; a cell that is not globally
+        // viable cannot host a future star and shouldn't affect confinement.
+        for (const e of reg.candidateEmpties) {
+          candidateRowBits |= 1 << e.row;
+          candidateColBits |= 1 << e.col;
+        }
+      }
+      if (ok && need > 0) groups.push({ regs, need, candidateRowBits, candidateColBits });
     }
-    return true;
+    return groups;
   }
 
   // We try to return the "best" (largest) forced-cross set among all matches.
@@ -172,53 +198,19 @@ export function findOvercountingHint(state: PuzzleState): Hint | null {
   // --- Rows pattern ---
   for (let groupSize = 1; groupSize <= maxGroup; groupSize += 1) {
     const rowCombos = combinations(rowIndices, groupSize);
-    const regionCombos = combinations(regionIds, groupSize);
+    const groups = regionGroups(groupSize);
 
     for (const rows of rowCombos) {
       const cap = rows.reduce((sum, r) => sum + Math.max(0, rowInfos[r].remaining), 0);
       if (cap <= 0) continue;
 
-      const rowsSet = new Set(rows);
+      const rowBits = unitBits(rows);
 
-      for (const regs of regionCombos) {
-        // Compute need and quick rejects
-        let need = 0;
-        let ok = true;
-
-        for (const id of regs) {
-          const reg = regionInfo.get(id);
-          if (!reg) {
-            ok = false;
-            break;
-          }
-          if (reg.remaining < 0) {
-            ok = false;
-            break;
-          }
-          need += Math.max(0, reg.remaining);
-          if (need > cap) {
-            ok = false;
-            break;
-          }
-        }
-        if (!ok) continue;
-
-        if (need !== cap || need === 0) continue;
+      for (const { regs, need, candidateRowBits } of groups) {
+        if (need !== cap) continue;
 
         // Confinement: all viable remaining placements for chosen regions must be within chosen rows
-        for (const id of regs) {
-          const reg = regionInfo.get(id)!;
-          // If a region still needs stars but has zero candidate empties, this pattern cannot conclude anything safely
-          if (reg.remaining > 0 && reg.candidateEmpties.length === 0) {
-            ok = false;
-            break;
-          }
-          if (!confinedToRows(reg, rowsSet)) {
-            ok = false;
-            break;
-          }
-        }
-        if (!ok) continue;
+        if ((candidateRowBits & ~rowBits) !== 0) continue;
 
         // Cells in those rows belonging to other regions cannot be stars
         const forcedCrosses: Coords[] = [];
@@ -269,50 +261,17 @@ export function findOvercountingHint(state: PuzzleState): Hint | null {
   // --- Columns pattern (symmetric) ---
   for (let groupSize = 1; groupSize <= maxGroup; groupSize += 1) {
     const colCombos = combinations(colIndices, groupSize);
-    const regionCombos = combinations(regionIds, groupSize);
+    const groups = regionGroups(groupSize);
 
     for (const cols of colCombos) {
       const cap = cols.reduce((sum, c) => sum + Math.max(0, colInfos[c].remaining), 0);
       if (cap <= 0) continue;
 
-      const colsSet = new Set(cols);
-
-      for (const regs of regionCombos) {
-        let need = 0;
-        let ok = true;
-
-        for (const id of regs) {
-          const reg = regionInfo.get(id);
-          if (!reg) {
-            ok = false;
-            break;
-          }
-          if (reg.remaining < 0) {
-            ok = false;
-            break;
-          }
-          need += Math.max(0, reg.remaining);
-          if (need > cap) {
-            ok = false;
-            break;
-          }
-        }
-        if (!ok) continue;
-
-        if (need !== cap || need === 0) continue;
+      const colBits = unitBits(cols);
 
-        for (const id of regs) {
-          const reg = regionInfo.get(id)!;
-          if (reg.remaining > 0 && reg.candidateEmpties.length === 0) {
-            ok = false;
-            break;
-          }
-          if (!confinedToCols(reg, colsSet)) {
-            ok = false;
-            break;
-          }
-        }
-        if (!ok) continue;
+      for (const { regs, need, candidateColBits } of groups) {
+        if (need !== cap) continue;
+        if ((candidateColBits & ~colBits) !== 0) continue;
 
         const forcedCrosses: Coords[] = [];
         const regsSet = new Set(regs);
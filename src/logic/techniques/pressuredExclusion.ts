@@ -1,7 +1,7 @@
 import type { PuzzleState, Coords } from '../../types/puzzle';
 import type { Hint } from '../../types/hints';
 import type { TechniqueResult, Deduction, CellDeduction } from '../../types/deductions';
-import { neighbors8 } from '../helpers';
+import { neighbors8, formatRow, formatCol, idToLetter } from '../helpers';
 import { countSolutions } from '../search';
 
 let hintCounter = 0;
@@ -295,7 +295,7 @@ function simulateStarPlacement(
       return {
         breaksUnit: true,
         reason: violationType,
-        affectedUnit: `row ${row}`,
+        affectedUnit: formatRow(row),
         affectedUnitType: 'row',
         affectedUnitId: row,
       };
@@ -323,7 +323,7 @@ function simulateStarPlacement(
       return {
         breaksUnit: true,
         reason: violationType,
-        affectedUnit: `column ${col}`,
+        affectedUnit: formatCol(col),
         affectedUnitType: 'col',
         affectedUnitId: col,
       };
@@ -360,7 +360,7 @@ function simulateStarPlacement(
       return {
         breaksUnit: true,
         reason: violationType,
-        affectedUnit: `region ${regId}`,
+        affectedUnit: `region ${idToLetter(regId)}`,
         affectedUnitType: 'region',
         affectedUnitId: regId,
       };
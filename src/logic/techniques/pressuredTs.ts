@@ -19,12 +19,12 @@ function nextHintId() {
  * 
  * When a T-shaped region is under pressure from surrounding constraints
  * (crosses, adjacent stars, or 2×2 blocks), the constraint that the region
- * needs 2 stars combined with the spatial pressure can force specific
+ * needs its stars combined with the spatial pressure can force specific
  * star placements.
  * 
  * Key insight: The T-shape has a crossbar and a stem. When surrounding
  * constraints create pressure (limiting where stars can go), the need for
- * 2 stars in the region forces specific placements.
+ * all of the region's stars forces specific placements.
  */
 export function findPressuredTsHint(state: PuzzleState): Hint | null {
   const tShapes = findTShapes(state);
@@ -41,7 +41,7 @@ export function findPressuredTsHint(state: PuzzleState): Hint | null {
         kind: forcedCells[0].kind,
         technique: 'pressured-ts',
         resultCells: forcedCells.map((fc) => fc.cell),
-        explanation: `Region ${tShape.regionId} forms a T-shape. Surrounding constraints (crosses, adjacent stars, or 2×2 blocks) create pressure that limits where stars can be placed. Combined with the need for 2 stars in this region, specific placements are forced.`,
+        explanation: `Region ${tShape.regionId} forms a T-shape. Surrounding constraints (crosses, adjacent stars, or 2×2 blocks) create pressure that limits where stars can be placed. Combined with the need for ${state.def.starsPerUnit} star${state.def.starsPerUnit !== 1 ? 's' : ''} in this region, specific placements are forced.`,
         highlights: {
           regions: [tShape.regionId],
           cells: [...tShape.cells, ...forcedCells.map((fc) => fc.cell)],
@@ -61,7 +61,7 @@ export function findSaturationHint(state: PuzzleState): Hint | null {
   }
 
   // Regions
-  for (let regionId = 0; regionId <= 9; regionId += 1) {
+  for (let regionId = 0; regionId < size; regionId += 1) {
     const region = regionCells(state, regionId);
     if (!region.length) continue;
     const starCount = countStars(state, region);
@@ -129,7 +129,7 @@ export function findSaturationResult(state: PuzzleState): TechniqueResult {
     }
   }
 
-  for (let regionId = 1; regionId <= 10; regionId += 1) {
+  for (let regionId = 0; regionId < size; regionId += 1) {
     const region = regionCells(state, regionId);
     if (!region.length) continue;
     const starCount = countStars(state, region);
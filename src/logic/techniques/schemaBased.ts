@@ -12,7 +12,7 @@ import type { SchemaApplication } from '../schemas/types';
 import { findBestSchemaApplication, getAllSchemaApplications } from '../schemas/runtime';
 import { verifyAndBuildSchemaHint, verifyForcedCell } from '../schemas/verification/schemaHintVerifier';
 import { validateState } from '../validation';
-import { getSolveSignal } from '../../store/puzzleStore';
+import { getSolveSignal } from '../solveContext';
 // Ensure schemas are registered when this technique is loaded
 import { initSchemas } from '../schemas/index';
 initSchemas();
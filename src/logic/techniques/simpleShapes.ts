@@ -1,4 +1,4 @@
-import type { PuzzleState, Coords } from '../../types/puzzle';
+import type { PuzzleDef, PuzzleState, Coords } from '../../types/puzzle';
 import type { Hint } from '../../types/hints';
 import type { TechniqueResult, Deduction, AreaDeduction, CellDeduction } from '../../types/deductions';
 import { regionCells, findLShapes, findTShapes, neighbors8, getCell, countStars, emptyCells, idToLetter } from '../helpers';
@@ -11,9 +11,9 @@ function nextHintId() {
 }
 
 /**
- * Simple shapes – various tetrominoes and pentominoes in 10×10 2★:
+ * Simple shapes – various tetrominoes and pentominoes in 2★ puzzles:
  *
- * In a 10×10 2★ puzzle, certain simple region shapes allow us to deduce
+ * In a 2★ puzzle (of any size), certain simple region shapes allow us to deduce
  * forced crosses (and occasionally stars) using 2×2 and exclusion logic:
  *
  * 1. 1×4 / 4×1 strips: If a region consists of exactly four cells forming a
@@ -33,17 +33,23 @@ function nextHintId() {
  * This technique places those forced crosses as a hint; it does not guess the
  * exact star locations inside the shape.
  */
+/**
+ * The shape arguments rely on "both stars lie in the shape", so the rule only
+ * applies to 2★ puzzles. Board size does not matter.
+ */
+export function isSimpleShapesApplicable(def: PuzzleDef): boolean {
+  return def.starsPerUnit === 2;
+}
+
 export function findSimpleShapesHint(state: PuzzleState): Hint | null {
   const { size, starsPerUnit } = state.def;
 
-  // This rule is specific to 10×10 2★ puzzles.
-  if (size !== 10 || starsPerUnit !== 2) return null;
+  if (!isSimpleShapesApplicable(state.def)) return null;
 
-  const maxRegionId = 10;
   const forcedCrosses: Coords[] = [];
 
   // Check for 1×4 / 4×1 strips (4-cell regions)
-  for (let regionId = 1; regionId <= maxRegionId; regionId += 1) {
+  for (let regionId = 0; regionId < size; regionId += 1) {
     const cells = regionCells(state, regionId);
     if (cells.length !== 4) continue;
 
@@ -149,7 +155,7 @@ export function findSimpleShapesHint(state: PuzzleState): Hint | null {
         technique: 'simple-shapes',
         resultCells: unique,
         explanation:
-          `Region ${idToLetter(regionId)} is a 1×4 (or 4×1) strip in a 10×10 2★ puzzle, so both of its stars must lie in the strip. The rest of the row/column and the cells directly next to the strip cannot contain stars and are crosses.`,
+          `Region ${idToLetter(regionId)} is a 1×4 (or 4×1) strip in a 2★ puzzle, so both of its stars must lie in the strip. The rest of the row/column and the cells directly next to the strip cannot contain stars and are crosses.`,
         highlights: {
           regions: [regionId],
           cells: [...cells, ...unique],
@@ -340,7 +346,7 @@ export function findSimpleShapesHint(state: PuzzleState): Hint | null {
         technique: 'simple-shapes',
         resultCells: unique,
           explanation:
-            `Region ${idToLetter(lShape.regionId)} is an L-shape in a 10×10 2★ puzzle, so both of its stars must lie in the L-shape. Using 2×2 constraints and exclusion, certain cells adjacent to the L-shape cannot contain stars and are crosses.`,
+            `Region ${idToLetter(lShape.regionId)} is an L-shape in a 2★ puzzle, so both of its stars must lie in the L-shape. Using 2×2 constraints and exclusion, certain cells adjacent to the L-shape cannot contain stars and are crosses.`,
         highlights: {
           regions: [lShape.regionId],
           cells: [...lShape.cells, ...unique],
@@ -372,7 +378,7 @@ export function findSimpleShapesHint(state: PuzzleState): Hint | null {
         technique: 'simple-shapes',
         resultCells: unique,
           explanation:
-            `Region ${idToLetter(tShape.regionId)} is a T-shape in a 10×10 2★ puzzle, so both of its stars must lie in the T-shape. Using 2×2 constraints, certain cells adjacent to the T-shape cannot contain stars and are crosses.`,
+            `Region ${idToLetter(tShape.regionId)} is a T-shape in a 2★ puzzle, so both of its stars must lie in the T-shape. Using 2×2 constraints, certain cells adjacent to the T-shape cannot contain stars and are crosses.`,
         highlights: {
           regions: [tShape.regionId],
           cells: [...tShape.cells, ...unique],
@@ -382,7 +388,7 @@ export function findSimpleShapesHint(state: PuzzleState): Hint | null {
   }
 
   // Check for S-shapes (4-cell regions) - S-shaped tetromino (all rotations/flips)
-  for (let regionId = 1; regionId <= maxRegionId; regionId += 1) {
+  for (let regionId = 0; regionId < size; regionId += 1) {
     const cells = regionCells(state, regionId);
     if (cells.length !== 4) continue;
 
@@ -455,7 +461,7 @@ export function findSimpleShapesHint(state: PuzzleState): Hint | null {
             technique: 'simple-shapes',
             resultCells: unique,
               explanation:
-              `Region ${idToLetter(regionId)} is an S-shape in a 10×10 2★ puzzle, so both of its stars must lie in the S-shape. Using 2×2 constraints, certain cells adjacent to the S-shape cannot contain stars and are crosses.`,
+              `Region ${idToLetter(regionId)} is an S-shape in a 2★ puzzle, so both of its stars must lie in the S-shape. Using 2×2 constraints, certain cells adjacent to the S-shape cannot contain stars and are crosses.`,
             highlights: {
               regions: [regionId],
               cells: [...cells, ...unique],
@@ -468,7 +474,7 @@ export function findSimpleShapesHint(state: PuzzleState): Hint | null {
 
   // Check for other simple shapes (3-6 cells) using general 2×2 logic
   // This catches shapes like 3-cell lines, 5-cell pentominoes, etc.
-  for (let regionId = 1; regionId <= maxRegionId; regionId += 1) {
+  for (let regionId = 0; regionId < size; regionId += 1) {
     const cells = regionCells(state, regionId);
     // Skip if already handled (4-cell strips, L, T, S)
     if (cells.length === 4) {
@@ -529,7 +535,7 @@ export function findSimpleShapesHint(state: PuzzleState): Hint | null {
           technique: 'simple-shapes',
           resultCells: unique,
           explanation:
-            `Region ${idToLetter(regionId)} is a simple shape in a 10×10 2★ puzzle, so both of its stars must lie in the shape. Using 2×2 constraints, certain cells adjacent to the shape cannot contain stars and are crosses.`,
+            `Region ${idToLetter(regionId)} is a simple shape in a 2★ puzzle, so both of its stars must lie in the shape. Using 2×2 constraints, certain cells adjacent to the shape cannot contain stars and are crosses.`,
           highlights: {
             regions: [regionId],
             cells: [...cells, ...unique],
@@ -579,15 +585,13 @@ export function findSimpleShapesResult(state: PuzzleState): TechniqueResult {
   const { size, starsPerUnit } = state.def;
   const deductions: Deduction[] = [];
 
-  // This rule is specific to 10×10 2★ puzzles.
-  if (size !== 10 || starsPerUnit !== 2) {
+  if (!isSimpleShapesApplicable(state.def)) {
     return { type: 'none' };
   }
 
-  const maxRegionId = 10;
 
   // Check for 1×4 / 4×1 strips and other simple shapes
-  for (let regionId = 1; regionId <= maxRegionId; regionId += 1) {
+  for (let regionId = 0; regionId < size; regionId += 1) {
     const cells = regionCells(state, regionId);
     if (cells.length !== 4) continue;
 
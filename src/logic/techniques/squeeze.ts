@@ -239,7 +239,7 @@ export function findSqueezeHint(state: PuzzleState): Hint | null {
       const safeCells = canPlaceAllStarsSimultaneously(state, validPlacements, starsPerUnit);
       if (!safeCells) continue;
       
-      const explanation = `Row ${r + 1} needs ${rowRemaining} star(s). Due to crosses and 2×2 constraints, only ${validPlacements.length} cell(s) can contain stars, so all must be stars.`;
+      const explanation = `${formatRow(r)} needs ${rowRemaining} star(s). Due to crosses and 2×2 constraints, only ${validPlacements.length} cell(s) can contain stars, so all must be stars.`;
       
       return {
         id: nextHintId(),
@@ -18,11 +18,11 @@ function nextHintId() {
  * The M technique:
  * 
  * When a region forms an M-shape (two peaks with a valley between them),
- * the constraint that the region needs 2 stars combined with the spatial
+ * the constraint that the region needs its stars combined with the spatial
  * structure of the M can force specific star placements.
  * 
  * Key insight: In an M-shape, the two peaks are separated by a valley.
- * The adjacency and 2×2 constraints combined with the need for 2 stars
+ * The adjacency and 2×2 constraints combined with the need for its stars
  * in the region can force stars into specific positions.
  */
 export function findTheMHint(state: PuzzleState): Hint | null {
@@ -40,7 +40,7 @@ export function findTheMHint(state: PuzzleState): Hint | null {
         kind: forcedCells[0].kind,
         technique: 'the-m',
         resultCells: forcedCells.map((fc) => fc.cell),
-        explanation: `Region ${mShape.regionId} forms an M-shape with two peaks and a valley. The spatial constraints from needing 2 stars in this M-shaped region, combined with adjacency and 2×2 rules, force specific placements.`,
+        explanation: `Region ${mShape.regionId} forms an M-shape with two peaks and a valley. The spatial constraints from needing ${state.def.starsPerUnit} star${state.def.starsPerUnit !== 1 ? 's' : ''} in this M-shaped region, combined with adjacency and 2×2 rules, force specific placements.`,
         highlights: {
           regions: [mShape.regionId],
           cells: [...mShape.cells, ...forcedCells.map((fc) => fc.cell)],
@@ -0,0 +1,123 @@
+import type { CellState, Coords, PuzzleState } from '../../types/puzzle';
+import type { Hint } from '../../types/hints';
+import type { TechniqueResult } from '../../types/deductions';
+import {
+  applyBasicStep,
+  buildUnits,
+  findBasicStep,
+  findContradiction,
+  formatCell,
+  plural,
+  type Contradiction,
+  type PropagationUnit,
+} from '../basicPropagation';
+import { getTrialDepth } from '../solveContext';
+
+let hintCounter = 0;
+
+function nextHintId() {
+  hintCounter += 1;
+  return `trial-${hintCounter}`;
+}
+
+/** Propagation steps a trial may take before it is abandoned. */
+export const DEFAULT_TRIAL_DEPTH = 8;
+
+/**
+ * Trial:
+ *
+ * Last resort when nothing else applies. For each empty cell, assume it is a
+ * star and follow only the basic techniques (trivial marks, locked line,
+ * exact fill, two-by-two) one step at a time. If within `maxDepth` steps some
+ * row, column or region can no longer get its stars, the assumption was
+ * wrong and the cell is a cross (see basicPropagation.ts for the steps).
+ *
+ * The chain with the fewest steps wins, so the hint stays easy to replay by
+ * hand; `details` lists every step. A board that reaches a contradiction
+ * without any assumption gets no hint: every cell would seem to fail.
+ */
+
+interface TrialChain {
+  steps: string[];
+  contradiction: Contradiction;
+}
+
+/**
+ * Propagate from `cells`, changing them; returns the chain when it ends in a
+ * contradiction within `maxDepth` steps.
+ */
+function propagate(state: PuzzleState, units: PropagationUnit[], cells: CellState[][], maxDepth: number): TrialChain | null {
+  const steps: string[] = [];
+
+  for (;;) {
+    const contradiction = findContradiction(cells, units, state.def.starsPerUnit);
+    if (contradiction) return { steps, contradiction };
+    if (steps.length >= maxDepth) return null;
+
+    const step = findBasicStep(cells, units, state);
+    if (!step) return null;
+    applyBasicStep(cells, step);
+    steps.push(`${steps.length + 1}. ${step.text}`);
+  }
+}
+
+function tryStar(state: PuzzleState, units: PropagationUnit[], cell: Coords, maxDepth: number): TrialChain | null {
+  const cells = state.cells.map((row) => [...row]);
+  cells[cell.row][cell.col] = 'star';
+  return propagate(state, units, cells, maxDepth);
+}
+
+export function findTrialHint(state: PuzzleState, maxDepth = getTrialDepth() ?? DEFAULT_TRIAL_DEPTH): Hint | null {
+  const { size } = state.def;
+  const units = buildUnits(state);
+  if (propagate(state, units, state.cells.map((row) => [...row]), maxDepth)) return null;
+  let best: { cell: Coords; chain: TrialChain } | null = null;
+
+  const empties: Coords[] = [];
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      if (state.cells[r][c] === 'empty') empties.push({ row: r, col: c });
+    }
+  }
+
+  for (const cell of empties) {
+    // Only a strictly shorter chain can replace the best one
+    const depth = best ? best.chain.steps.length - 1 : maxDepth;
+    if (depth < 0) break;
+    const chain = tryStar(state, units, cell, depth);
+    if (chain) best = { cell, chain };
+  }
+
+  return best ? trialHint(best) : null;
+}
+
+function trialHint({ cell, chain }: { cell: Coords; chain: TrialChain }): Hint {
+  const { contradiction } = chain;
+  const after = chain.steps.length > 0 ? `after ${plural(chain.steps.length, 'basic step')}, ` : '';
+  return {
+    id: nextHintId(),
+    kind: 'place-cross',
+    technique: 'trial',
+    resultCells: [cell],
+    explanation:
+      `If ${formatCell(cell)} were a star, ${after}${contradiction.text}. ` +
+      `So ${formatCell(cell)} must be a cross.`,
+    highlights: {
+      ...contradiction.highlight,
+      cells: [cell, ...(contradiction.highlight.cells ?? [])],
+    },
+    details: [
+      `Assume ${formatCell(cell)} is a star.`,
+      ...chain.steps,
+      `Contradiction: ${contradiction.text}.`,
+    ],
+  };
+}
+
+/**
+ * Find result with deductions support
+ */
+export function findTrialResult(state: PuzzleState): TechniqueResult {
+  const hint = findTrialHint(state);
+  return hint ? { type: 'hint', hint } : { type: 'none' };
+}
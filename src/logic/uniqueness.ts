@@ -0,0 +1,60 @@
+import type { CellState, Coords, PuzzleDef } from '../types/puzzle';
+import { createEmptyPuzzleState } from '../types/puzzle';
+import { countSolutionsAsync } from './search';
+
+export type UniquenessStatus = 'none' | 'unique' | 'multiple' | 'unknown';
+
+/** Where two solutions disagree: the stars each one has and the other lacks. */
+export interface SolutionDiff {
+  first: Coords[];
+  second: Coords[];
+}
+
+export interface UniquenessResult {
+  /** 'unknown' when the search timed out or was cancelled before it could tell. */
+  status: UniquenessStatus;
+  /** Up to two solutions, in the order the search found them. */
+  solutions: CellState[][][];
+  /** Set for 'multiple': how the two example solutions differ. */
+  diff: SolutionDiff | null;
+}
+
+export interface UniquenessOptions {
+  /** Give up after this long (default: 10000ms). */
+  timeoutMs?: number;
+  signal?: AbortSignal;
+}
+
+export function diffSolutions(a: CellState[][], b: CellState[][]): SolutionDiff {
+  const diff: SolutionDiff = { first: [], second: [] };
+  a.forEach((row, r) => {
+    row.forEach((cell, c) => {
+      if (cell === b[r][c]) return;
+      if (cell === 'star') diff.first.push({ row: r, col: c });
+      else if (b[r][c] === 'star') diff.second.push({ row: r, col: c });
+    });
+  });
+  return diff;
+}
+
+/**
+ * Check whether a region layout has exactly one solution, searching from the
+ * empty board. Stops at the second solution, so layouts with many solutions
+ * are as quick to reject as unique ones are to confirm.
+ */
+export async function checkUniqueness(def: PuzzleDef, options: UniquenessOptions = {}): Promise<UniquenessResult> {
+  const { timeoutMs = 10000, signal } = options;
+  const solutions: CellState[][][] = [];
+  const result = await countSolutionsAsync(createEmptyPuzzleState(def), {
+    maxCount: 2,
+    timeoutMs,
+    signal,
+    onSolution: (cells) => solutions.push(cells),
+  });
+
+  if (solutions.length >= 2) {
+    return { status: 'multiple', solutions, diff: diffSolutions(solutions[0], solutions[1]) };
+  }
+  if (result.timedOut) return { status: 'unknown', solutions, diff: null };
+  return { status: solutions.length === 1 ? 'unique' : 'none', solutions, diff: null };
+}
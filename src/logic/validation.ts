@@ -1,5 +1,6 @@
-import type { PuzzleDef, PuzzleState } from '../types/puzzle';
-import { neighbors8, formatRow, formatCol, idToLetter } from './helpers';
+import type { Coords, PuzzleDef, PuzzleState } from '../types/puzzle';
+import { neighbors8, formatRow, formatCol, formatRegions, idToLetter } from './helpers';
+import { connectedArea } from './regionEditing';
 
 export function validateState(state: PuzzleState): string[] {
   const messages: string[] = [];
@@ -69,15 +70,17 @@ export function validateRegions(def: PuzzleDef): string[] {
   for (let r = 0; r < size; r += 1) {
     for (let c = 0; c < size; c += 1) {
       const id = regions[r][c];
-      if (!Number.isInteger(id) || id < 0 || id > 9) {
-        issues.push(`Cell (${r},${c}) has invalid region id ${id}; expected 0–9 (A–J).`);
+      if (!Number.isInteger(id) || id < 0 || id >= size) {
+        issues.push(
+          `Cell (${r},${c}) has invalid region id ${id}; expected 0–${size - 1} (A–${idToLetter(size - 1)}).`,
+        );
       } else {
         seenRegionIds.add(id);
       }
     }
   }
 
-  for (let id = 0; id <= 9; id += 1) {
+  for (let id = 0; id < size; id += 1) {
     if (!seenRegionIds.has(id)) {
       issues.push(`Region ${idToLetter(id)} does not appear anywhere on the board.`);
     }
@@ -86,10 +89,228 @@ export function validateRegions(def: PuzzleDef): string[] {
   return issues;
 }
 
+export type StructuralIssueKind = 'invalid-id' | 'region-count' | 'disconnected' | 'too-small' | 'infeasible';
+
+export interface StructuralIssue {
+  kind: StructuralIssueKind;
+  /** Errors make the puzzle malformed or unsolvable; a split region is legal, just unusual. */
+  severity: 'error' | 'warning';
+  message: string;
+  /** Cells to highlight (empty when there is nothing on the board to point at). */
+  cells: Coords[];
+  /** Set for issues about a single region. */
+  regionId?: number;
+}
+
+// Most stars that fit on `cells` without touching, exact by dynamic programming
+// over rows (a row's choice only interacts with the row above).
+function maxApartStars(cells: Coords[]): number {
+  const rowMasks = new Map<number, number>();
+  for (const { row, col } of cells) rowMasks.set(row, (rowMasks.get(row) ?? 0) | (1 << col));
+  const rows = [...rowMasks.keys()].sort((a, b) => a - b);
+
+  let best = new Map<number, number>([[0, 0]]);
+  let prevRow = -2;
+  for (const row of rows) {
+    const cellsMask = rowMasks.get(row)!;
+    const next = new Map<number, number>();
+    // Every subset of the row's cells with no two side by side
+    for (let mask = cellsMask; ; mask = (mask - 1) & cellsMask) {
+      if ((mask & (mask << 1)) === 0) {
+        const stars = popcount(mask);
+        let bestBefore = 0;
+        for (const [prev, count] of best) {
+          const touches = row === prevRow + 1 && (mask & (prev | (prev << 1) | (prev >> 1))) !== 0;
+          if (!touches && count > bestBefore) bestBefore = count;
+        }
+        next.set(mask, bestBefore + stars);
+      }
+      if (mask === 0) break;
+    }
+    best = next;
+    prevRow = row;
+  }
+  return Math.max(...best.values());
+}
+
+function popcount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m !== 0; m &= m - 1) count += 1;
+  return count;
+}
+
+// True when `count` stars fit on `cells` without touching. Row-major greedy
+// settles almost every region; only the ones it fails on get the exact count.
+function fitsApartStars(cells: Coords[], count: number): boolean {
+  const chosen: Coords[] = [];
+  for (const cell of cells) {
+    if (chosen.some((c) => Math.abs(c.row - cell.row) <= 1 && Math.abs(c.col - cell.col) <= 1)) continue;
+    chosen.push(cell);
+    if (chosen.length >= count) return true;
+  }
+  return false;
+}
+
+function stars(count: number): string {
+  return `${count} star${count === 1 ? '' : 's'}`;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
+
+// "Row 3" or "Rows 2–4" (columns alike).
+function formatLines(kind: 'row' | 'col', first: number, last: number): string {
+  if (first === last) return kind === 'row' ? formatRow(first) : formatCol(first);
+  return `${kind === 'row' ? 'Rows' : 'Columns'} ${first}–${last}`;
+}
+
+// Simple counting over bands of consecutive rows (or columns). Regions lying
+// entirely inside a band need more stars than it holds when they outnumber
+// its lines; a band whose lines meet fewer regions than it has lines cannot
+// get its stars. Only the narrowest failing bands are reported.
+function findCountingIssues(
+  def: PuzzleDef,
+  cellsById: Map<number, Coords[]>,
+  kind: 'row' | 'col',
+): StructuralIssue[] {
+  const { size, starsPerUnit } = def;
+  const lineOf = (cell: Coords) => (kind === 'row' ? cell.row : cell.col);
+  const ids = [...cellsById.keys()].sort((a, b) => a - b);
+  const issues: StructuralIssue[] = [];
+  const reported: Array<{ first: number; last: number; inside: boolean }> = [];
+  const containsReported = (first: number, last: number, inside: boolean) =>
+    reported.some((band) => band.inside === inside && band.first >= first && band.last <= last);
+
+  for (let length = 1; length <= size; length += 1) {
+    for (let first = 0; first + length <= size; first += 1) {
+      const last = first + length - 1;
+      const label = formatLines(kind, first, last);
+      const inBand = (cell: Coords) => lineOf(cell) >= first && lineOf(cell) <= last;
+      const inside = ids.filter((id) => cellsById.get(id)!.every(inBand));
+      const touching = ids.filter((id) => cellsById.get(id)!.some(inBand));
+
+      if (inside.length > length && !containsReported(first, last, true)) {
+        reported.push({ first, last, inside: true });
+        issues.push({
+          kind: 'infeasible',
+          severity: 'error',
+          message:
+            `${capitalize(formatRegions(inside))} lie entirely within ${label}, so they need ` +
+            `${stars(inside.length * starsPerUnit)} where only ${length * starsPerUnit} ${length * starsPerUnit === 1 ? 'fits' : 'fit'}.`,
+          cells: inside.flatMap((id) => cellsById.get(id)!),
+        });
+      }
+      if (touching.length < length && !containsReported(first, last, false)) {
+        reported.push({ first, last, inside: false });
+        const bandCells: Coords[] = [];
+        for (let line = first; line <= last; line += 1) {
+          for (let i = 0; i < size; i += 1) {
+            bandCells.push(kind === 'row' ? { row: line, col: i } : { row: i, col: line });
+          }
+        }
+        issues.push({
+          kind: 'infeasible',
+          severity: 'error',
+          message:
+            length === 1
+              ? `${label} only touches ${formatRegions(touching)}, so it gets at most ` +
+                `${stars(touching.length * starsPerUnit)} but needs ${length * starsPerUnit}.`
+              : `${label} only touch ${formatRegions(touching)}, so they get at most ` +
+                `${stars(touching.length * starsPerUnit)} but need ${length * starsPerUnit}.`,
+          cells: bandCells,
+        });
+      }
+    }
+  }
+  return issues;
+}
+
+/**
+ * Structural checks on a puzzle definition before solving: region ids out of
+ * range, a region count other than the board size, regions split into parts,
+ * regions without room for starsPerUnit non-touching stars, and layouts that
+ * simple row/column counting proves unsolvable. Issues carry the cells to
+ * highlight in the editor.
+ */
+export function validateStructure(def: PuzzleDef): StructuralIssue[] {
+  const { size, starsPerUnit, regions } = def;
+  const issues: StructuralIssue[] = [];
+  const cellsById = new Map<number, Coords[]>();
+
+  for (let r = 0; r < size; r += 1) {
+    for (let c = 0; c < size; c += 1) {
+      const id = regions[r][c];
+      if (!Number.isInteger(id) || id < 0 || id >= size) {
+        issues.push({
+          kind: 'invalid-id',
+          severity: 'error',
+          message: `Cell (${r}, ${c}) has invalid region id ${id}; expected 0–${size - 1} (A–${idToLetter(size - 1)}).`,
+          cells: [{ row: r, col: c }],
+        });
+        continue;
+      }
+      if (!cellsById.has(id)) cellsById.set(id, []);
+      cellsById.get(id)!.push({ row: r, col: c });
+    }
+  }
+
+  const missing = Array.from({ length: size }, (_, id) => id).filter((id) => !cellsById.has(id));
+  if (missing.length > 0) {
+    issues.push({
+      kind: 'region-count',
+      severity: 'error',
+      message:
+        `The board has ${cellsById.size} regions but a ${size}×${size} board needs ${size} ` +
+        `(missing: ${missing.map(idToLetter).join(', ')}).`,
+      cells: [],
+    });
+  }
+
+  for (const [id, cells] of [...cellsById].sort(([a], [b]) => a - b)) {
+    const letter = idToLetter(id);
+    const parts: Coords[][] = [];
+    const seen = new Set<string>();
+    for (const cell of cells) {
+      if (seen.has(`${cell.row},${cell.col}`)) continue;
+      const part = connectedArea(regions, cell);
+      for (const c of part) seen.add(`${c.row},${c.col}`);
+      parts.push(part);
+    }
+    if (parts.length > 1) {
+      // Point at the stray parts, not the main body of the region
+      const largest = parts.reduce((a, b) => (b.length > a.length ? b : a));
+      issues.push({
+        kind: 'disconnected',
+        severity: 'warning',
+        message: `Region ${letter} is split into ${parts.length} separate parts.`,
+        cells: parts.filter((part) => part !== largest).flat(),
+        regionId: id,
+      });
+    }
+    if (!fitsApartStars(cells, starsPerUnit)) {
+      const max = maxApartStars(cells);
+      if (max < starsPerUnit) {
+        issues.push({
+          kind: 'too-small',
+          severity: 'error',
+          message: `Region ${letter} has room for only ${max} non-touching star${max === 1 ? '' : 's'} but needs ${starsPerUnit}.`,
+          cells,
+          regionId: id,
+        });
+      }
+    }
+  }
+
+  // Counting is only meaningful once every cell belongs to one of the size regions
+  if (issues.some((issue) => issue.kind === 'invalid-id' || issue.kind === 'region-count')) return issues;
+  return [...issues, ...findCountingIssues(def, cellsById, 'row'), ...findCountingIssues(def, cellsById, 'col')];
+}
+
 export interface RuleViolations {
-  rows: Set<number>; // Rows with >2 stars or >8 x's
-  cols: Set<number>; // Columns with >2 stars or >8 x's
-  regions: Set<number>; // Regions with >2 stars
+  rows: Set<number>; // Rows with too many stars or too many x's to still fit their stars
+  cols: Set<number>; // Columns with too many stars or too many x's to still fit their stars
+  regions: Set<number>; // Regions with too many stars
   adjacentCells: Set<string>; // Cells with adjacent stars (as "row,col" strings)
 }
 
@@ -102,6 +323,7 @@ export function getRuleViolations(state: PuzzleState): RuleViolations {
   };
 
   const { size, starsPerUnit, regions } = state.def;
+  const maxCrosses = size - starsPerUnit;
 
   // Check rows and columns
   for (let r = 0; r < size; r += 1) {
@@ -111,7 +333,7 @@ export function getRuleViolations(state: PuzzleState): RuleViolations {
       if (state.cells[r][c] === 'star') starCount++;
       if (state.cells[r][c] === 'cross') crossCount++;
     }
-    if (starCount > starsPerUnit || crossCount > 8) {
+    if (starCount > starsPerUnit || crossCount > maxCrosses) {
       violations.rows.add(r);
     }
   }
@@ -123,7 +345,7 @@ export function getRuleViolations(state: PuzzleState): RuleViolations {
       if (state.cells[r][c] === 'star') starCount++;
       if (state.cells[r][c] === 'cross') crossCount++;
     }
-    if (starCount > starsPerUnit || crossCount > 8) {
+    if (starCount > starsPerUnit || crossCount > maxCrosses) {
       violations.cols.add(c);
     }
   }
@@ -206,7 +428,7 @@ export function isPuzzleComplete(state: PuzzleState): boolean {
       }
     }
   }
-  for (let id = 0; id <= 9; id += 1) {
+  for (let id = 0; id < size; id += 1) {
     if ((regionStarCounts.get(id) ?? 0) !== starsPerUnit) {
       return false;
     }
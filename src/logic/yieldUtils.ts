@@ -5,13 +5,14 @@
 
 /**
  * Yield control to the browser to prevent UI freezing.
- * Uses requestAnimationFrame when available, falls back to setTimeout.
+ * Uses requestAnimationFrame on a page, falls back to setTimeout elsewhere
+ * (workers, Node), where there is nothing to paint.
  * 
  * This function schedules two animation frames to ensure the browser
  * has time to process events and update the UI before continuing.
  */
 export function yieldToBrowser(): Promise<void> {
-  if (typeof requestAnimationFrame === 'function') {
+  if (typeof requestAnimationFrame === 'function' && typeof document !== 'undefined') {
     return new Promise(resolve => {
       requestAnimationFrame(() => requestAnimationFrame(() => resolve()));
     });
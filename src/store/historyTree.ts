@@ -0,0 +1,187 @@
+import type { PuzzleState } from '../types/puzzle';
+import type { HistoryBranch, HistoryNode, HistoryStep, HistoryTree } from '../types/history';
+
+/**
+ * Operations on the undo history tree. They change the tree in place, which
+ * suits the store's reactive copy. Boards are kept as given, so pass a copy
+ * of the live board.
+ */
+
+export const MAIN_BRANCH_NAME = 'Main';
+
+export function createHistoryTree(state: PuzzleState, step: HistoryStep): HistoryTree {
+  return {
+    nodes: [{ id: 0, parent: null, state, step }],
+    branches: [{ id: 0, name: MAIN_BRANCH_NAME, tip: 0 }],
+    branch: 0,
+    current: 0,
+    nextNodeId: 1,
+  };
+}
+
+/** A one-branch tree from a linear history, e.g. progress saved before branches. */
+export function linearHistoryTree(states: PuzzleState[], steps: HistoryStep[], index: number): HistoryTree {
+  const tree = createHistoryTree(states[0], steps[0]);
+  for (let i = 1; i < states.length; i += 1) addHistoryNode(tree, states[i], steps[i]);
+  const line = historyLine(tree);
+  tree.current = line[Math.min(Math.max(index, 0), line.length - 1)].id;
+  return tree;
+}
+
+export function historyNode(tree: HistoryTree, id: number): HistoryNode | undefined {
+  return tree.nodes.find((node) => node.id === id);
+}
+
+export function currentHistoryNode(tree: HistoryTree): HistoryNode {
+  return historyNode(tree, tree.current)!;
+}
+
+export function currentHistoryBranch(tree: HistoryTree): HistoryBranch {
+  return tree.branches.find((branch) => branch.id === tree.branch)!;
+}
+
+/** The nodes from the first board to the tip of a branch, the current one by default. */
+export function historyLine(tree: HistoryTree, branchId = tree.branch): HistoryNode[] {
+  const branch = tree.branches.find((item) => item.id === branchId);
+  if (!branch) return [];
+  const byId = new Map(tree.nodes.map((node) => [node.id, node]));
+  const line: HistoryNode[] = [];
+  const seen = new Set<number>();
+  // Stored trees are checked for loops, but a loop must not hang the app either
+  let node = byId.get(branch.tip);
+  while (node && !seen.has(node.id)) {
+    seen.add(node.id);
+    line.push(node);
+    node = node.parent === null ? undefined : byId.get(node.parent);
+  }
+  return line.reverse();
+}
+
+function newBranchName(tree: HistoryTree): string {
+  const names = new Set(tree.branches.map((branch) => branch.name));
+  let number = tree.branches.length + 1;
+  while (names.has(`Branch ${number}`)) number += 1;
+  return `Branch ${number}`;
+}
+
+/**
+ * Add `state` as a child of the current node and move to it. At the tip of
+ * the current branch the branch grows; anywhere else a new branch starts,
+ * so the undone steps stay on the old one.
+ */
+export function addHistoryNode(tree: HistoryTree, state: PuzzleState, step: HistoryStep): HistoryNode {
+  const node: HistoryNode = { id: tree.nextNodeId, parent: tree.current, state, step };
+  tree.nextNodeId += 1;
+  tree.nodes.push(node);
+  const branch = currentHistoryBranch(tree);
+  if (branch.tip === tree.current) {
+    branch.tip = node.id;
+  } else {
+    const id = Math.max(...tree.branches.map((item) => item.id)) + 1;
+    tree.branches.push({ id, name: newBranchName(tree), tip: node.id });
+    tree.branch = id;
+  }
+  tree.current = node.id;
+  return node;
+}
+
+/** Move to position `index` of the current branch's line. Returns false when out of range. */
+export function moveInHistoryLine(tree: HistoryTree, index: number): boolean {
+  const node = historyLine(tree)[index];
+  if (!node) return false;
+  tree.current = node.id;
+  return true;
+}
+
+/** Make `id` the current branch and move to its last board. */
+export function switchHistoryBranch(tree: HistoryTree, id: number): boolean {
+  const branch = tree.branches.find((item) => item.id === id);
+  if (!branch) return false;
+  tree.branch = id;
+  tree.current = branch.tip;
+  return true;
+}
+
+export function renameHistoryBranch(tree: HistoryTree, id: number, name: string): boolean {
+  const branch = tree.branches.find((item) => item.id === id);
+  if (!branch || !name.trim()) return false;
+  branch.name = name.trim();
+  return true;
+}
+
+/**
+ * Delete a branch and the boards no other branch reaches. The last branch
+ * cannot be deleted; deleting the current one moves to the last board of
+ * the oldest remaining branch.
+ */
+export function removeHistoryBranch(tree: HistoryTree, id: number): boolean {
+  const index = tree.branches.findIndex((branch) => branch.id === id);
+  if (index === -1 || tree.branches.length < 2) return false;
+  tree.branches.splice(index, 1);
+  const kept = new Set(tree.branches.flatMap((branch) => historyLine(tree, branch.id).map((node) => node.id)));
+  tree.nodes = tree.nodes.filter((node) => kept.has(node.id));
+  if (tree.branch === id) switchHistoryBranch(tree, tree.branches[0].id);
+  return true;
+}
+
+/**
+ * How many boards at the start of a branch's line it shares with branches
+ * started before it; 0 for the oldest branch.
+ */
+export function branchForkLength(tree: HistoryTree, id: number): number {
+  const index = tree.branches.findIndex((branch) => branch.id === id);
+  const older = new Set(
+    tree.branches.slice(0, Math.max(index, 0)).flatMap((branch) => historyLine(tree, branch.id).map((node) => node.id)),
+  );
+  const line = historyLine(tree, id);
+  let shared = 0;
+  while (shared < line.length && older.has(line[shared].id)) shared += 1;
+  return shared;
+}
+
+function hasChildren(tree: HistoryTree, id: number): boolean {
+  return tree.nodes.some((node) => node.parent === id);
+}
+
+// Drop the first board when it leads to a single board and is neither on the board nor a branch's end.
+function dropFirstBoard(tree: HistoryTree): boolean {
+  const root = tree.nodes.find((node) => node.parent === null)!;
+  const children = tree.nodes.filter((node) => node.parent === root.id);
+  if (children.length !== 1 || tree.current === root.id || tree.branches.some((branch) => branch.tip === root.id)) {
+    return false;
+  }
+  children[0].parent = null;
+  tree.nodes = tree.nodes.filter((node) => node.id !== root.id);
+  return true;
+}
+
+/**
+ * Drop the last board of the oldest branch other than the current one, or
+ * else a redo board of the current branch. A branch left with no boards of
+ * its own is removed.
+ */
+function dropBranchEnd(tree: HistoryTree): boolean {
+  const branches = [...tree.branches.filter((branch) => branch.id !== tree.branch), currentHistoryBranch(tree)];
+  for (const branch of branches) {
+    const tip = historyNode(tree, branch.tip);
+    if (!tip || tip.parent === null || tip.id === tree.current || hasChildren(tree, tip.id)) continue;
+    tree.nodes = tree.nodes.filter((node) => node.id !== tip.id);
+    branch.tip = tip.parent;
+    if (branch.id !== tree.branch && hasChildren(tree, branch.tip)) {
+      tree.branches = tree.branches.filter((item) => item.id !== branch.id);
+    }
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Drop boards while there are more than `maxNodes`: the oldest ones while
+ * the history has not branched before them, otherwise the newest boards of
+ * the older branches and last the redo boards of the current branch.
+ */
+export function trimHistory(tree: HistoryTree, maxNodes: number): void {
+  while (tree.nodes.length > maxNodes) {
+    if (!dropFirstBoard(tree) && !dropBranchEnd(tree)) return;
+  }
+}
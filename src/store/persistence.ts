@@ -0,0 +1,174 @@
+/**
+ * Versioned records in localStorage.
+ *
+ * Each record is saved as `{ version, data }` under its key. On load, data
+ * from an older version is passed through the schema's migrations one
+ * version at a time, then checked by the schema's validator. Records that do
+ * not parse, come from a newer version, or fail validation are not thrown
+ * away: their raw text is moved to a recovery list that the app shows until
+ * the user dismisses it.
+ */
+
+export type KeyValueStorage = Pick<Storage, 'getItem' | 'setItem' | 'removeItem'>;
+
+export interface RecordSchema<T> {
+  key: string;
+  /** Human-readable name for the recovery list, e.g. "Current puzzle". */
+  label: string;
+  version: number;
+  /**
+   * A key the data was kept under before records were versioned. Its raw
+   * JSON counts as version 1 and is moved to `key` once it loads.
+   */
+  legacyKey?: string;
+  /** `migrations[n]` turns version n data into version n + 1. */
+  migrations: Record<number, (data: unknown) => unknown>;
+  /** Problems with the data, each naming where it is; empty when it is a valid T. */
+  validate(data: unknown): string[];
+}
+
+export interface RecoveryItem {
+  key: string;
+  label: string;
+  /** The stored text, exactly as found. */
+  raw: string;
+  errors: string[];
+  failedAt: number;
+}
+
+export type LoadResult<T> =
+  | { status: 'loaded'; value: T; migratedFrom: number | null }
+  | { status: 'missing' }
+  | { status: 'failed'; item: RecoveryItem };
+
+export const RECOVERY_KEY = 'star-battle-recovery';
+
+// Keep the list from growing without bound if the same record keeps failing.
+const MAX_RECOVERY_ITEMS = 20;
+
+interface Envelope {
+  version: number;
+  data: unknown;
+}
+
+function isEnvelope(value: unknown): value is Envelope {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    Number.isInteger((value as Envelope).version) &&
+    'data' in value
+  );
+}
+
+function decode<T>(schema: RecordSchema<T>, raw: string, legacy: boolean): { data: unknown; version: number } | string[] {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    return [`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`];
+  }
+  if (legacy) return { data: parsed, version: 1 };
+  if (!isEnvelope(parsed)) return ['Missing the { version, data } wrapper.'];
+  if (parsed.version > schema.version) {
+    return [`Saved by a newer version of the app (format ${parsed.version}); this one reads up to format ${schema.version}.`];
+  }
+  if (parsed.version < 1) return [`Unknown format ${parsed.version}.`];
+  return { data: parsed.data, version: parsed.version };
+}
+
+function migrate<T>(schema: RecordSchema<T>, data: unknown, from: number): unknown {
+  let current = data;
+  for (let version = from; version < schema.version; version += 1) {
+    const step = schema.migrations[version];
+    if (!step) throw new Error(`No migration from format ${version} to ${version + 1}.`);
+    current = step(current);
+  }
+  return current;
+}
+
+export function loadRecoveryItems(storage: KeyValueStorage): RecoveryItem[] {
+  try {
+    const parsed: unknown = JSON.parse(storage.getItem(RECOVERY_KEY) ?? '[]');
+    return Array.isArray(parsed) ? (parsed as RecoveryItem[]) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveRecoveryItems(storage: KeyValueStorage, items: RecoveryItem[]): void {
+  try {
+    if (items.length === 0) storage.removeItem(RECOVERY_KEY);
+    else storage.setItem(RECOVERY_KEY, JSON.stringify(items.slice(-MAX_RECOVERY_ITEMS)));
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/**
+ * Load, migrate and validate a record. A failed record is appended to the
+ * recovery list and removed from its key, so the next save starts clean.
+ * A legacy record that loads is rewritten under the versioned key.
+ */
+export function loadRecord<T>(schema: RecordSchema<T>, storage: KeyValueStorage): LoadResult<T> {
+  let raw: string | null;
+  let legacy = false;
+  try {
+    raw = storage.getItem(schema.key);
+    if (raw === null && schema.legacyKey) {
+      raw = storage.getItem(schema.legacyKey);
+      legacy = raw !== null;
+    }
+  } catch {
+    return { status: 'missing' };
+  }
+  if (raw === null) return { status: 'missing' };
+  const sourceKey = legacy ? schema.legacyKey! : schema.key;
+
+  const decoded = decode(schema, raw, legacy);
+  let errors: string[];
+  let value: unknown = null;
+  let version = schema.version;
+  if (Array.isArray(decoded)) {
+    errors = decoded;
+  } else {
+    version = decoded.version;
+    try {
+      value = migrate(schema, decoded.data, decoded.version);
+      errors = schema.validate(value);
+    } catch (error) {
+      errors = [`Migration failed: ${error instanceof Error ? error.message : String(error)}`];
+    }
+  }
+
+  if (errors.length > 0) {
+    const item: RecoveryItem = { key: sourceKey, label: schema.label, raw, errors, failedAt: Date.now() };
+    saveRecoveryItems(storage, [...loadRecoveryItems(storage), item]);
+    try {
+      storage.removeItem(sourceKey);
+    } catch {
+      // ignore storage errors
+    }
+    return { status: 'failed', item };
+  }
+
+  const migratedFrom = version < schema.version ? version : null;
+  if (legacy) {
+    saveRecord(schema, value as T, storage);
+    try {
+      storage.removeItem(schema.legacyKey!);
+    } catch {
+      // ignore storage errors
+    }
+  } else if (migratedFrom !== null) {
+    saveRecord(schema, value as T, storage);
+  }
+  return { status: 'loaded', value: value as T, migratedFrom };
+}
+
+export function saveRecord<T>(schema: RecordSchema<T>, value: T, storage: KeyValueStorage): void {
+  try {
+    storage.setItem(schema.key, JSON.stringify({ version: schema.version, data: value }));
+  } catch {
+    // ignore storage errors
+  }
+}
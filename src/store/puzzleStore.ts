@@ -2,12 +2,62 @@ import { reactive } from 'vue';
 import type { CellState, Coords, PuzzleState } from '../types/puzzle';
 import type { Deduction } from '../types/deductions';
 import type { TechniqueId } from '../types/hints';
-import { createEmptyPuzzleDef, createEmptyPuzzleState, DEFAULT_STARS_PER_UNIT } from '../types/puzzle';
+import {
+  createEmptyPuzzleDef,
+  createEmptyPuzzleState,
+  DEFAULT_STARS_PER_UNIT,
+} from '../types/puzzle';
 import type { Hint } from '../types/hints';
+import type { HistoryHint, HistoryStep, HistoryTree } from '../types/history';
+import { idToLetter } from '../logic/helpers';
+import { techniqueNameById } from '../logic/techniques';
 import { clearVerificationCache } from '../logic/schemas/verification/verificationCache';
+import { solverClient } from '../workers/solverClient';
+import { DEFAULT_TRIAL_DEPTH } from '../logic/techniques/trial';
+import { floodFillRegion, swapRegionIds } from '../logic/regionEditing';
+import { isPuzzleComplete } from '../logic/validation';
+import {
+  createPuzzleLibrary,
+  type LibraryEntry,
+  type LibraryProgress,
+  type NewLibraryEntry,
+} from '../library/puzzleLibrary';
+import { createDefaultBackend } from '../library/libraryBackend';
+import { builtinLibraryEntries } from '../library/builtinPuzzles';
+import { collectionPuzzleToEntry, readCollection } from '../library/puzzleCollection';
+import {
+  loadRecord,
+  loadRecoveryItems,
+  saveRecord,
+  saveRecoveryItems,
+  type RecordSchema,
+  type RecoveryItem,
+} from './persistence';
+import {
+  historyRecord,
+  historyTreeErrors,
+  puzzleRecord,
+  uiRecord,
+  type StoredPuzzle,
+  type StoredUIState,
+} from './storedSchemas';
+import {
+  addHistoryNode,
+  createHistoryTree,
+  currentHistoryNode,
+  historyLine,
+  linearHistoryTree,
+  moveInHistoryLine,
+  removeHistoryBranch,
+  renameHistoryBranch,
+  switchHistoryBranch,
+  trimHistory,
+} from './historyTree';
 
 export type Mode = 'editor' | 'play';
 export type SelectionMode = 'region' | 'star' | 'cross' | 'erase';
+// Editor tools: paint cells (click or drag), fill a connected area, or swap two region ids.
+export type EditorTool = 'paint' | 'fill' | 'swap';
 
 export interface TechniqueTest {
   technique: string;
@@ -34,13 +84,18 @@ export type RegionTheme = 'default' | 'pastel' | 'vibrant' | 'monochrome' | 'oce
 interface StoreState {
   mode: Mode;
   selectionMode: SelectionMode;
+  editorTool: EditorTool;
   selectedRegionId: number;
   puzzle: PuzzleState;
   currentHint: Hint | null;
   issues: string[];
   showRowColNumbers: boolean;
   showAreaLabels: boolean;
+  // Every board since the puzzle was opened, with named branches.
+  historyTree: HistoryTree;
+  // The current branch's line of the tree, first board first, and what produced each entry.
   history: PuzzleState[];
+  historySteps: HistoryStep[];
   historyIndex: number;
   logEntries: LogEntry[];
   preservedLogEntries: LogEntry[];
@@ -51,75 +106,57 @@ interface StoreState {
   isThinking: boolean;
   currentTechnique: string | null;
   disabledTechniques: TechniqueId[];
+  // Step limit for the trial technique.
+  trialDepth: number;
   filteredDeductions: Deduction[];
-  // Cooperative cancellation for long-running solver work (hint / schema / trySolve).
-  solveAbortController: AbortController | null;
+  // Incremented by every solver run (hint / trySolve); older runs stop at their next check.
+  solveRunId: number;
+  // Set by Stop for the current run.
+  solveStopRequested: boolean;
   // True while "Try solve" loop is running (even between hint searches).
   isAutoSolving: boolean;
+  // Library entry the board was opened from; play progress is saved back to it.
+  libraryEntryId: string | null;
+  // Incremented after every library write so views can reload the list.
+  libraryRevision: number;
+  // Saved data that could not be loaded, kept for the user to copy or dismiss.
+  recoveryItems: RecoveryItem[];
 }
 
-const STORAGE_KEY = 'star-battle-10x10-v1';
-const UI_STORAGE_KEY = 'star-battle-10x10-ui-v1';
+const LIBRARY_SEEDED_KEY = 'star-battle-library-seeded-v1';
 
-interface StoredUIState {
-  mode?: Mode;
-  showRowColNumbers?: boolean;
-  showAreaLabels?: boolean;
-  showLog?: boolean;
-  regionTheme?: RegionTheme;
-  disabledTechniques?: TechniqueId[];
-  showDebugLog?: boolean;
+function loadStored<T>(schema: RecordSchema<T>): T | null {
+  if (typeof window === 'undefined') return null;
+  const result = loadRecord(schema, window.localStorage);
+  return result.status === 'loaded' ? result.value : null;
 }
 
-function loadInitialPuzzle(): PuzzleState {
-  if (typeof window === 'undefined') {
-    return createEmptyPuzzleState(createEmptyPuzzleDef());
-  }
-  try {
-    const raw = window.localStorage.getItem(STORAGE_KEY);
-    if (!raw) return createEmptyPuzzleState(createEmptyPuzzleDef());
-    const parsed = JSON.parse(raw) as { puzzle?: PuzzleState };
-    if (!parsed?.puzzle) return createEmptyPuzzleState(createEmptyPuzzleDef());
-    return parsed.puzzle;
-  } catch {
-    return createEmptyPuzzleState(createEmptyPuzzleDef());
-  }
+function loadInitialPuzzle(): StoredPuzzle {
+  return loadStored(puzzleRecord) ?? { puzzle: createEmptyPuzzleState(createEmptyPuzzleDef()), libraryEntryId: null };
 }
 
 function loadUIState(): StoredUIState {
-  if (typeof window === 'undefined') {
-    return {};
-  }
-  try {
-    const raw = window.localStorage.getItem(UI_STORAGE_KEY);
-    if (!raw) return {};
-    return JSON.parse(raw) as StoredUIState;
-  } catch {
-    return {};
-  }
+  return loadStored(uiRecord) ?? {};
+}
+
+// The saved history, if it ends at the saved board.
+function loadInitialHistory(puzzle: PuzzleState): HistoryTree {
+  const tree = loadStored(historyRecord);
+  if (tree && JSON.stringify(currentHistoryNode(tree).state) === JSON.stringify(puzzle)) return tree;
+  return createHistoryTree(deepClonePuzzleState(puzzle), startStep());
 }
 
 function savePuzzleToStorage(puzzle: PuzzleState) {
-  if (typeof window === 'undefined') return;
-  try {
-    window.localStorage.setItem(
-      STORAGE_KEY,
-      JSON.stringify({
-        puzzle,
-      }),
-    );
-  } catch {
-    // ignore storage errors
+  if (typeof window !== 'undefined') {
+    saveRecord(puzzleRecord, { puzzle, libraryEntryId: store.libraryEntryId }, window.localStorage);
+    saveRecord(historyRecord, store.historyTree, window.localStorage);
   }
+  scheduleLibrarySave();
 }
 
 function saveUIState(state: StoredUIState) {
   if (typeof window === 'undefined') return;
-  try {
-    window.localStorage.setItem(UI_STORAGE_KEY, JSON.stringify(state));
-  } catch {
-    // ignore storage errors
-  }
+  saveRecord(uiRecord, state, window.localStorage);
 }
 
 function currentUIState(): StoredUIState {
@@ -130,6 +167,7 @@ function currentUIState(): StoredUIState {
     showLog: store.showLog,
     regionTheme: store.regionTheme,
     disabledTechniques: store.disabledTechniques,
+    trialDepth: store.trialDepth,
     showDebugLog: store.showDebugLog,
   };
 }
@@ -139,6 +177,10 @@ function persistUIState(overrides?: Partial<StoredUIState>) {
   saveUIState({ ...base, ...overrides });
 }
 
+function startStep(): HistoryStep {
+  return { label: 'Start', hint: null };
+}
+
 function deepClonePuzzleState(state: PuzzleState): PuzzleState {
   return {
     def: {
@@ -150,19 +192,25 @@ function deepClonePuzzleState(state: PuzzleState): PuzzleState {
   };
 }
 
-const initialPuzzle = loadInitialPuzzle();
+const { puzzle: initialPuzzle, libraryEntryId: initialLibraryEntryId } = loadInitialPuzzle();
+const initialHistory = loadInitialHistory(initialPuzzle);
 const uiState = loadUIState();
+// After the loads above, so records that failed just now are included
+const initialRecoveryItems = typeof window !== 'undefined' ? loadRecoveryItems(window.localStorage) : [];
 
 export const store = reactive<StoreState>({
   mode: uiState.mode || 'editor',
   selectionMode: 'region',
+  editorTool: 'paint',
   selectedRegionId: 1,
   puzzle: initialPuzzle,
   currentHint: null,
   issues: [],
   showRowColNumbers: uiState.showRowColNumbers ?? false,
   showAreaLabels: uiState.showAreaLabels ?? false,
-  history: [deepClonePuzzleState(initialPuzzle)],
+  historyTree: initialHistory,
+  history: [],
+  historySteps: [],
   historyIndex: 0,
   logEntries: [],
   preservedLogEntries: [],
@@ -173,44 +221,39 @@ export const store = reactive<StoreState>({
   isThinking: false,
   currentTechnique: null,
   disabledTechniques: uiState.disabledTechniques || [],
+  trialDepth: uiState.trialDepth ?? DEFAULT_TRIAL_DEPTH,
   filteredDeductions: [],
-  solveAbortController: null,
+  solveRunId: 0,
+  solveStopRequested: false,
   isAutoSolving: false,
+  libraryEntryId: initialLibraryEntryId,
+  libraryRevision: 0,
+  recoveryItems: initialRecoveryItems,
 });
+syncHistoryLine();
 
 /**
- * Start a new cooperative-cancellation scope for solver work.
- * Aborts any previous in-flight work.
+ * Start a new solver run, cancelling any hint search still in the worker.
+ * Returns the run id to check with isSolveRunStopped().
  */
-export function beginSolveRun(): AbortSignal {
-  // Abort any previous run first (best effort).
-  try {
-    store.solveAbortController?.abort();
-  } catch {
-    // ignore
-  }
-
-  // Create a new controller for this run.
-  store.solveAbortController = new AbortController();
-  return store.solveAbortController.signal;
+export function beginSolveRun(): number {
+  solverClient.cancel();
+  store.solveRunId += 1;
+  store.solveStopRequested = false;
+  return store.solveRunId;
 }
 
 /**
- * Request the currently running solver work to stop as soon as it reaches a safe checkpoint.
+ * Stop the current solver run: the worker search is cancelled and loops such
+ * as trySolve end at their next check.
  */
 export function stopSolveRun(): void {
-  try {
-    store.solveAbortController?.abort();
-  } catch {
-    // ignore
-  }
+  store.solveStopRequested = true;
+  solverClient.cancel();
 }
 
-/**
- * Access the active solve signal (if any).
- */
-export function getSolveSignal(): AbortSignal | null {
-  return store.solveAbortController?.signal ?? null;
+export function isSolveRunStopped(runId: number): boolean {
+  return store.solveStopRequested || store.solveRunId !== runId;
 }
 
 // Initialize theme on load
@@ -218,6 +261,14 @@ if (typeof document !== 'undefined') {
   document.documentElement.setAttribute('data-region-theme', store.regionTheme);
 }
 
+/** Forget a saved record that could not be loaded. */
+export function dismissRecoveryItem(item: RecoveryItem) {
+  store.recoveryItems = store.recoveryItems.filter(
+    (other) => other.key !== item.key || other.failedAt !== item.failedAt,
+  );
+  if (typeof window !== 'undefined') saveRecoveryItems(window.localStorage, store.recoveryItems);
+}
+
 export function addLogEntry(entry: LogEntry) {
   store.logEntries.push(entry);
 }
@@ -260,6 +311,10 @@ export function setSelectionMode(mode: SelectionMode) {
   store.selectionMode = mode;
 }
 
+export function setEditorTool(tool: EditorTool) {
+  store.editorTool = tool;
+}
+
 export function setSelectedRegion(id: number) {
   store.selectedRegionId = id;
 }
@@ -304,41 +359,75 @@ export function isTechniqueEnabled(technique: TechniqueId): boolean {
   return !store.disabledTechniques.includes(technique);
 }
 
+export function setTrialDepth(depth: number) {
+  if (!Number.isInteger(depth) || depth < 1 || depth === store.trialDepth) return;
+  store.trialDepth = depth;
+  persistUIState();
+}
+
 const MAX_HISTORY_SIZE = 100;
 
-function pushToHistory() {
-  // Remove any future history if we're not at the end
-  if (store.historyIndex < store.history.length - 1) {
-    store.history = store.history.slice(0, store.historyIndex + 1);
-  }
-  
-  // Add new state to history
-  store.history.push(deepClonePuzzleState(store.puzzle));
-  store.historyIndex = store.history.length - 1;
-  
-  // Limit history size
-  if (store.history.length > MAX_HISTORY_SIZE) {
-    store.history.shift();
-    store.historyIndex--;
-  }
+function historyHint(hint: Hint): HistoryHint {
+  const { kind, technique, resultCells, explanation, highlights } = hint;
+  return JSON.parse(JSON.stringify({ kind, technique, resultCells, explanation, highlights })) as HistoryHint;
+}
+
+function syncHistoryLine() {
+  const line = historyLine(store.historyTree);
+  store.history = line.map((node) => node.state);
+  store.historySteps = line.map((node) => node.step);
+  store.historyIndex = line.findIndex((node) => node.id === store.historyTree.current);
+}
+
+/**
+ * Record the board, just changed by `label`, as the newest history entry.
+ * After an undo this starts a new branch; the undone steps stay on the old one.
+ */
+function recordHistory(label: string, hint: Hint | null = null) {
+  const step = { label, hint: hint ? historyHint(hint) : null };
+  addHistoryNode(store.historyTree, deepClonePuzzleState(store.puzzle), step);
+  trimHistory(store.historyTree, MAX_HISTORY_SIZE);
+  syncHistoryLine();
+}
+
+// Put the current history node on the board. A pending hint was for the board it replaces.
+function showHistoryNode() {
+  syncHistoryLine();
+  store.puzzle = deepClonePuzzleState(currentHistoryNode(store.historyTree).state);
+  store.currentHint = null;
+  clearVerificationCache();
+  savePuzzleToStorage(store.puzzle);
+}
+
+/**
+ * Show the board as it was after entry `index` of the current branch; undo
+ * and redo step by one entry, the timeline jumps anywhere.
+ */
+export function jumpToHistory(index: number) {
+  if (!Number.isInteger(index) || index === store.historyIndex) return;
+  if (moveInHistoryLine(store.historyTree, index)) showHistoryNode();
 }
 
 export function undo() {
-  if (store.historyIndex > 0) {
-    store.historyIndex--;
-    store.puzzle = deepClonePuzzleState(store.history[store.historyIndex]);
-    clearVerificationCache();
-    savePuzzleToStorage(store.puzzle);
-  }
+  if (canUndo()) jumpToHistory(store.historyIndex - 1);
 }
 
 export function redo() {
-  if (store.historyIndex < store.history.length - 1) {
-    store.historyIndex++;
-    store.puzzle = deepClonePuzzleState(store.history[store.historyIndex]);
-    clearVerificationCache();
-    savePuzzleToStorage(store.puzzle);
-  }
+  if (canRedo()) jumpToHistory(store.historyIndex + 1);
+}
+
+/** Continue on another branch of the history, from its last board. */
+export function switchBranch(id: number) {
+  if (id !== store.historyTree.branch && switchHistoryBranch(store.historyTree, id)) showHistoryNode();
+}
+
+export function renameBranch(id: number, name: string) {
+  if (renameHistoryBranch(store.historyTree, id, name)) savePuzzleToStorage(store.puzzle);
+}
+
+/** Delete a branch's own boards; the last branch stays. */
+export function removeBranch(id: number) {
+  if (removeHistoryBranch(store.historyTree, id)) showHistoryNode();
 }
 
 export function canUndo(): boolean {
@@ -349,9 +438,50 @@ export function canRedo(): boolean {
   return store.historyIndex < store.history.length - 1;
 }
 
+// Whether the current paint stroke has saved its undo step yet.
+let strokeInHistory = false;
+
+/**
+ * Apply the editor tool to a cell: paint it, flood fill its connected area,
+ * or swap its region id with the selected one. For paint this also starts a
+ * stroke that paintRegionCell() continues while the pointer is dragged.
+ */
 export function handleCellClickEditor(coords: Coords) {
   const id = store.selectedRegionId;
+  const current = store.puzzle.def.regions[coords.row][coords.col];
+  strokeInHistory = false;
+  if (store.editorTool === 'paint') {
+    paintRegionCell(coords);
+    return;
+  }
+  if (current === id) return;
+
+  const fill = store.editorTool === 'fill';
+  leaveLibraryEntry();
+  store.puzzle.def.regions = fill
+    ? floodFillRegion(store.puzzle.def.regions, coords, id)
+    : swapRegionIds(store.puzzle.def.regions, current, id);
+  recordHistory(fill ? `Fill region ${idToLetter(id)}` : `Swap regions ${idToLetter(current)} and ${idToLetter(id)}`);
+  clearVerificationCache();
+  savePuzzleToStorage(store.puzzle);
+}
+
+/**
+ * Paint one cell with the selected region as part of the current stroke. A
+ * whole stroke is one undo step, saved when it first changes a cell.
+ */
+export function paintRegionCell(coords: Coords) {
+  const id = store.selectedRegionId;
+  if (store.puzzle.def.regions[coords.row][coords.col] === id) return;
+  leaveLibraryEntry();
   store.puzzle.def.regions[coords.row][coords.col] = id;
+  if (strokeInHistory) {
+    currentHistoryNode(store.historyTree).state = deepClonePuzzleState(store.puzzle);
+    syncHistoryLine();
+  } else {
+    recordHistory(`Paint region ${idToLetter(id)}`);
+    strokeInHistory = true;
+  }
   clearVerificationCache();
   savePuzzleToStorage(store.puzzle);
 }
@@ -373,8 +503,9 @@ export function handleCellClickPlay(coords: Coords) {
   
   // Only push to history if state actually changed
   if (next !== current) {
-    pushToHistory();
     store.puzzle.cells[coords.row][coords.col] = next;
+    const action = next === 'star' ? 'Star' : next === 'cross' ? 'Cross' : 'Clear';
+    recordHistory(`${action} R${coords.row + 1}C${coords.col + 1}`);
     clearVerificationCache();
     savePuzzleToStorage(store.puzzle);
   }
@@ -394,7 +525,6 @@ export function applyHintToState(hint: Hint | null) {
   }
   if (allAlreadyMarked) return; // Nothing to do
   
-  pushToHistory();
   for (const c of hint.resultCells) {
     // For schema-based hints with mixed types, use schemaCellTypes
     if (hint.schemaCellTypes) {
@@ -413,6 +543,7 @@ export function applyHintToState(hint: Hint | null) {
       }
     }
   }
+  recordHistory(techniqueNameById[hint.technique] ?? hint.technique, hint);
   clearVerificationCache();
   savePuzzleToStorage(store.puzzle);
 }
@@ -431,7 +562,6 @@ export function clearStarsAndCrosses() {
   }
   
   if (hasChanges) {
-    pushToHistory();
     for (let r = 0; r < size; r += 1) {
       for (let c = 0; c < size; c += 1) {
         if (store.puzzle.cells[r][c] === 'star' || store.puzzle.cells[r][c] === 'cross') {
@@ -439,24 +569,30 @@ export function clearStarsAndCrosses() {
         }
       }
     }
+    recordHistory('Clear marks');
     clearVerificationCache();
     savePuzzleToStorage(store.puzzle);
   }
 }
 
-export function replacePuzzleFromImport(regions: number[][], cells: CellState[][]) {
+export function replacePuzzleFromImport(
+  regions: number[][],
+  cells: CellState[][],
+  starsPerUnit: number = DEFAULT_STARS_PER_UNIT,
+) {
   const size = regions.length;
   const newPuzzle: PuzzleState = {
     def: {
       size,
-      starsPerUnit: DEFAULT_STARS_PER_UNIT,
+      starsPerUnit,
       regions,
     },
     cells,
   };
   
-  pushToHistory();
+  leaveLibraryEntry();
   store.puzzle = newPuzzle;
+  recordHistory('Import puzzle');
   clearVerificationCache();
   store.mode = 'editor';
   store.selectionMode = 'region';
@@ -466,4 +602,237 @@ export function replacePuzzleFromImport(regions: number[][], cells: CellState[][
   savePuzzleToStorage(store.puzzle);
 }
 
+/**
+ * Replace the current puzzle with a blank board of the given dimensions.
+ */
+export function startNewPuzzle(size: number, starsPerUnit: number) {
+  leaveLibraryEntry();
+  store.puzzle = createEmptyPuzzleState(createEmptyPuzzleDef(size, starsPerUnit));
+  recordHistory(`New ${size}×${size} puzzle`);
+  clearVerificationCache();
+  store.selectedRegionId = Math.min(store.selectedRegionId, size - 1);
+  store.currentHint = null;
+  store.issues = [];
+  savePuzzleToStorage(store.puzzle);
+}
 
+/**
+ * Replace the region layout of the current puzzle in one undoable step.
+ */
+export function setRegions(regions: number[][]) {
+  leaveLibraryEntry();
+  store.puzzle.def.regions = regions.map((row) => [...row]);
+  recordHistory('Change regions');
+  clearVerificationCache();
+  store.currentHint = null;
+  savePuzzleToStorage(store.puzzle);
+}
+
+/**
+ * Change the star count of the current puzzle, keeping its regions.
+ */
+export function setStarsPerUnit(starsPerUnit: number) {
+  if (store.puzzle.def.starsPerUnit === starsPerUnit) return;
+  leaveLibraryEntry();
+  store.puzzle.def.starsPerUnit = starsPerUnit;
+  recordHistory(`${starsPerUnit} star${starsPerUnit === 1 ? '' : 's'} per unit`);
+  clearVerificationCache();
+  store.currentHint = null;
+  savePuzzleToStorage(store.puzzle);
+}
+
+
+
+export const library = createPuzzleLibrary(createDefaultBackend());
+
+// Progress is written this long after the last change, so a burst of marks is one write.
+const LIBRARY_SAVE_DELAY_MS = 500;
+let librarySaveTimer: ReturnType<typeof setTimeout> | null = null;
+
+function scheduleLibrarySave() {
+  if (!store.libraryEntryId) return;
+  if (librarySaveTimer) clearTimeout(librarySaveTimer);
+  librarySaveTimer = setTimeout(() => {
+    librarySaveTimer = null;
+    void saveLibraryProgress();
+  }, LIBRARY_SAVE_DELAY_MS);
+}
+
+/**
+ * Write the board and undo history to the open library entry. The snapshot
+ * is taken before the first await, so it is safe to change the board right
+ * after calling this.
+ */
+export async function saveLibraryProgress(): Promise<void> {
+  if (librarySaveTimer) {
+    clearTimeout(librarySaveTimer);
+    librarySaveTimer = null;
+  }
+  const id = store.libraryEntryId;
+  if (!id) return;
+  const progress = {
+    puzzle: deepClonePuzzleState(store.puzzle),
+    historyTree: JSON.parse(JSON.stringify(store.historyTree)) as HistoryTree,
+    stars: store.puzzle.cells.flat().filter((cell) => cell === 'star').length,
+    completed: isPuzzleComplete(store.puzzle),
+  };
+  try {
+    await library.saveProgress(id, progress);
+    store.libraryRevision += 1;
+  } catch {
+    // ignore storage errors
+  }
+}
+
+// Save progress of the open entry before the board is replaced by one that is not in the
+// library, or its layout is edited into one: progress only ever holds the entry's own layout.
+function leaveLibraryEntry() {
+  if (!store.libraryEntryId) return;
+  void saveLibraryProgress();
+  store.libraryEntryId = null;
+}
+
+/**
+ * Add the built-in puzzles the first time the library is used. Returns
+ * false if the library cannot be read.
+ */
+export async function initLibrary(): Promise<boolean> {
+  try {
+    if (typeof window !== 'undefined' && window.localStorage.getItem(LIBRARY_SEEDED_KEY)) return true;
+    for (const entry of builtinLibraryEntries()) {
+      if (!(await library.get(entry.id!))) await library.add(entry);
+    }
+    if (typeof window !== 'undefined') window.localStorage.setItem(LIBRARY_SEEDED_KEY, '1');
+    store.libraryRevision += 1;
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function progressHistory(puzzle: PuzzleState, progress: LibraryProgress | null): HistoryTree {
+  if (progress?.historyTree && historyTreeErrors(progress.historyTree).length === 0) {
+    return JSON.parse(JSON.stringify(progress.historyTree)) as HistoryTree;
+  }
+  // Saved before branches: one branch. Saved before history steps: a new history.
+  if (progress?.history?.length && progress.historySteps?.length === progress.history.length) {
+    return linearHistoryTree(
+      progress.history.map(deepClonePuzzleState),
+      progress.historySteps.map((step) => ({ ...step })),
+      progress.historyIndex ?? progress.history.length - 1,
+    );
+  }
+  return createHistoryTree(deepClonePuzzleState(puzzle), startStep());
+}
+
+/**
+ * Open a library entry where it was left: its board and undo history, or a
+ * blank board if it has not been played yet. Returns false if it is gone
+ * or cannot be read.
+ */
+export async function openLibraryEntry(id: string): Promise<boolean> {
+  if (store.libraryEntryId) await saveLibraryProgress();
+  let entry: LibraryEntry | undefined;
+  try {
+    entry = await library.get(id);
+  } catch {
+    return false;
+  }
+  if (!entry) return false;
+
+  const progress = entry.progress;
+  const puzzle = progress ? progress.puzzle : createEmptyPuzzleState(entry.def);
+  store.puzzle = deepClonePuzzleState(puzzle);
+  store.historyTree = progressHistory(puzzle, progress);
+  syncHistoryLine();
+  store.libraryEntryId = id;
+  clearVerificationCache();
+  store.mode = 'play';
+  store.currentHint = null;
+  store.issues = [];
+  savePuzzleToStorage(store.puzzle);
+  persistUIState();
+  return true;
+}
+
+/**
+ * Save the current layout as a new library entry and keep playing it from
+ * there; the marks on the board become its progress.
+ */
+export async function addCurrentPuzzleToLibrary(
+  meta: Omit<NewLibraryEntry, 'def' | 'id' | 'addedAt'>,
+): Promise<LibraryEntry> {
+  const entry = await library.add({ ...meta, def: deepClonePuzzleState(store.puzzle).def });
+  store.libraryEntryId = entry.id;
+  savePuzzleToStorage(store.puzzle);
+  await saveLibraryProgress();
+  return entry;
+}
+
+export async function updateLibraryEntry(
+  id: string,
+  changes: Parameters<typeof library.update>[1],
+): Promise<void> {
+  try {
+    await library.update(id, changes);
+    store.libraryRevision += 1;
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/** Clear an entry's progress; if it is open, the board starts over blank. */
+export async function resetLibraryProgress(id: string): Promise<void> {
+  const isOpen = store.libraryEntryId === id;
+  if (isOpen) {
+    // Nothing of the old board should be written back
+    if (librarySaveTimer) clearTimeout(librarySaveTimer);
+    librarySaveTimer = null;
+    store.libraryEntryId = null;
+  }
+  try {
+    await library.resetProgress(id);
+    store.libraryRevision += 1;
+    if (isOpen) await openLibraryEntry(id);
+  } catch {
+    // ignore storage errors
+  }
+}
+
+export async function removeLibraryEntry(id: string): Promise<void> {
+  if (store.libraryEntryId === id) {
+    if (librarySaveTimer) clearTimeout(librarySaveTimer);
+    librarySaveTimer = null;
+    store.libraryEntryId = null;
+    savePuzzleToStorage(store.puzzle);
+  }
+  try {
+    await library.remove(id);
+    store.libraryRevision += 1;
+  } catch {
+    // ignore storage errors
+  }
+}
+
+/**
+ * Add every puzzle of a collection file to the library. Nothing is added
+ * when the file has problems; they are returned instead. Puzzles without a
+ * source get the collection's title.
+ */
+export async function importCollection(text: string): Promise<{ added: number; errors: string[] }> {
+  const { collection, errors } = readCollection(text);
+  if (!collection) return { added: 0, errors };
+  for (const puzzle of collection.puzzles) {
+    const entry = collectionPuzzleToEntry(puzzle);
+    await library.add({ ...entry, source: entry.source || collection.title });
+  }
+  store.libraryRevision += 1;
+  return { added: collection.puzzles.length, errors: [] };
+}
+
+if (typeof window !== 'undefined') {
+  // Best effort: the last few marks before closing the tab
+  window.addEventListener('pagehide', () => {
+    if (librarySaveTimer) void saveLibraryProgress();
+  });
+}
@@ -0,0 +1,249 @@
+import type { PuzzleState } from '../types/puzzle';
+import type { TechniqueId } from '../types/hints';
+import type { HistoryTree } from '../types/history';
+import { MAX_SIZE, MIN_SIZE, maxStarsPerUnit } from '../types/puzzle';
+import { capErrors, describeValue, isObject } from '../utils/valueErrors';
+import { historyLine } from './historyTree';
+import type { RecordSchema } from './persistence';
+import type { Mode, RegionTheme } from './puzzleStore';
+
+/**
+ * The records the store keeps in localStorage, with their format history:
+ *
+ * Current puzzle
+ *   1. `{ puzzle, libraryEntryId? }` under 'star-battle-10x10-v1', unversioned.
+ *   2. Versioned; libraryEntryId is always present (null outside the library).
+ *
+ * UI preferences
+ *   1. The preferences object under 'star-battle-10x10-ui-v1', unversioned.
+ *   2. Versioned, same fields.
+ *
+ * Undo history
+ *   1. The history tree of the current puzzle (see types/history.ts).
+ */
+
+export interface StoredPuzzle {
+  puzzle: PuzzleState;
+  libraryEntryId: string | null;
+}
+
+export interface StoredUIState {
+  mode?: Mode;
+  showRowColNumbers?: boolean;
+  showAreaLabels?: boolean;
+  showLog?: boolean;
+  regionTheme?: RegionTheme;
+  disabledTechniques?: TechniqueId[];
+  trialDepth?: number;
+  showDebugLog?: boolean;
+}
+
+// Listing every theme as a key makes the compiler flag a theme missing here.
+const REGION_THEMES: Record<RegionTheme, true> = {
+  default: true,
+  pastel: true,
+  vibrant: true,
+  monochrome: true,
+  ocean: true,
+  forest: true,
+  sunset: true,
+  neon: true,
+  warm: true,
+  cool: true,
+};
+
+const MODES: Record<Mode, true> = { editor: true, play: true };
+
+const CELL_STATES = new Set(['empty', 'star', 'cross']);
+
+function gridErrors(
+  grid: unknown,
+  size: number,
+  path: string,
+  cellOk: (value: unknown) => boolean,
+  expected: string,
+): string[] {
+  if (!Array.isArray(grid)) return [`${path}: expected a ${size}×${size} grid, got ${describeValue(grid)}.`];
+  if (grid.length !== size) return [`${path}: expected ${size} rows, got ${grid.length}.`];
+  const errors: string[] = [];
+  grid.forEach((row: unknown, r) => {
+    if (!Array.isArray(row) || row.length !== size) {
+      errors.push(`${path}[${r}]: expected a row of ${size} entries, got ${Array.isArray(row) ? `${row.length}` : describeValue(row)}.`);
+      return;
+    }
+    row.forEach((value: unknown, c) => {
+      if (!cellOk(value)) errors.push(`${path}[${r}][${c}]: expected ${expected}, got ${describeValue(value)}.`);
+    });
+  });
+  return errors;
+}
+
+function isSize(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= MIN_SIZE && value <= MAX_SIZE;
+}
+
+/** Problems that keep `def` from being a usable PuzzleDef, with paths like "def.size". Not capped: see capErrors(). */
+export function puzzleDefErrors(def: unknown, path = 'def'): string[] {
+  if (!isObject(def)) return [`${path}: expected an object, got ${describeValue(def)}.`];
+
+  const { size, starsPerUnit } = def;
+  if (!isSize(size)) {
+    return [`${path}.size: expected a whole number from ${MIN_SIZE} to ${MAX_SIZE}, got ${describeValue(size)}.`];
+  }
+  const errors: string[] = [];
+  if (
+    typeof starsPerUnit !== 'number' ||
+    !Number.isInteger(starsPerUnit) ||
+    starsPerUnit < 1 ||
+    starsPerUnit > maxStarsPerUnit(size)
+  ) {
+    errors.push(`${path}.starsPerUnit: expected a whole number from 1 to ${maxStarsPerUnit(size)}, got ${describeValue(starsPerUnit)}.`);
+  }
+  errors.push(...gridErrors(def.regions, size, `${path}.regions`, (id) => Number.isInteger(id), 'a region id'));
+  return errors;
+}
+
+/** Problems that keep `value` from being a usable PuzzleState, with paths like "puzzle.def.size". */
+export function puzzleStateErrors(value: unknown, path = 'puzzle'): string[] {
+  if (!isObject(value)) return [`${path}: expected an object, got ${describeValue(value)}.`];
+  const errors = puzzleDefErrors(value.def, `${path}.def`);
+  const size = isObject(value.def) ? value.def.size : undefined;
+  if (isSize(size)) {
+    errors.push(...gridErrors(value.cells, size, `${path}.cells`, (cell) => CELL_STATES.has(cell as string), "'empty', 'star' or 'cross'"));
+  }
+  return capErrors(errors);
+}
+
+export const puzzleRecord: RecordSchema<StoredPuzzle> = {
+  key: 'star-battle-puzzle',
+  label: 'Current puzzle',
+  version: 2,
+  legacyKey: 'star-battle-10x10-v1',
+  migrations: {
+    1: (data) => ({ ...(data as object), libraryEntryId: (data as { libraryEntryId?: string }).libraryEntryId ?? null }),
+  },
+  validate: (data) => {
+    if (!isObject(data)) return [`Expected an object, got ${describeValue(data)}.`];
+    const errors = puzzleStateErrors(data.puzzle);
+    if (data.libraryEntryId !== null && typeof data.libraryEntryId !== 'string') {
+      errors.push(`libraryEntryId: expected a string or null, got ${describeValue(data.libraryEntryId)}.`);
+    }
+    return errors;
+  },
+};
+
+export const uiRecord: RecordSchema<StoredUIState> = {
+  key: 'star-battle-ui',
+  label: 'Display and solver settings',
+  version: 2,
+  legacyKey: 'star-battle-10x10-ui-v1',
+  migrations: {
+    1: (data) => data,
+  },
+  validate: (data) => {
+    if (!isObject(data)) return [`Expected an object, got ${describeValue(data)}.`];
+    const errors: string[] = [];
+    const check = (field: keyof StoredUIState, ok: (value: unknown) => boolean, expected: string) => {
+      if (data[field] !== undefined && !ok(data[field])) {
+        errors.push(`${field}: expected ${expected}, got ${describeValue(data[field])}.`);
+      }
+    };
+    check('mode', (value) => Object.hasOwn(MODES, value as string), "'editor' or 'play'");
+    for (const field of ['showRowColNumbers', 'showAreaLabels', 'showLog', 'showDebugLog'] as const) {
+      check(field, (value) => typeof value === 'boolean', 'true or false');
+    }
+    check('regionTheme', (value) => Object.hasOwn(REGION_THEMES, value as string), 'a colour theme name');
+    check(
+      'disabledTechniques',
+      (value) => Array.isArray(value) && value.every((id) => typeof id === 'string'),
+      'a list of technique ids',
+    );
+    check('trialDepth', (value) => Number.isInteger(value) && (value as number) >= 1, 'a whole number of at least 1');
+    return errors;
+  },
+};
+
+function isId(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) >= 0;
+}
+
+/** Problems that keep `value` from being a usable HistoryTree, with paths like "nodes[3].state.cells". */
+export function historyTreeErrors(value: unknown): string[] {
+  if (!isObject(value)) return [`Expected an object, got ${describeValue(value)}.`];
+  const { nodes, branches } = value;
+  if (!Array.isArray(nodes) || nodes.length === 0) return [`nodes: expected a list of boards, got ${describeValue(nodes)}.`];
+  if (!Array.isArray(branches) || branches.length === 0) return [`branches: expected a list of branches, got ${describeValue(branches)}.`];
+
+  const errors: string[] = [];
+  const ids = new Set<number>();
+  nodes.forEach((node: unknown, index) => {
+    const path = `nodes[${index}]`;
+    if (!isObject(node)) {
+      errors.push(`${path}: expected an object, got ${describeValue(node)}.`);
+      return;
+    }
+    if (!isId(node.id) || ids.has(node.id)) errors.push(`${path}.id: expected a new whole number, got ${describeValue(node.id)}.`);
+    else ids.add(node.id);
+    if (node.parent !== null && !isId(node.parent)) errors.push(`${path}.parent: expected a node id or null, got ${describeValue(node.parent)}.`);
+    const step = node.step;
+    if (!isObject(step) || typeof step.label !== 'string' || (step.hint !== null && !isObject(step.hint))) {
+      errors.push(`${path}.step: expected { "label": string, "hint": object | null }.`);
+    }
+    errors.push(...puzzleStateErrors(node.state, `${path}.state`));
+  });
+  nodes.forEach((node: unknown, index) => {
+    const parent = isObject(node) ? node.parent : null;
+    if (isId(parent) && !ids.has(parent)) errors.push(`nodes[${index}].parent: no node has id ${parent}.`);
+  });
+
+  // Every chain of parents must end at the one first board, without looping
+  const parents = new Map<number, unknown>();
+  for (const node of nodes) {
+    if (isObject(node) && isId(node.id)) parents.set(node.id, node.parent);
+  }
+  const firstBoards = [...parents.values()].filter((parent) => parent === null).length;
+  if (firstBoards !== 1) errors.push(`nodes: expected one first board (parent null), found ${firstBoards}.`);
+  nodes.forEach((node: unknown, index) => {
+    if (!isObject(node) || !isId(node.id)) return;
+    const seen = new Set<number>();
+    for (let id: unknown = node.id; isId(id) && parents.has(id); id = parents.get(id)) {
+      if (seen.has(id)) {
+        errors.push(`nodes[${index}].parent: its parents loop back on themselves.`);
+        return;
+      }
+      seen.add(id);
+    }
+  });
+
+  const branchIds = new Set<number>();
+  branches.forEach((branch: unknown, index) => {
+    const path = `branches[${index}]`;
+    if (!isObject(branch)) {
+      errors.push(`${path}: expected an object, got ${describeValue(branch)}.`);
+      return;
+    }
+    if (!isId(branch.id) || branchIds.has(branch.id)) errors.push(`${path}.id: expected a new whole number, got ${describeValue(branch.id)}.`);
+    else branchIds.add(branch.id);
+    if (typeof branch.name !== 'string' || !branch.name.trim()) errors.push(`${path}.name: expected a name, got ${describeValue(branch.name)}.`);
+    if (!ids.has(branch.tip as number)) errors.push(`${path}.tip: expected a node id, got ${describeValue(branch.tip)}.`);
+  });
+
+  if (!branchIds.has(value.branch as number)) errors.push(`branch: expected a branch id, got ${describeValue(value.branch)}.`);
+  if (!ids.has(value.current as number)) errors.push(`current: expected a node id, got ${describeValue(value.current)}.`);
+  if (!isId(value.nextNodeId) || [...ids].some((id) => id >= (value.nextNodeId as number))) {
+    errors.push(`nextNodeId: expected a whole number above every node id, got ${describeValue(value.nextNodeId)}.`);
+  }
+  // With every field checked, `value` is a HistoryTree
+  if (errors.length === 0 && !historyLine(value as unknown as HistoryTree).some((node) => node.id === value.current)) {
+    errors.push(`current: expected a board on the line of branch ${value.branch}, got ${value.current}.`);
+  }
+  return capErrors(errors);
+}
+
+export const historyRecord: RecordSchema<HistoryTree> = {
+  key: 'star-battle-history',
+  label: 'Undo history',
+  version: 1,
+  migrations: {},
+  validate: historyTreeErrors,
+};
@@ -23,7 +23,7 @@ export interface CellDeduction extends BaseDeduction {
  */
 export interface BlockDeduction extends BaseDeduction {
   kind: 'block';
-  block: { bRow: number; bCol: number }; // Block coordinates (0-4 for 10x10 grid)
+  block: { bRow: number; bCol: number }; // Block coordinates (0..size/2-1)
   starsRequired?: number; // Exact number of stars required (if known)
   minStars?: number; // Minimum stars (default 0)
   maxStars?: number; // Maximum stars (default Infinity)
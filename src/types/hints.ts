@@ -36,8 +36,54 @@ export type TechniqueId =
   | 'n-rooks'
   | 'entanglement'
   | 'entanglement-patterns'
-  // 5. Schema-based (new)
-  | 'schema-based';
+  // 5. Schema-based (new), forcing chains and trial
+  | 'schema-based'
+  | 'forcing-chain'
+  | 'trial';
+
+/**
+ * Section of the guide a technique comes from, used as a difficulty tier:
+ * 1 basics, 2 counting, 3 uniqueness, 4 idiosyncrasies, 5 schema-based,
+ * forcing chains and trial (reasoning from an assumed star).
+ */
+export type TechniqueTier = 1 | 2 | 3 | 4 | 5;
+
+export const techniqueTiers: Record<TechniqueId, TechniqueTier> = {
+  'trivial-marks': 1,
+  'locked-line': 1,
+  saturation: 1,
+  'adjacent-row-col': 1,
+  'two-by-two': 1,
+  'square-counting': 1,
+  'exact-fill': 1,
+  'simple-shapes': 1,
+  'cross-empty-patterns': 1,
+  'cross-pressure': 1,
+  'shared-row-column': 1,
+  exclusion: 1,
+  'pressured-exclusion': 1,
+  'adjacent-exclusion': 1,
+  'forced-placement': 1,
+  undercounting: 2,
+  overcounting: 2,
+  'finned-counts': 2,
+  'composite-shapes': 2,
+  squeeze: 2,
+  'set-differentials': 2,
+  'by-a-thread': 3,
+  'at-sea': 3,
+  'by-a-thread-at-sea': 3,
+  'kissing-ls': 4,
+  'the-m': 4,
+  'pressured-ts': 4,
+  fish: 4,
+  'n-rooks': 4,
+  entanglement: 4,
+  'entanglement-patterns': 4,
+  'schema-based': 5,
+  'forcing-chain': 5,
+  trial: 5,
+};
 
 export type HintKind = 'place-star' | 'place-cross';
 
@@ -46,6 +92,8 @@ export interface HintHighlight {
   rows?: number[];
   cols?: number[];
   regions?: number[];
+  /** Forcing chains: the stars assumed in each branch, in branch order. */
+  branches?: Coords[][];
 }
 
 export interface Hint {
@@ -0,0 +1,47 @@
+import type { Hint } from './hints';
+import type { PuzzleState } from './puzzle';
+
+/**
+ * The parts of a hint the timeline shows again for a past step. Plain data,
+ * so it is saved with the library progress.
+ */
+export type HistoryHint = Pick<Hint, 'kind' | 'technique' | 'resultCells' | 'explanation' | 'highlights'>;
+
+/** What produced one entry of the undo history. */
+export interface HistoryStep {
+  /** e.g. "Star R3C4", "Locked Line" or "Paint region B". */
+  label: string;
+  /** Set when the step applied a hint. */
+  hint: HistoryHint | null;
+}
+
+/** One board in the history tree. */
+export interface HistoryNode {
+  id: number;
+  /** The board this one was changed from; null for the first board. */
+  parent: number | null;
+  state: PuzzleState;
+  step: HistoryStep;
+}
+
+/** A named line through the tree, from the first board to `tip`. */
+export interface HistoryBranch {
+  id: number;
+  name: string;
+  tip: number;
+}
+
+/**
+ * Undo history kept as a tree, so a change made after undoing starts a new
+ * branch instead of dropping the undone steps.
+ */
+export interface HistoryTree {
+  nodes: HistoryNode[];
+  /** In the order they were started. */
+  branches: HistoryBranch[];
+  /** The branch undo and redo move along. */
+  branch: number;
+  /** The node on the board; always on the current branch's line. */
+  current: number;
+  nextNodeId: number;
+}
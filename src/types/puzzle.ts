@@ -1,14 +1,14 @@
 export type CellState = 'empty' | 'star' | 'cross';
 
 export interface Coords {
-  row: number; // 0–9
-  col: number; // 0–9
+  row: number; // 0..size-1
+  col: number; // 0..size-1
 }
 
 export interface PuzzleDef {
-  size: number; // 10
-  starsPerUnit: number; // 2
-  regions: number[][]; // [row][col] => 1..10
+  size: number; // MIN_SIZE..MAX_SIZE, 10 by default
+  starsPerUnit: number; // 2 by default
+  regions: number[][]; // [row][col] => 0..size-1
 }
 
 export interface PuzzleState {
@@ -19,18 +19,42 @@ export interface PuzzleState {
 export const DEFAULT_SIZE = 10;
 export const DEFAULT_STARS_PER_UNIT = 2;
 
-export function createEmptyPuzzleDef(): PuzzleDef {
+// Supported board sizes (inclusive). Region ids run 0..size-1, shown as A..Q.
+export const MIN_SIZE = 5;
+export const MAX_SIZE = 17;
+
+/**
+ * Largest number of stars per unit that can fit a size×size board: n stars
+ * need a board of at least 4n×4n. Stars may not touch, so each 2×2 block
+ * holds at most one; for 7×7 with 2 stars, 11×11 with 3 and 15×15 with 4
+ * that block count still leaves room, but the solution search finds no way
+ * to place them.
+ */
+export function maxStarsPerUnit(size: number): number {
+  return Math.floor(size / 4);
+}
+
+/** "1–3 stars", or "1 star" where only one fits, for messages about star counts. */
+export function supportedStarCounts(size: number): string {
+  const max = maxStarsPerUnit(size);
+  return max === 1 ? '1 star' : `1–${max} stars`;
+}
+
+export function createEmptyPuzzleDef(
+  size: number = DEFAULT_SIZE,
+  starsPerUnit: number = DEFAULT_STARS_PER_UNIT,
+): PuzzleDef {
   const regions: number[][] = [];
-  for (let r = 0; r < DEFAULT_SIZE; r += 1) {
+  for (let r = 0; r < size; r += 1) {
     const row: number[] = [];
-    for (let c = 0; c < DEFAULT_SIZE; c += 1) {
+    for (let c = 0; c < size; c += 1) {
       row.push(1);
     }
     regions.push(row);
   }
   return {
-    size: DEFAULT_SIZE,
-    starsPerUnit: DEFAULT_STARS_PER_UNIT,
+    size,
+    starsPerUnit,
     regions,
   };
 }
@@ -46,5 +70,3 @@ export function createEmptyPuzzleState(def: PuzzleDef): PuzzleState {
   }
   return { def, cells };
 }
-
-
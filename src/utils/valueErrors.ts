@@ -0,0 +1,27 @@
+/**
+ * Helpers for the validators of parsed JSON: stored records (see
+ * store/storedSchemas.ts) and collection files (library/puzzleCollection.ts).
+ * Their errors read "path: expected …, got <value>".
+ */
+
+/** A short description of an unexpected value for an error message. */
+export function describeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'an array';
+  if (typeof value === 'string') return JSON.stringify(value.length > 20 ? `${value.slice(0, 20)}…` : value);
+  if (typeof value === 'object') return 'an object';
+  return String(value);
+}
+
+export function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Longer lists are cut short; one bad entry usually means more are bad too.
+const MAX_REPORTED_ERRORS = 8;
+
+/** The first `max` errors and a count of the rest. */
+export function capErrors(errors: string[], max = MAX_REPORTED_ERRORS): string[] {
+  if (errors.length <= max) return errors;
+  return [...errors.slice(0, max), `…and ${errors.length - max} more.`];
+}
@@ -0,0 +1,11 @@
+import { createSolverHost } from './solverHost';
+import type { SolverRequest, SolverResponse } from './solverProtocol';
+
+// The project compiles against the DOM lib, so describe the worker scope we use.
+const scope = self as unknown as {
+  postMessage(message: SolverResponse): void;
+  onmessage: ((event: MessageEvent<SolverRequest>) => void) | null;
+};
+
+const handle = createSolverHost((response) => scope.postMessage(response));
+scope.onmessage = (event) => handle(event.data);
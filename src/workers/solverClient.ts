@@ -0,0 +1,285 @@
+import type { PuzzleDef, PuzzleState } from '../types/puzzle';
+import type { Hint, TechniqueId } from '../types/hints';
+import type { Deduction } from '../types/deductions';
+import type { SolverLogEntry } from '../logic/solverEngine';
+import type { TargetedPuzzle } from '../logic/generator';
+import type { DifficultyRating } from '../logic/difficulty';
+import type { RedesignSuggestion } from '../logic/regionRedesign';
+import type { GenerateRequestOptions, RedesignRequestOptions, SolverRequest, SolverResponse } from './solverProtocol';
+import { createSolverHost } from './solverHost';
+
+/**
+ * UI side of the solver protocol. Hint searches, generation, rating and
+ * redesign searches run in a dedicated worker so the page stays responsive;
+ * where workers are unavailable (tests, very old browsers) the same host runs
+ * in-process instead.
+ */
+
+export interface SolverJobOptions {
+  /** Aborting it cancels the job, like cancel(). */
+  signal?: AbortSignal;
+}
+
+export interface HintRequestOptions extends SolverJobOptions {
+  enabledTechniques?: readonly TechniqueId[];
+  /** Step limit for the trial technique. */
+  trialDepth?: number;
+  /** Technique (or schema) the solver is trying. */
+  onProgress?(label: string): void;
+  onDeductions?(deductions: Deduction[]): void;
+  logger?(entry: SolverLogEntry): void;
+}
+
+export interface SolverJobResponse<T> {
+  result: T | null;
+  cancelled: boolean;
+  /** Set when the solver failed rather than finding nothing. */
+  error?: string;
+}
+
+export interface HintResponse {
+  hint: Hint | null;
+  cancelled: boolean;
+  /** Set when the solver failed rather than finding nothing. */
+  error?: string;
+}
+
+/** Each call cancels the job in flight; use one client per job that may run alongside others. */
+export interface SolverClient {
+  /** Search for the next hint. */
+  findNextHint(state: PuzzleState, options?: HintRequestOptions): Promise<HintResponse>;
+  /** Generate a uniquely solvable puzzle (see generateTargetedPuzzle). */
+  generatePuzzle(request: GenerateRequestOptions, options?: SolverJobOptions): Promise<SolverJobResponse<TargetedPuzzle>>;
+  /** Rate the empty board of a layout (see ratePuzzle). */
+  ratePuzzle(def: PuzzleDef, options?: SolverJobOptions): Promise<SolverJobResponse<DifficultyRating>>;
+  /** Search region edits that make a layout unique (see suggestRegionRedesigns). */
+  suggestRegionRedesigns(
+    def: PuzzleDef,
+    options?: RedesignRequestOptions & SolverJobOptions,
+  ): Promise<SolverJobResponse<RedesignSuggestion[]>>;
+  /** Cancel the job in flight, if any. It resolves as cancelled right away. */
+  cancel(): void;
+  dispose(): void;
+}
+
+export interface SolverTransport {
+  post(request: SolverRequest): void;
+  terminate(): void;
+  /** Whether terminate() actually stops running work (true for workers). */
+  terminable: boolean;
+}
+
+export type SolverTransportFactory = (
+  onResponse: (response: SolverResponse) => void,
+  onFailure: (message: string) => void,
+) => SolverTransport;
+
+// A technique busy with synchronous work only sees the cancel message once it
+// yields; replace the worker if it has not acknowledged within this time.
+const CANCEL_GRACE_MS = 500;
+
+export const createInProcessTransport: SolverTransportFactory = (onResponse) => {
+  const handle = createSolverHost(onResponse);
+  return {
+    // Deliver asynchronously, like postMessage
+    post: (request) => setTimeout(() => handle(request), 0),
+    terminate: () => {},
+    terminable: false,
+  };
+};
+
+export const createWorkerTransport: SolverTransportFactory = (onResponse, onFailure) => {
+  const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (event: MessageEvent<SolverResponse>) => onResponse(event.data);
+  worker.onerror = (event) => {
+    event.preventDefault();
+    onFailure(event.message || 'The solver worker failed.');
+  };
+  return {
+    post: (request) => worker.postMessage(request),
+    terminate: () => worker.terminate(),
+    terminable: true,
+  };
+};
+
+const defaultTransportFactory: SolverTransportFactory = (onResponse, onFailure) => {
+  if (typeof Worker === 'function') {
+    try {
+      return createWorkerTransport(onResponse, onFailure);
+    } catch (error) {
+      console.warn('Could not start the solver worker, solving on the main thread:', error);
+    }
+  }
+  return createInProcessTransport(onResponse, onFailure);
+};
+
+// Plain copies: reactive proxies cannot be posted to a worker.
+function plainDef(def: PuzzleDef): PuzzleDef {
+  return { size: def.size, starsPerUnit: def.starsPerUnit, regions: def.regions.map((row) => [...row]) };
+}
+
+function plainState(state: PuzzleState): PuzzleState {
+  return { def: plainDef(state.def), cells: state.cells.map((row) => [...row]) };
+}
+
+// The answers that end a request
+const FINAL_RESPONSES = new Set<SolverResponse['type']>(['result', 'generated', 'rated', 'redesigned', 'cancelled', 'error']);
+
+export function createSolverClient(createTransport: SolverTransportFactory = defaultTransportFactory): SolverClient {
+  let transport: SolverTransport | null = null;
+  let nextId = 1;
+  let pending: {
+    request: SolverRequest;
+    options: HintRequestOptions;
+    resolve(response: SolverJobResponse<unknown>): void;
+  } | null = null;
+  // Cancelled request the transport has not acknowledged yet
+  let unacknowledged: { id: number; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  function settle(response: SolverJobResponse<unknown>): void {
+    const current = pending;
+    pending = null;
+    current?.resolve(response);
+  }
+
+  function onResponse(response: SolverResponse): void {
+    if (unacknowledged?.id === response.id && FINAL_RESPONSES.has(response.type)) {
+      clearTimeout(unacknowledged.timer);
+      unacknowledged = null;
+    }
+    if (!pending || pending.request.id !== response.id) return;
+
+    const { options } = pending;
+    switch (response.type) {
+      case 'progress':
+        options.onProgress?.(response.label);
+        break;
+      case 'deductions':
+        options.onDeductions?.(response.deductions);
+        break;
+      case 'log':
+        options.logger?.(response.entry);
+        break;
+      case 'result':
+        settle({ result: response.hint, cancelled: false });
+        break;
+      case 'generated':
+        settle({ result: response.puzzle, cancelled: false });
+        break;
+      case 'rated':
+        settle({ result: response.rating, cancelled: false });
+        break;
+      case 'redesigned':
+        settle({ result: response.suggestions, cancelled: false });
+        break;
+      case 'cancelled':
+        settle({ result: null, cancelled: true });
+        break;
+      case 'error':
+        settle({ result: null, cancelled: false, error: response.message });
+        break;
+    }
+  }
+
+  function onFailure(message: string): void {
+    transport?.terminate();
+    transport = null;
+    settle({ result: null, cancelled: false, error: message });
+  }
+
+  function ensureTransport(): SolverTransport {
+    transport ??= createTransport(onResponse, onFailure);
+    return transport;
+  }
+
+  function replaceStuckTransport(stuck: SolverTransport): void {
+    unacknowledged = null;
+    if (transport !== stuck) return;
+    stuck.terminate();
+    transport = null;
+    // A search queued behind the stuck one is re-sent to a fresh worker
+    if (pending) ensureTransport().post(pending.request);
+  }
+
+  function cancel(): void {
+    if (!pending || !transport) return;
+    const { id } = pending.request;
+    const current = transport;
+    current.post({ type: 'cancel', id });
+    settle({ result: null, cancelled: true });
+
+    if (current.terminable) {
+      if (unacknowledged) clearTimeout(unacknowledged.timer);
+      unacknowledged = { id, timer: setTimeout(() => replaceStuckTransport(current), CANCEL_GRACE_MS) };
+    }
+  }
+
+  function start<T>(request: SolverRequest, options: HintRequestOptions): Promise<SolverJobResponse<T>> {
+    cancel();
+    const { signal } = options;
+    if (signal?.aborted) return Promise.resolve({ result: null, cancelled: true });
+    return new Promise<SolverJobResponse<T>>((resolve) => {
+      pending = { request, options, resolve: resolve as (response: SolverJobResponse<unknown>) => void };
+      signal?.addEventListener(
+        'abort',
+        () => {
+          if (pending?.request === request) cancel();
+        },
+        { once: true },
+      );
+      ensureTransport().post(request);
+    });
+  }
+
+  return {
+    async findNextHint(state, options = {}) {
+      const { result, ...response } = await start<Hint>(
+        {
+          type: 'find-hint',
+          id: nextId++,
+          state: plainState(state),
+          enabledTechniques: options.enabledTechniques ? [...options.enabledTechniques] : undefined,
+          trialDepth: options.trialDepth,
+        },
+        options,
+      );
+      return { hint: result, ...response };
+    },
+    generatePuzzle(request, options = {}) {
+      return start({ type: 'generate', id: nextId++, options: { ...request } }, options);
+    },
+    ratePuzzle(def, options = {}) {
+      return start({ type: 'rate', id: nextId++, def: plainDef(def) }, options);
+    },
+    suggestRegionRedesigns(def, options = {}) {
+      const { signal, enabledTechniques, ...request } = options;
+      return start(
+        {
+          type: 'redesign',
+          id: nextId++,
+          def: plainDef(def),
+          options: { ...request, enabledTechniques: enabledTechniques ? [...enabledTechniques] : undefined },
+        },
+        { signal },
+      );
+    },
+    cancel,
+    dispose() {
+      cancel();
+      if (unacknowledged) clearTimeout(unacknowledged.timer);
+      unacknowledged = null;
+      transport?.terminate();
+      transport = null;
+    },
+  };
+}
+
+/**
+ * Shared clients used by the app, each with its own worker (started on its
+ * first job) so a hint search, a generation, a rating and a redesign search
+ * can run side by side.
+ */
+export const solverClient = createSolverClient();
+export const generatorClient = createSolverClient();
+export const ratingClient = createSolverClient();
+export const redesignClient = createSolverClient();
@@ -0,0 +1,70 @@
+import { findNextHint } from '../logic/solverEngine';
+import { generateTargetedPuzzle } from '../logic/generator';
+import { ratePuzzle } from '../logic/difficulty';
+import { suggestRegionRedesigns } from '../logic/regionRedesign';
+import type { SolverRequest, SolverResponse } from './solverProtocol';
+
+/**
+ * Worker side of the solver protocol: runs requests with the solver engine and
+ * reports back through `post`. Kept separate from the worker entry so the
+ * client can run it in-process where workers are unavailable.
+ */
+export function createSolverHost(post: (response: SolverResponse) => void): (request: SolverRequest) => void {
+  const running = new Map<number, AbortController>();
+
+  // Run one job, answering with its result unless it was cancelled on the way.
+  async function run(id: number, job: (signal: AbortSignal) => Promise<SolverResponse>): Promise<void> {
+    const controller = new AbortController();
+    running.set(id, controller);
+    try {
+      const response = await job(controller.signal);
+      post(controller.signal.aborted ? { type: 'cancelled', id } : response);
+    } catch (error) {
+      post({ type: 'error', id, message: error instanceof Error ? error.message : String(error) });
+    } finally {
+      running.delete(id);
+    }
+  }
+
+  async function findHint(request: Extract<SolverRequest, { type: 'find-hint' }>, signal: AbortSignal): Promise<SolverResponse> {
+    const { id, state, enabledTechniques, trialDepth } = request;
+    const hint = await findNextHint(state, {
+      enabledTechniques,
+      trialDepth,
+      signal,
+      logger: (entry) => post({ type: 'log', id, entry }),
+      onProgress: (label) => post({ type: 'progress', id, label }),
+      onDeductions: (deductions) => post({ type: 'deductions', id, deductions }),
+    });
+    return { type: 'result', id, hint };
+  }
+
+  return (request) => {
+    const { id } = request;
+    switch (request.type) {
+      case 'find-hint':
+        void run(id, (signal) => findHint(request, signal));
+        break;
+      case 'generate':
+        void run(id, async (signal) => ({
+          type: 'generated',
+          id,
+          puzzle: await generateTargetedPuzzle({ ...request.options, signal }),
+        }));
+        break;
+      case 'rate':
+        void run(id, async (signal) => ({ type: 'rated', id, rating: await ratePuzzle(request.def, { signal }) }));
+        break;
+      case 'redesign':
+        void run(id, async (signal) => ({
+          type: 'redesigned',
+          id,
+          suggestions: await suggestRegionRedesigns(request.def, { ...request.options, signal }),
+        }));
+        break;
+      case 'cancel':
+        running.get(id)?.abort();
+        break;
+    }
+  };
+}
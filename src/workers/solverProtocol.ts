@@ -0,0 +1,36 @@
+import type { PuzzleDef, PuzzleState } from '../types/puzzle';
+import type { Hint, TechniqueId } from '../types/hints';
+import type { Deduction } from '../types/deductions';
+import type { SolverLogEntry } from '../logic/solverEngine';
+import type { GeneratePuzzleOptions, PuzzleTarget, TargetedPuzzle } from '../logic/generator';
+import type { DifficultyRating } from '../logic/difficulty';
+import type { RedesignOptions, RedesignSuggestion } from '../logic/regionRedesign';
+
+/**
+ * Messages between the UI and the solver worker. Every request carries an id;
+ * the worker answers with any number of progress/deductions/log messages for
+ * that id followed by exactly one of its result (result for a hint,
+ * generated, rated or redesigned for the other jobs), cancelled or error.
+ */
+
+export type GenerateRequestOptions = GeneratePuzzleOptions & PuzzleTarget;
+
+export type RedesignRequestOptions = Omit<RedesignOptions, 'signal'>;
+
+export type SolverRequest =
+  | { type: 'find-hint'; id: number; state: PuzzleState; enabledTechniques?: TechniqueId[]; trialDepth?: number }
+  | { type: 'generate'; id: number; options: GenerateRequestOptions }
+  | { type: 'rate'; id: number; def: PuzzleDef }
+  | { type: 'redesign'; id: number; def: PuzzleDef; options: RedesignRequestOptions }
+  | { type: 'cancel'; id: number };
+
+export type SolverResponse =
+  | { type: 'progress'; id: number; label: string }
+  | { type: 'deductions'; id: number; deductions: Deduction[] }
+  | { type: 'log'; id: number; entry: SolverLogEntry }
+  | { type: 'result'; id: number; hint: Hint | null }
+  | { type: 'generated'; id: number; puzzle: TargetedPuzzle | null }
+  | { type: 'rated'; id: number; rating: DifficultyRating }
+  | { type: 'redesigned'; id: number; suggestions: RedesignSuggestion[] }
+  | { type: 'cancelled'; id: number }
+  | { type: 'error'; id: number; message: string };
@@ -0,0 +1,82 @@
+import { bench, describe } from 'vitest';
+import type { Coords, PuzzleState } from '../src/types/puzzle';
+import { difference, intersection, regionCells, rowCells } from '../src/logic/helpers';
+import { countSolutions } from '../src/logic/search';
+import { findOvercountingHint } from '../src/logic/techniques/overcounting';
+import { findByAThreadHint } from '../src/logic/techniques/byAThread';
+import { parsePuzzleString } from '../src/logic/puzzleText';
+import { puzzles } from './puzzles';
+
+// Run with `npm run bench`. The "array" cases are the Coords[] set operations
+// helpers.ts used before the bitboard port, kept here for comparison.
+
+function arrayIntersection(a: Coords[], b: Coords[]): Coords[] {
+  const result: Coords[] = [];
+  for (const cell of a) {
+    if (!b.some((other) => other.row === cell.row && other.col === cell.col)) continue;
+    if (!result.some((other) => other.row === cell.row && other.col === cell.col)) result.push(cell);
+  }
+  return result;
+}
+
+function arrayDifference(a: Coords[], b: Coords[]): Coords[] {
+  const result: Coords[] = [];
+  for (const cell of a) {
+    if (b.some((other) => other.row === cell.row && other.col === cell.col)) continue;
+    if (!result.some((other) => other.row === cell.row && other.col === cell.col)) result.push(cell);
+  }
+  return result;
+}
+
+// Puzzle 1 with the stars of its first three rows given
+const parsed = parsePuzzleString(puzzles[0]);
+const state: PuzzleState = {
+  def: { size: 10, starsPerUnit: 2, regions: parsed.regions },
+  cells: parsed.cells.map((row, r) => row.map((cell) => (cell === 'star' && r < 3 ? 'star' : 'empty'))),
+};
+
+const emptyState: PuzzleState = {
+  def: state.def,
+  cells: state.cells.map((row) => row.map(() => 'empty')),
+};
+
+const rows = Array.from({ length: 10 }, (_, r) => rowCells(state, r));
+const regions = Array.from({ length: 10 }, (_, id) => regionCells(state, id));
+
+describe('set operations (every row against every region)', () => {
+  bench('array', () => {
+    for (const row of rows) {
+      for (const region of regions) {
+        arrayIntersection(region, row);
+        arrayDifference(region, row);
+      }
+    }
+  });
+
+  bench('bitboard', () => {
+    for (const row of rows) {
+      for (const region of regions) {
+        intersection(region, row);
+        difference(region, row);
+      }
+    }
+  });
+});
+
+describe('search and techniques', () => {
+  bench('countSolutions', () => {
+    countSolutions(state, { maxCount: 2, timeoutMs: 10000 });
+  });
+
+  bench('countSolutions (empty board)', () => {
+    countSolutions(emptyState, { maxCount: 2, timeoutMs: 10000 });
+  });
+
+  bench('overcounting', () => {
+    findOvercountingHint(state);
+  });
+
+  bench('by-a-thread', () => {
+    findByAThreadHint(state);
+  }, { iterations: 3 });
+});
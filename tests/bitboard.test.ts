@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest';
+import type { CellState, PuzzleState } from '../src/types/puzzle';
+import {
+  addCell,
+  aroundBits,
+  bitBoardFromState,
+  countAnd,
+  createMask,
+  hasCell,
+  maskAndNot,
+  maskCount,
+  maskFromCoords,
+  maskToCoords,
+  neighbourMask,
+  popcount32,
+  removeCell,
+} from '../src/logic/bitboard';
+import { difference, intersection, union } from '../src/logic/helpers';
+import { countSolutions, countSolutionsAsync } from '../src/logic/search';
+import { parsePuzzleString } from '../src/logic/puzzleText';
+import { puzzles } from './puzzles';
+
+function puzzleState(index: number, keepMarks: (cell: CellState, row: number, col: number) => boolean): PuzzleState {
+  const parsed = parsePuzzleString(puzzles[index]);
+  return {
+    def: { size: 10, starsPerUnit: 2, regions: parsed.regions },
+    cells: parsed.cells.map((row, r) => row.map((cell, c) => (keepMarks(cell, r, c) ? cell : 'empty'))),
+  };
+}
+
+describe('bitboard masks', () => {
+  it('adds, removes and counts cells', () => {
+    const mask = createMask(5);
+    addCell(mask, 0, 4);
+    addCell(mask, 3, 0);
+    addCell(mask, 3, 2);
+    expect(hasCell(mask, 3, 2)).toBe(true);
+    expect(maskCount(mask)).toBe(3);
+    removeCell(mask, 3, 2);
+    expect(hasCell(mask, 3, 2)).toBe(false);
+    expect(popcount32(0xffffffff)).toBe(32);
+  });
+
+  it('lists cells in row-major order', () => {
+    const mask = maskFromCoords([{ row: 2, col: 1 }, { row: 0, col: 16 }, { row: 2, col: 0 }], 17);
+    expect(maskToCoords(mask)).toEqual([
+      { row: 0, col: 16 },
+      { row: 2, col: 0 },
+      { row: 2, col: 1 },
+    ]);
+  });
+
+  it('combines masks', () => {
+    const a = maskFromCoords([{ row: 0, col: 0 }, { row: 1, col: 1 }], 3);
+    const b = maskFromCoords([{ row: 1, col: 1 }, { row: 2, col: 2 }], 3);
+    expect(countAnd(a, b)).toBe(1);
+    expect(maskToCoords(maskAndNot(a, b))).toEqual([{ row: 0, col: 0 }]);
+  });
+
+  it('finds the 8 neighbours of a cell, clipped at the edges', () => {
+    expect(aroundBits(0)).toBe(0b11);
+    expect(maskCount(neighbourMask(maskFromCoords([{ row: 2, col: 2 }], 5), 5))).toBe(8);
+    expect(maskToCoords(neighbourMask(maskFromCoords([{ row: 0, col: 4 }], 5), 5))).toEqual([
+      { row: 0, col: 3 },
+      { row: 1, col: 3 },
+      { row: 1, col: 4 },
+    ]);
+  });
+
+  it('builds unit, star and candidate masks from a puzzle state', () => {
+    const state = puzzleState(0, (_cell, row) => row === 0);
+    const board = bitBoardFromState(state);
+    expect(board.regions).toHaveLength(10);
+    expect(maskCount(board.stars)).toBe(2);
+    expect(maskCount(board.crosses)).toBe(8);
+    expect(maskCount(board.candidates)).toBe(90);
+    expect(countAnd(board.rows[0], board.crosses)).toBe(8);
+    expect(countAnd(board.cols[3], board.stars)).toBe(1);
+    expect(maskCount(board.regions[9])).toBe(state.def.regions.flat().filter((id) => id === 9).length);
+  });
+});
+
+describe('helpers set operations', () => {
+  const a = [{ row: 0, col: 1 }, { row: 2, col: 3 }, { row: 0, col: 1 }, { row: 4, col: 4 }];
+  const b = [{ row: 4, col: 4 }, { row: 5, col: 0 }, { row: 0, col: 1 }];
+
+  it('keeps the order of the first list and drops duplicates', () => {
+    expect(intersection(a, b)).toEqual([{ row: 0, col: 1 }, { row: 4, col: 4 }]);
+    expect(difference(a, b)).toEqual([{ row: 2, col: 3 }]);
+    expect(union(a, b)).toEqual([
+      { row: 0, col: 1 },
+      { row: 2, col: 3 },
+      { row: 4, col: 4 },
+      { row: 5, col: 0 },
+    ]);
+  });
+});
+
+describe('bitboard-backed solution counting', () => {
+  it('agrees between the sync and async counters', async () => {
+    const state = puzzleState(0, (cell, row) => cell === 'star' && row < 5);
+    const sync = countSolutions(state, { maxCount: 50, timeoutMs: 10000 });
+    const async = await countSolutionsAsync(state, { maxCount: 50, timeoutMs: 10000 });
+    expect(sync.timedOut).toBe(false);
+    expect(async.count).toBe(sync.count);
+    expect(sync.count).toBeGreaterThan(0);
+  });
+
+  it('rejects states with touching stars', () => {
+    const state = puzzleState(0, () => false);
+    state.cells[0][0] = 'star';
+    state.cells[1][1] = 'star';
+    expect(countSolutions(state).count).toBe(0);
+  });
+});
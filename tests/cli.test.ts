@@ -0,0 +1,135 @@
+import { describe, expect, it } from 'vitest';
+import { EXIT_INCONCLUSIVE, EXIT_INVALID, EXIT_OK, EXIT_UNSOLVED, runCli } from '../src/cli/starBattle';
+import { generatePuzzle } from '../src/logic/generator';
+import { formatPuzzleString } from '../src/logic/puzzleText';
+import { getPuzzleFormat } from '../src/logic/formats';
+import { createCollection, entryToCollectionPuzzle, serializeCollection } from '../src/library/puzzleCollection';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+
+const generated = generatePuzzle({ size: 6, starsPerUnit: 1, seed: 5 })!;
+const emptyState = createEmptyPuzzleState(generated.def);
+
+function withoutSolutionStar() {
+  const state = createEmptyPuzzleState(generated.def);
+  const { row, col } = generated.solution[0];
+  state.cells[row][col] = 'cross';
+  return state;
+}
+
+// Regions A, B and C all fit in the first row
+const CROWDED_REGIONS = ['001122', '333333', '344443', '355553', '333333', '333333'].map((row) => [...row].map(Number));
+
+const files: Record<string, string> = {
+  'puzzle.txt': formatPuzzleString(emptyState),
+  'blocked.txt': formatPuzzleString(withoutSolutionStar()),
+  'puzzle.json': getPuzzleFormat('json').serialize(emptyState),
+  'broken.txt': '0 0 1\n0 1 1',
+  'set.json': serializeCollection(
+    createCollection(
+      [
+        { name: 'Generated', def: generated.def },
+        { name: 'Crowded', def: { ...generated.def, regions: CROWDED_REGIONS } },
+      ].map(({ name, def }) =>
+        entryToCollectionPuzzle({ id: name, name, source: '', author: '', rating: null, def, addedAt: 0, progress: null }),
+      ),
+    ),
+  ),
+  // One region per row: the search needs far more than a few ms to reach a placement, if there is one
+  'slow.txt': formatPuzzleString(
+    createEmptyPuzzleState({
+      size: 15,
+      starsPerUnit: 3,
+      regions: Array.from({ length: 15 }, (_, row) => Array(15).fill(row)),
+    }),
+  ),
+  'crowded.txt': formatPuzzleString(
+    createEmptyPuzzleState({
+      size: 6,
+      starsPerUnit: 1,
+      regions: CROWDED_REGIONS,
+    }),
+  ),
+};
+
+async function run(...args: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const code = await runCli(args, {
+    readFile: (path) => {
+      if (!(path in files)) throw new Error('no such file');
+      return files[path];
+    },
+    out: (line) => out.push(line),
+    err: (line) => err.push(line),
+  });
+  return { code, out: out.join('\n'), err: err.join('\n') };
+}
+
+describe('star-battle CLI', () => {
+  it('validates a puzzle file', async () => {
+    const result = await run('validate', 'puzzle.txt');
+    expect(result.code).toBe(EXIT_OK);
+    expect(result.out).toMatch(/valid 6×6 puzzle, 1 star/);
+    expect((await run('validate', 'puzzle.json')).out).toMatch(/valid 6×6 puzzle, 1 star/);
+  });
+
+  it('rejects unreadable, malformed and unknown input with usage errors', async () => {
+    expect((await run('validate', 'missing.txt')).code).toBe(EXIT_INVALID);
+    expect((await run('validate', 'broken.txt')).code).toBe(EXIT_INVALID);
+    const usage = await run('explode', 'puzzle.txt');
+    expect(usage.code).toBe(EXIT_INVALID);
+    expect(usage.err).toMatch(/Unknown command/);
+    expect((await run('solve', 'puzzle.txt', '--max-tier', '9')).code).toBe(EXIT_INVALID);
+  });
+
+  it('fails validation on structural errors', async () => {
+    const result = await run('validate', 'crowded.txt');
+    expect(result.code).toBe(EXIT_INVALID);
+    expect(result.err).toMatch(/crowded\.txt: error: Regions A, B, and C lie entirely within Row 0/);
+  });
+
+  it('validates every puzzle of a collection and runs the others on the chosen one', async () => {
+    const validated = await run('validate', 'set.json');
+    expect(validated.code).toBe(EXIT_INVALID);
+    expect(validated.out).toMatch(/^set\.json #1 \(Generated\): valid 6×6 puzzle/);
+    expect(validated.err).toMatch(/^set\.json #2 \(Crowded\): error: Regions A, B, and C/);
+    expect((await run('validate', 'set.json', '--puzzle', '1')).code).toBe(EXIT_OK);
+
+    expect((await run('count', 'set.json')).err).toBe('set.json: the collection has 2 puzzles; choose one with --puzzle <n>.');
+    expect((await run('count', 'set.json', '--puzzle', '1')).out).toBe('1 solution');
+    expect((await run('count', 'set.json', '--puzzle', '3')).code).toBe(EXIT_INVALID);
+  });
+
+  it('prints the step-by-step trace with technique names', async () => {
+    const result = await run('solve', 'puzzle.txt');
+    expect(result.code).toBe(EXIT_OK);
+    expect(result.out).toMatch(/^ {2}1\. [A-Z][\w /-]+: (stars?|cross(es)?) R\dC\d/m);
+    expect(result.out).toMatch(/Solved in \d+ steps?\.$/);
+  });
+
+  it('prints a hint and a rating', async () => {
+    const hint = await run('hint', 'puzzle.txt');
+    expect(hint.code).toBe(EXIT_OK);
+    expect(hint.out).toMatch(/R\dC\d/);
+
+    const rate = await run('rate', 'puzzle.txt');
+    expect(rate.code).toBe(EXIT_OK);
+    expect(rate.out).toMatch(/^(Easy|Medium|Hard|Expert) \(score \d+/);
+  });
+
+  it('counts solutions and fails when there are none', async () => {
+    const unique = await run('count', 'puzzle.txt');
+    expect(unique.code).toBe(EXIT_OK);
+    expect(unique.out).toBe('1 solution');
+
+    const blocked = await run('count', 'blocked.txt');
+    expect(blocked.code).toBe(EXIT_UNSOLVED);
+    expect(blocked.out).toBe('0 solutions');
+  });
+
+  it('reports a count that hit its time limit before any solution as inconclusive', async () => {
+    const slow = await run('count', 'slow.txt', '--timeout', '20');
+    expect(slow.code).toBe(EXIT_INCONCLUSIVE);
+    expect(slow.out).toBe('Inconclusive (limit reached): no solution found in 20 ms');
+  });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 import { createEmptyPuzzleDef, createEmptyPuzzleState, type PuzzleState } from '../src/types/puzzle';
-import { findCrossEmptyPatternsHint } from '../src/logic/techniques/crossEmptyPatterns';
+import { findCrossEmptyPatternsHint, findCrossEmptyPatternsResult } from '../src/logic/techniques/crossEmptyPatterns';
 
 describe('Cross-Empty Patterns technique', () => {
   describe('Row with 5 adjacent empty cells', () => {
@@ -408,4 +408,34 @@ describe('Cross-Empty Patterns technique', () => {
       }
     });
   });
+
+  describe('Deductions', () => {
+    const forcedEmpty = (state: PuzzleState) => {
+      const result = findCrossEmptyPatternsResult(state);
+      return (result.type === 'none' ? [] : result.deductions ?? [])
+        .flatMap((deduction) => (deduction.kind === 'cell' && deduction.type === 'forceEmpty' ? [deduction.cell] : []));
+    };
+
+    it('crosses beside the middle of 3 contiguous empty cells when a row needs 1 more star', () => {
+      const state = createEmptyPuzzleState(createEmptyPuzzleDef());
+      state.cells[5][0] = 'star';
+      for (let col = 1; col <= 6; col += 1) state.cells[5][col] = 'cross';
+
+      expect(forcedEmpty(state)).toEqual([
+        { row: 4, col: 8 },
+        { row: 6, col: 8 },
+      ]);
+    });
+
+    it('crosses beside the middle of 3 contiguous empty cells when a column needs 1 more star', () => {
+      const state = createEmptyPuzzleState(createEmptyPuzzleDef());
+      state.cells[0][5] = 'star';
+      for (let row = 1; row <= 6; row += 1) state.cells[row][5] = 'cross';
+
+      expect(forcedEmpty(state)).toEqual([
+        { row: 8, col: 4 },
+        { row: 8, col: 6 },
+      ]);
+    });
+  });
 });
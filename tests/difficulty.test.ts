@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import type { Hint, TechniqueId } from '../src/types/hints';
+import { ratePuzzle, rateSolvePath } from '../src/logic/difficulty';
+import { generatePuzzle } from '../src/logic/generator';
+
+function pathOf(techniques: TechniqueId[], solved = true) {
+  return {
+    solved,
+    steps: techniques.map((technique) => ({ technique, hint: {} as Hint })),
+  };
+}
+
+describe('rateSolvePath', () => {
+  it('labels a path by the hardest tier it needs', () => {
+    expect(rateSolvePath(pathOf(['trivial-marks', 'exclusion'])).label).toBe('easy');
+    expect(rateSolvePath(pathOf(['trivial-marks', 'squeeze'])).label).toBe('medium');
+    expect(rateSolvePath(pathOf(['trivial-marks', 'at-sea'])).label).toBe('hard');
+    expect(rateSolvePath(pathOf(['fish'])).label).toBe('expert');
+  });
+
+  it('weights steps by tier and counts each technique', () => {
+    const rating = rateSolvePath(pathOf(['trivial-marks', 'trivial-marks', 'squeeze']));
+    expect(rating.score).toBe(1 + 1 + 5);
+    expect(rating.steps).toBe(3);
+    expect(rating.maxTier).toBe(2);
+    expect(rating.techniqueCounts).toEqual({ 'trivial-marks': 2, squeeze: 1 });
+  });
+
+  it('bumps the label when the hardest tier is needed repeatedly', () => {
+    expect(rateSolvePath(pathOf(['squeeze', 'overcounting', 'undercounting'])).label).toBe('hard');
+    expect(rateSolvePath(pathOf(['trivial-marks', 'trivial-marks', 'trivial-marks'])).label).toBe('easy');
+  });
+
+  it('rates a path that gets stuck as expert', () => {
+    const rating = rateSolvePath(pathOf(['trivial-marks'], false));
+    expect(rating.label).toBe('expert');
+    expect(rating.solved).toBe(false);
+    expect(rating.score).toBe(101);
+  });
+});
+
+describe('ratePuzzle', () => {
+  it('rates a generated puzzle from its empty board', async () => {
+    const generated = generatePuzzle({ size: 6, starsPerUnit: 1, seed: 5 });
+    expect(generated).not.toBeNull();
+    const rating = await ratePuzzle(generated!.def);
+    expect(rating.solved).toBe(true);
+    expect(rating.steps).toBeGreaterThan(0);
+    expect(rating.score).toBeGreaterThanOrEqual(rating.steps);
+  });
+});
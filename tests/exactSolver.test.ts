@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import type { CellState, PuzzleDef, PuzzleState } from '../src/types/puzzle';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { countSolutions, countSolutionsAsync, nonAdjacentColumnSets } from '../src/logic/search';
+import { createSeededRandom, growRegions, randomStarSolution } from '../src/logic/generator';
+import { isPuzzleComplete, validateState } from '../src/logic/validation';
+import { TEST_REGIONS } from './testBoard';
+
+// Reference count: try every row-by-row choice of star columns and check the
+// finished grid against the rules and the given marks.
+function bruteForceCount(state: PuzzleState): number {
+  const { size, starsPerUnit, regions } = state.def;
+  const options = nonAdjacentColumnSets(size, starsPerUnit);
+  const chosen: number[][] = [];
+  let count = 0;
+
+  function rowFits(row: number, cols: number[]): boolean {
+    for (let c = 0; c < size; c++) {
+      const cell = state.cells[row][c];
+      if (cell === 'star' && !cols.includes(c)) return false;
+      if (cell === 'cross' && cols.includes(c)) return false;
+    }
+    return row === 0 || chosen[row - 1].every((prev) => cols.every((col) => Math.abs(prev - col) > 1));
+  }
+
+  function isValid(): boolean {
+    const colCounts = new Map<number, number>();
+    const regionCounts = new Map<number, number>();
+    chosen.forEach((cols, row) => {
+      for (const col of cols) {
+        colCounts.set(col, (colCounts.get(col) ?? 0) + 1);
+        regionCounts.set(regions[row][col], (regionCounts.get(regions[row][col]) ?? 0) + 1);
+      }
+    });
+    const regionIds = new Set(regions.flat());
+    return (
+      [...Array(size).keys()].every((col) => colCounts.get(col) === starsPerUnit) &&
+      [...regionIds].every((id) => regionCounts.get(id) === starsPerUnit)
+    );
+  }
+
+  function build(row: number): void {
+    if (row === size) {
+      if (isValid()) count++;
+      return;
+    }
+    for (const cols of options) {
+      if (!rowFits(row, cols)) continue;
+      chosen.push(cols);
+      build(row + 1);
+      chosen.pop();
+    }
+  }
+
+  build(0);
+  return count;
+}
+
+function randomLayout(size: number, seed: number): PuzzleDef | null {
+  const random = createSeededRandom(seed);
+  const stars = randomStarSolution(size, 1, random);
+  const regions = stars ? growRegions(size, 1, stars, random) : null;
+  return regions ? { size, starsPerUnit: 1, regions } : null;
+}
+
+describe('exact solution search', () => {
+  it('matches a brute-force count on small layouts', () => {
+    let checked = 0;
+    for (let seed = 1; seed <= 40; seed++) {
+      const def = randomLayout(5 + (seed % 2), seed);
+      if (!def) continue;
+      const state = createEmptyPuzzleState(def);
+      const result = countSolutions(state, { timeoutMs: 10000 });
+      expect(result.timedOut).toBe(false);
+      expect(result.count).toBe(bruteForceCount(state));
+      checked++;
+    }
+    expect(checked).toBeGreaterThan(20);
+  });
+
+  it('respects given stars and crosses', () => {
+    const random = createSeededRandom(99);
+    for (let seed = 1; seed <= 20; seed++) {
+      const def = randomLayout(6, seed);
+      if (!def) continue;
+      const state = createEmptyPuzzleState(def);
+      for (let i = 0; i < 4; i++) {
+        const row = Math.floor(random() * 6);
+        const col = Math.floor(random() * 6);
+        state.cells[row][col] = random() < 0.25 ? 'star' : 'cross';
+      }
+      expect(countSolutions(state, { timeoutMs: 10000 }).count).toBe(bruteForceCount(state));
+    }
+  });
+
+  it('reports complete, valid solutions', () => {
+    const solutions: CellState[][][] = [];
+    const def: PuzzleDef = { size: 10, starsPerUnit: 2, regions: TEST_REGIONS };
+    countSolutions(createEmptyPuzzleState(def), { maxCount: 5, onSolution: (cells) => solutions.push(cells) });
+    expect(solutions.length).toBeGreaterThan(0);
+    for (const cells of solutions) {
+      const state = { def, cells };
+      expect(isPuzzleComplete(state)).toBe(true);
+      expect(validateState(state)).toEqual([]);
+    }
+  });
+
+  it('settles an empty 10×10 board well within the default timeout', () => {
+    const state = createEmptyPuzzleState({ size: 10, starsPerUnit: 2, regions: TEST_REGIONS });
+    const result = countSolutions(state, { maxCount: 2 });
+    expect(result.timedOut).toBe(false);
+    expect(result.count).toBe(1);
+  });
+
+  it('gives the same count from the async variant and stops when aborted', async () => {
+    const def = randomLayout(6, 3)!;
+    const state = createEmptyPuzzleState(def);
+    const result = await countSolutionsAsync(state, { timeoutMs: 10000 });
+    expect(result.count).toBe(countSolutions(state, { timeoutMs: 10000 }).count);
+
+    const controller = new AbortController();
+    controller.abort();
+    const aborted = await countSolutionsAsync(state, { signal: controller.signal });
+    expect(aborted.aborted).toBe(true);
+    expect(aborted.cappedAtMax).toBe(false);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleState } from '../src/types/puzzle';
+import { findForcingChainHint } from '../src/logic/techniques/forcingChain';
+import { findAllHints } from '../src/logic/solverEngine';
+import { puzzles, solutionOf, withMarks } from './puzzles';
+
+// Puzzle 1 part-way through: row 1 still needs a star at (1, 6) or (1, 7).
+const MARKS = `
+..x.x.....
+.*........
+....*x...*
+*....x....
+.......x..
+....x.....
+x...x....x
+....xx.x..
+..*.x.x..x
+........x.`;
+
+function branchingState(): PuzzleState {
+  return withMarks(solutionOf(puzzles[0]).empty, MARKS);
+}
+
+describe('forcing chain technique', () => {
+  it('only marks cells the way the solution does', () => {
+    for (const text of puzzles) {
+      const { empty, solution } = solutionOf(text);
+      const state = { def: empty.def, cells: empty.cells.map((row) => [...row]) };
+      // Reveal the solution row by row so the technique sees partial boards
+      for (let r = 0; r < state.def.size; r++) {
+        state.cells[r] = [...solution[r]];
+        const hint = findForcingChainHint(state);
+        if (!hint) continue;
+        const mark = hint.kind === 'place-star' ? 'star' : 'cross';
+        for (const cell of hint.resultCells) expect(solution[cell.row][cell.col]).toBe(mark);
+      }
+    }
+
+    const { solution } = solutionOf(puzzles[0]);
+    const hint = findForcingChainHint(branchingState());
+    const mark = hint!.kind === 'place-star' ? 'star' : 'cross';
+    for (const cell of hint!.resultCells) expect(solution[cell.row][cell.col]).toBe(mark);
+  });
+
+  it('lists both branches and the marks they share', () => {
+    const hint = findForcingChainHint(branchingState());
+    expect(hint).not.toBeNull();
+    expect(hint!.kind).toBe('place-cross');
+    expect(hint!.resultCells).toEqual([
+      { row: 0, col: 6 },
+      { row: 0, col: 7 },
+    ]);
+    expect(hint!.details).toEqual([
+      'The board already implies 7 basic steps; both branches start after them.',
+      'Row 1 needs 1 star: R2C7 or R2C8.',
+      'Branch 1: R2C7 is a star.',
+      '1. Trivial marks: the star at R2C7 rules out R1C6, R1C7, R1C8, R2C8.',
+      'Branch 2: R2C8 is a star.',
+      '1. Trivial marks: the star at R2C8 rules out R1C7, R1C8, R1C9, R2C7.',
+      'Both branches: R1C7, R1C8 are crosses.',
+    ]);
+    expect(hint!.highlights?.rows).toEqual([1]);
+    expect(hint!.highlights?.branches).toEqual([[{ row: 1, col: 6 }], [{ row: 1, col: 7 }]]);
+  });
+
+  it('skips marks the board implies without branching', () => {
+    const state = branchingState();
+    const hint = findForcingChainHint(state);
+    // (0, 0) is next to the star at (1, 1) either way
+    expect(hint!.resultCells).not.toContainEqual({ row: 0, col: 0 });
+  });
+
+  it('runs through the solver engine', async () => {
+    const steps = await findAllHints(branchingState(), { enabledTechniques: ['forcing-chain'] });
+    expect(steps[0].hint.technique).toBe('forcing-chain');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { techniqueTiers } from '../src/types/hints';
+import {
+  createSeededRandom,
+  generatePuzzle,
+  generateTargetedPuzzle,
+  growRegions,
+  randomStarSolution,
+} from '../src/logic/generator';
+import { countSolutions } from '../src/logic/search';
+import { validateRegions } from '../src/logic/validation';
+
+function isConnected(regions: number[][], regionId: number): boolean {
+  const size = regions.length;
+  const cells: Array<[number, number]> = [];
+  regions.forEach((row, r) => row.forEach((id, c) => id === regionId && cells.push([r, c])));
+  const seen = new Set([`${cells[0][0]},${cells[0][1]}`]);
+  const queue = [cells[0]];
+  while (queue.length > 0) {
+    const [r, c] = queue.pop()!;
+    for (const [nr, nc] of [[r - 1, c], [r + 1, c], [r, c - 1], [r, c + 1]]) {
+      if (nr < 0 || nr >= size || nc < 0 || nc >= size) continue;
+      if (regions[nr][nc] !== regionId || seen.has(`${nr},${nc}`)) continue;
+      seen.add(`${nr},${nc}`);
+      queue.push([nr, nc]);
+    }
+  }
+  return seen.size === cells.length;
+}
+
+describe('seeded random', () => {
+  it('repeats the same sequence for the same seed', () => {
+    const a = createSeededRandom(42);
+    const b = createSeededRandom(42);
+    const seqA = Array.from({ length: 5 }, () => a());
+    const seqB = Array.from({ length: 5 }, () => b());
+    expect(seqA).toEqual(seqB);
+    expect(seqA.every((x) => x >= 0 && x < 1)).toBe(true);
+  });
+});
+
+describe('generator building blocks', () => {
+  it('places a valid star solution', () => {
+    const stars = randomStarSolution(8, 2, createSeededRandom(3))!;
+    expect(stars).toHaveLength(16);
+    for (let i = 0; i < 8; i += 1) {
+      expect(stars.filter((s) => s.row === i)).toHaveLength(2);
+      expect(stars.filter((s) => s.col === i)).toHaveLength(2);
+    }
+    for (const a of stars) {
+      for (const b of stars) {
+        if (a === b) continue;
+        expect(Math.max(Math.abs(a.row - b.row), Math.abs(a.col - b.col))).toBeGreaterThan(1);
+      }
+    }
+  });
+
+  it('grows connected regions holding exactly starsPerUnit stars each', () => {
+    const random = createSeededRandom(11);
+    let regions: number[][] | null = null;
+    let stars = randomStarSolution(8, 2, random)!;
+    for (let i = 0; i < 20 && !regions; i += 1) {
+      stars = randomStarSolution(8, 2, random)!;
+      regions = growRegions(8, 2, stars, random);
+    }
+    expect(regions).not.toBeNull();
+    expect(validateRegions({ size: 8, starsPerUnit: 2, regions: regions! })).toEqual([]);
+    for (let id = 0; id < 8; id += 1) {
+      expect(stars.filter((s) => regions![s.row][s.col] === id)).toHaveLength(2);
+      expect(isConnected(regions!, id)).toBe(true);
+    }
+  });
+});
+
+describe('generatePuzzle', () => {
+  it.each([
+    [6, 1],
+    [8, 2],
+  ])('generates a uniquely solvable size %i puzzle with %i star(s) per unit', (size, starsPerUnit) => {
+    const generated = generatePuzzle({ size, starsPerUnit, seed: 1 });
+    expect(generated).not.toBeNull();
+    const { def, solution } = generated!;
+    expect(def.size).toBe(size);
+    expect(def.starsPerUnit).toBe(starsPerUnit);
+    expect(solution).toHaveLength(size * starsPerUnit);
+    expect(validateRegions(def)).toEqual([]);
+
+    const result = countSolutions(createEmptyPuzzleState(def), { maxCount: 2, timeoutMs: 10000 });
+    expect(result.timedOut).toBe(false);
+    expect(result.count).toBe(1);
+  });
+
+  it('reproduces the same puzzle from the same seed', () => {
+    const first = generatePuzzle({ size: 6, starsPerUnit: 1, seed: 1234 });
+    const second = generatePuzzle({ size: 6, starsPerUnit: 1, seed: 1234 });
+    expect(first).not.toBeNull();
+    expect(second!.def.regions).toEqual(first!.def.regions);
+    expect(second!.seed).toBe(1234);
+  });
+
+  it('gives up on impossible parameters', () => {
+    // Nine stars per row fill every other cell, so neighbouring rows always collide.
+    expect(generatePuzzle({ size: 17, starsPerUnit: 9, seed: 1, maxAttempts: 2 })).toBeNull();
+  });
+});
+
+describe('generateTargetedPuzzle', () => {
+  it('keeps only layouts the allowed tiers can solve', async () => {
+    const generated = await generateTargetedPuzzle({ size: 6, starsPerUnit: 1, seed: 5, maxTier: 1 });
+    expect(generated).not.toBeNull();
+    expect(generated!.path.length).toBeGreaterThan(0);
+    expect(generated!.path.every((step) => techniqueTiers[step.technique] <= 1)).toBe(true);
+  });
+
+  it('keeps only layouts whose solve path uses the required technique', async () => {
+    const generated = await generateTargetedPuzzle({
+      size: 6,
+      starsPerUnit: 1,
+      seed: 1,
+      requireTechnique: 'overcounting',
+    });
+    expect(generated).not.toBeNull();
+    expect(generated!.path.some((step) => step.technique === 'overcounting')).toBe(true);
+  });
+
+  it('rejects a required technique above the maximum tier', async () => {
+    const generated = await generateTargetedPuzzle({ size: 6, starsPerUnit: 1, maxTier: 1, requireTechnique: 'fish' });
+    expect(generated).toBeNull();
+  });
+});
@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleState } from '../src/types/puzzle';
+import type { HistoryTree } from '../src/types/history';
+import { createEmptyPuzzleDef, createEmptyPuzzleState } from '../src/types/puzzle';
+import {
+  addHistoryNode,
+  branchForkLength,
+  createHistoryTree,
+  historyLine,
+  linearHistoryTree,
+  moveInHistoryLine,
+  removeHistoryBranch,
+  renameHistoryBranch,
+  switchHistoryBranch,
+  trimHistory,
+} from '../src/store/historyTree';
+import { historyTreeErrors } from '../src/store/storedSchemas';
+
+const EMPTY = createEmptyPuzzleState(createEmptyPuzzleDef(5, 1));
+
+function withStar(row: number, col: number): PuzzleState {
+  const state = createEmptyPuzzleState(EMPTY.def);
+  state.cells[row][col] = 'star';
+  return state;
+}
+
+function step(label: string) {
+  return { label, hint: null };
+}
+
+// Start, then A1 B1 C1 on Main; back to A1, then D1 on a new branch
+function forkedTree(): HistoryTree {
+  const tree = createHistoryTree(EMPTY, step('Start'));
+  addHistoryNode(tree, withStar(0, 0), step('A1'));
+  addHistoryNode(tree, withStar(1, 0), step('B1'));
+  addHistoryNode(tree, withStar(2, 0), step('C1'));
+  moveInHistoryLine(tree, 1);
+  addHistoryNode(tree, withStar(3, 0), step('D1'));
+  return tree;
+}
+
+const labels = (tree: HistoryTree, branch?: number) => historyLine(tree, branch).map((node) => node.step.label);
+
+describe('history tree', () => {
+  it('starts a branch for a change made after undoing, keeping the old line', () => {
+    const tree = forkedTree();
+    expect(tree.branches.map((branch) => branch.name)).toEqual(['Main', 'Branch 2']);
+    expect(labels(tree)).toEqual(['Start', 'A1', 'D1']);
+    expect(labels(tree, 0)).toEqual(['Start', 'A1', 'B1', 'C1']);
+    expect(branchForkLength(tree, 0)).toBe(0);
+    expect(branchForkLength(tree, 1)).toBe(2);
+
+    // At the tip of a branch, changes extend it
+    addHistoryNode(tree, withStar(4, 0), step('E1'));
+    expect(tree.branches).toHaveLength(2);
+    expect(labels(tree)).toEqual(['Start', 'A1', 'D1', 'E1']);
+  });
+
+  it('switches, renames and deletes branches', () => {
+    const tree = forkedTree();
+    expect(switchHistoryBranch(tree, 0)).toBe(true);
+    expect(tree.current).toBe(historyLine(tree).at(-1)!.id);
+    expect(renameHistoryBranch(tree, 1, '  What if D1  ')).toBe(true);
+    expect(renameHistoryBranch(tree, 1, ' ')).toBe(false);
+    expect(tree.branches[1].name).toBe('What if D1');
+
+    expect(removeHistoryBranch(tree, 0)).toBe(true);
+    expect(tree.branch).toBe(1);
+    expect(tree.nodes.map((node) => node.step.label)).toEqual(['Start', 'A1', 'D1']);
+    expect(removeHistoryBranch(tree, 1)).toBe(false);
+  });
+
+  it('drops the oldest boards down to the first fork, then the ends of older branches', () => {
+    const tree = forkedTree();
+    trimHistory(tree, 3);
+    expect(labels(tree, 0)).toEqual(['A1', 'B1']);
+    expect(labels(tree, 1)).toEqual(['A1', 'D1']);
+    expect(tree.nodes).toHaveLength(3);
+  });
+
+  it('keeps the history within its size after a fork at the first board', () => {
+    const tree = createHistoryTree(EMPTY, step('Start'));
+    for (let row = 0; row < 4; row += 1) addHistoryNode(tree, withStar(row, 0), step(`A${row + 1}`));
+    moveInHistoryLine(tree, 0);
+    for (let row = 0; row < 5; row += 1) {
+      addHistoryNode(tree, withStar(row, 1), step(`B${row + 1}`));
+      trimHistory(tree, 4);
+      expect(tree.nodes.length).toBeLessThanOrEqual(4);
+    }
+    // Main ran out of boards of its own and is gone
+    expect(tree.branches.map((branch) => branch.name)).toEqual(['Branch 2']);
+    expect(labels(tree)).toEqual(['B2', 'B3', 'B4', 'B5']);
+  });
+
+  it('turns a linear history into one branch', () => {
+    const tree = linearHistoryTree([EMPTY, withStar(0, 0), withStar(1, 1)], [step('Start'), step('A1'), step('B2')], 1);
+    expect(labels(tree)).toEqual(['Start', 'A1', 'B2']);
+    expect(tree.current).toBe(historyLine(tree)[1].id);
+  });
+
+  it('validates stored trees', () => {
+    expect(historyTreeErrors(JSON.parse(JSON.stringify(forkedTree())))).toEqual([]);
+    const tree = forkedTree();
+    tree.nodes[2].parent = 42;
+    tree.branches[1].name = '';
+    tree.current = 99;
+    expect(historyTreeErrors(tree)).toEqual([
+      'nodes[2].parent: no node has id 42.',
+      'branches[1].name: expected a name, got "".',
+      'current: expected a node id, got 99.',
+    ]);
+    expect(historyTreeErrors({ nodes: [], branches: [] })).toEqual(['nodes: expected a list of boards, got an array.']);
+  });
+
+  it('rejects stored trees whose parents loop or whose current board is off its branch', () => {
+    const looped = forkedTree();
+    looped.nodes[1].parent = 2;
+    expect(historyTreeErrors(looped)).toEqual(
+      [1, 2, 3, 4].map((index) => `nodes[${index}].parent: its parents loop back on themselves.`),
+    );
+
+    const twoRoots = forkedTree();
+    twoRoots.nodes[4].parent = null;
+    expect(historyTreeErrors(twoRoots)).toEqual(['nodes: expected one first board (parent null), found 2.']);
+
+    const offLine = forkedTree();
+    offLine.current = offLine.nodes[3].id;
+    expect(historyTreeErrors(offLine)).toEqual([
+      `current: expected a board on the line of branch ${offLine.branch}, got 3.`,
+    ]);
+  });
+});
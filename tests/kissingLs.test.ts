@@ -122,6 +122,28 @@ describe('Kissing Ls technique', () => {
     }
   });
 
+  it('only needs one cell left in the other L on a 1★ board', () => {
+    const regionMap = Array(10).fill(null).map(() => Array(10).fill(1));
+
+    // Region 2: corner (3,3), arms (3,4), (3,5) and (4,3)
+    regionMap[3][3] = 2;
+    regionMap[3][4] = 2;
+    regionMap[3][5] = 2;
+    regionMap[4][3] = 2;
+    // Region 3: corner (4,4), arms (4,5) and (5,4)
+    regionMap[4][4] = 3;
+    regionMap[4][5] = 3;
+    regionMap[5][4] = 3;
+
+    const state = makeStateWithCustomRegions(regionMap);
+    state.def.starsPerUnit = 1;
+    const hint = findKissingLsHint(state);
+
+    // A star at (3,5) still leaves (5,4) for region 3; only (4,4) touches all of region 2
+    expect(hint?.kind).toBe('place-cross');
+    expect(hint?.resultCells).toEqual([{ row: 4, col: 4 }]);
+  });
+
   it('returns null when no kissing Ls pattern exists', () => {
     const regionMap = Array(10).fill(null).map(() => Array(10).fill(1));
     
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyPuzzleDef, createEmptyPuzzleState } from '../src/types/puzzle';
+import {
+  loadRecord,
+  loadRecoveryItems,
+  RECOVERY_KEY,
+  saveRecord,
+  type KeyValueStorage,
+  type RecordSchema,
+} from '../src/store/persistence';
+import { puzzleRecord, puzzleStateErrors, uiRecord } from '../src/store/storedSchemas';
+
+function memoryStorage(initial: Record<string, string> = {}): KeyValueStorage & { data: Map<string, string> } {
+  const data = new Map(Object.entries(initial));
+  return {
+    data,
+    getItem: (key) => data.get(key) ?? null,
+    setItem: (key, value) => void data.set(key, value),
+    removeItem: (key) => void data.delete(key),
+  };
+}
+
+const puzzle = createEmptyPuzzleState(createEmptyPuzzleDef(6, 1));
+
+describe('versioned records', () => {
+  it('round-trips a record in a { version, data } wrapper', () => {
+    const storage = memoryStorage();
+    saveRecord(puzzleRecord, { puzzle, libraryEntryId: 'abc' }, storage);
+    expect(JSON.parse(storage.data.get('star-battle-puzzle')!).version).toBe(puzzleRecord.version);
+    expect(loadRecord(puzzleRecord, storage)).toEqual({
+      status: 'loaded',
+      value: { puzzle, libraryEntryId: 'abc' },
+      migratedFrom: null,
+    });
+    expect(loadRecord(uiRecord, storage)).toEqual({ status: 'missing' });
+  });
+
+  it('migrates unversioned data from the legacy key', () => {
+    const storage = memoryStorage({
+      'star-battle-10x10-v1': JSON.stringify({ puzzle }),
+      'star-battle-10x10-ui-v1': JSON.stringify({ mode: 'play', trialDepth: 4 }),
+    });
+    const loaded = loadRecord(puzzleRecord, storage);
+    expect(loaded).toEqual({ status: 'loaded', value: { puzzle, libraryEntryId: null }, migratedFrom: 1 });
+    expect(storage.data.has('star-battle-10x10-v1')).toBe(false);
+    expect(JSON.parse(storage.data.get('star-battle-puzzle')!)).toEqual({
+      version: 2,
+      data: { puzzle, libraryEntryId: null },
+    });
+    expect(loadRecord(uiRecord, storage)).toMatchObject({ value: { mode: 'play', trialDepth: 4 } });
+  });
+
+  it('runs migrations in order', () => {
+    const schema: RecordSchema<{ n: number[] }> = {
+      key: 'k',
+      label: 'Test',
+      version: 3,
+      migrations: {
+        1: (data) => ({ n: [(data as { n: number }).n] }),
+        2: (data) => ({ n: [...(data as { n: number[] }).n, 2] }),
+      },
+      validate: () => [],
+    };
+    const storage = memoryStorage({ k: JSON.stringify({ version: 1, data: { n: 1 } }) });
+    expect(loadRecord(schema, storage)).toMatchObject({ value: { n: [1, 2] }, migratedFrom: 1 });
+    expect(JSON.parse(storage.data.get('k')!).version).toBe(3);
+  });
+
+  it('keeps data that cannot be loaded for recovery', () => {
+    const broken = JSON.stringify({ version: 2, data: { puzzle: { ...puzzle, cells: [] }, libraryEntryId: null } });
+    const storage = memoryStorage({
+      'star-battle-puzzle': broken,
+      'star-battle-ui': '{"version": 2, "data": {"mode": "sideways"',
+    });
+
+    const puzzleResult = loadRecord(puzzleRecord, storage);
+    expect(puzzleResult.status).toBe('failed');
+    const uiResult = loadRecord(uiRecord, storage);
+    expect(uiResult.status).toBe('failed');
+
+    const items = loadRecoveryItems(storage);
+    expect(items.map((item) => [item.key, item.label])).toEqual([
+      ['star-battle-puzzle', 'Current puzzle'],
+      ['star-battle-ui', 'Display and solver settings'],
+    ]);
+    expect(items[0].raw).toBe(broken);
+    expect(items[0].errors).toEqual(['puzzle.cells: expected 6 rows, got 0.']);
+    expect(items[1].errors[0]).toMatch(/^Not valid JSON/);
+    // The bad records are out of the way of the next save
+    expect(storage.data.has('star-battle-puzzle')).toBe(false);
+    expect(storage.data.has(RECOVERY_KEY)).toBe(true);
+  });
+
+  it('does not load data saved by a newer version', () => {
+    const storage = memoryStorage({ 'star-battle-ui': JSON.stringify({ version: 9, data: {} }) });
+    const result = loadRecord(uiRecord, storage);
+    expect(result.status === 'failed' && result.item.errors).toEqual([
+      'Saved by a newer version of the app (format 9); this one reads up to format 2.',
+    ]);
+  });
+});
+
+describe('stored data validation', () => {
+  it('names the fields that do not match the types', () => {
+    const bad = { def: { size: 6, starsPerUnit: 4, regions: puzzle.def.regions }, cells: puzzle.cells.map((row) => [...row]) };
+    (bad.cells[2] as string[])[3] = 'moon';
+    expect(puzzleStateErrors(bad)).toEqual([
+      'puzzle.def.starsPerUnit: expected a whole number from 1 to 1, got 4.',
+      `puzzle.cells[2][3]: expected 'empty', 'star' or 'cross', got "moon".`,
+    ]);
+    expect(puzzleStateErrors({ def: { size: 30 } })).toEqual([
+      'puzzle.def.size: expected a whole number from 5 to 17, got 30.',
+    ]);
+    expect(uiRecord.validate({ mode: 'play', regionTheme: 'plaid', showLog: 'yes' })).toEqual([
+      'showLog: expected true or false, got "yes".',
+      'regionTheme: expected a colour theme name, got "plaid".',
+    ]);
+  });
+});
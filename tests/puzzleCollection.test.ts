@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { CollectionFileError, loadCollectionFile } from '../src/cli/collectionFile';
+import { createMemoryBackend } from '../src/library/libraryBackend';
+import { createPuzzleLibrary } from '../src/library/puzzleLibrary';
+import {
+  collectionErrors,
+  collectionPuzzleToEntry,
+  createCollection,
+  entryToCollectionPuzzle,
+  readCollection,
+  serializeCollection,
+  type CollectionPuzzle,
+} from '../src/library/puzzleCollection';
+import { importCollection, library } from '../src/store/puzzleStore';
+
+const here = dirname(fileURLToPath(import.meta.url));
+const testPuzzles = loadCollectionFile(join(here, 'puzzles.json'));
+
+const PUZZLE: CollectionPuzzle = {
+  ...testPuzzles.puzzles[0],
+  title: 'Monday',
+  author: 'Ada',
+  source: 'Weekly set',
+  difficulty: { label: 'hard', score: 41 },
+  tags: ['weekly', 'regions-l'],
+};
+
+function withPuzzle(changes: Partial<CollectionPuzzle>): unknown {
+  return createCollection([{ ...PUZZLE, ...changes }]);
+}
+
+describe('puzzle collections', () => {
+  it('loads the solver test puzzles with their solutions', () => {
+    expect(testPuzzles.version).toBe(1);
+    expect(testPuzzles.puzzles.length).toBeGreaterThan(1);
+    expect(testPuzzles.puzzles.every((puzzle) => puzzle.solution?.length === puzzle.size)).toBe(true);
+  });
+
+  it('round-trips puzzles and their metadata through the library', async () => {
+    const lib = createPuzzleLibrary(createMemoryBackend());
+    const text = serializeCollection(createCollection([PUZZLE, testPuzzles.puzzles[1]], 'Set'));
+    const { collection } = readCollection(text);
+    for (const puzzle of collection!.puzzles) await lib.add(collectionPuzzleToEntry(puzzle));
+
+    const entries = await lib.list();
+    const saved = entries.find((entry) => entry.name === 'Monday')!;
+    expect(saved).toMatchObject({ author: 'Ada', source: 'Weekly set', rating: { label: 'hard', score: 41 } });
+    expect(saved.solution).toHaveLength(20);
+    expect(entryToCollectionPuzzle(saved)).toEqual(PUZZLE);
+    // Empty metadata is left out of the file
+    expect(Object.keys(entryToCollectionPuzzle(entries.find((entry) => entry.name !== 'Monday')!))).toEqual([
+      'title',
+      'size',
+      'stars',
+      'regions',
+      'solution',
+    ]);
+  });
+
+  it('names the fields that are wrong', () => {
+    expect(collectionErrors({ format: 'something-else' })).toEqual([
+      'format: expected "star-battle-collection", got "something-else".',
+    ]);
+    expect(collectionErrors({ ...createCollection([]), version: 3 })).toEqual([
+      'Written by a newer version of the app (format 3); this one reads up to format 1.',
+    ]);
+    const regions = [...PUZZLE.regions];
+    regions[2] = 'HHJJJGGGGZ';
+    expect(collectionErrors(withPuzzle({ title: ' ', regions, tags: 'weekly' as never }))).toEqual([
+      'puzzles[0].title: expected a name, got " ".',
+      'puzzles[0].tags: expected a list of strings, got "weekly".',
+      'puzzles[0].regions[2]: character 10 is "Z"; expected a letter from A to J.',
+    ]);
+    expect(collectionErrors(withPuzzle({ stars: 3, solution: PUZZLE.solution!.slice(1) }))).toEqual([
+      'puzzles[0].stars: expected a whole number from 1 to 2, got 3.',
+      'puzzles[0].solution: expected 10 rows, got 9.',
+    ]);
+  });
+
+  it('checks that a solution solves the puzzle', () => {
+    const solution = [...PUZZLE.solution!];
+    solution[0] = '*..*......';
+    expect(collectionErrors(withPuzzle({ solution }))).toEqual([
+      'puzzles[0].solution: the stars do not solve the puzzle (2 per row, column and region, none touching).',
+    ]);
+    expect(collectionErrors(withPuzzle({ regions: PUZZLE.regions.map((row) => row.replace(/J/g, 'I')) }))).toEqual([
+      'puzzles[0].regions: Region J does not appear anywhere on the board.',
+    ]);
+  });
+
+  it('reports files that cannot be loaded', () => {
+    expect(readCollection('{"format": ').errors[0]).toMatch(/^Not valid JSON/);
+    expect(() => loadCollectionFile(join(here, 'missing.json'))).toThrow(CollectionFileError);
+  });
+
+  it('imports a whole collection into the library, or nothing when it has problems', async () => {
+    const before = (await library.list()).length;
+    const bad = serializeCollection(createCollection([PUZZLE, { ...PUZZLE, size: 40 }]));
+    expect(await importCollection(bad)).toEqual({
+      added: 0,
+      errors: ['puzzles[1].size: expected a whole number from 5 to 17, got 40.'],
+    });
+    expect(await library.list()).toHaveLength(before);
+
+    const { source: _, ...unsourced } = PUZZLE;
+    const good = serializeCollection(createCollection([PUZZLE, unsourced], 'Autumn set'));
+    expect(await importCollection(good)).toEqual({ added: 2, errors: [] });
+    const sources = (await library.list()).filter((entry) => entry.name === 'Monday').map((entry) => entry.source);
+    expect(sources.sort()).toEqual(['Autumn set', 'Weekly set']);
+  });
+});
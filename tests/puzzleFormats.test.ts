@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleState } from '../src/types/puzzle';
+import { DEFAULT_STARS_PER_UNIT } from '../src/types/puzzle';
+import { detectPuzzleFormat, formatErrorText, parsePuzzle, puzzleFormats } from '../src/logic/formats';
+import { puzzles, solutionOf } from './puzzles';
+
+const BOARD: PuzzleState = {
+  def: {
+    size: 5,
+    starsPerUnit: 1,
+    regions: [
+      [0, 0, 1, 1, 1],
+      [0, 2, 2, 1, 1],
+      [0, 2, 3, 3, 1],
+      [4, 4, 3, 3, 3],
+      [4, 4, 4, 3, 3],
+    ],
+  },
+  cells: [
+    ['empty', 'empty', 'star', 'cross', 'empty'],
+    ['cross', 'empty', 'empty', 'empty', 'empty'],
+    ['empty', 'empty', 'empty', 'empty', 'empty'],
+    ['empty', 'empty', 'empty', 'empty', 'star'],
+    ['empty', 'empty', 'empty', 'empty', 'empty'],
+  ],
+};
+
+const EMPTY_CELLS = BOARD.cells.map((row) => row.map(() => 'empty'));
+
+describe('puzzle format registry', () => {
+  it('round-trips a board through every format and detects each one', () => {
+    for (const format of puzzleFormats) {
+      const text = format.serialize(BOARD);
+      expect(detectPuzzleFormat(text).id, format.id).toBe(format.id);
+      const result = parsePuzzle(text);
+      expect(result.error, format.id).toBeNull();
+      expect(result.puzzle, format.id).toEqual({
+        regions: BOARD.def.regions,
+        cells: format.keepsMarks ? BOARD.cells : EMPTY_CELLS,
+        starsPerUnit: 1,
+      });
+    }
+  });
+
+  it('keeps the default star count, which a board without a header would not', () => {
+    const twoStars = solutionOf(puzzles[0]).empty;
+    expect(twoStars.def.starsPerUnit).toBe(DEFAULT_STARS_PER_UNIT);
+    for (const format of puzzleFormats) {
+      expect(parsePuzzle(format.serialize(twoStars)).puzzle?.starsPerUnit, format.id).toBe(DEFAULT_STARS_PER_UNIT);
+    }
+  });
+
+  it('serializes the shapes teammates paste', () => {
+    const byId = Object.fromEntries(puzzleFormats.map((format) => [format.id, format.serialize(BOARD)]));
+    expect(byId.letters).toBe('stars: 1\nAABBB\nACCBB\nACDDB\nEEDDD\nEEEDD');
+    expect(byId.dots.split('\n').slice(7)).toEqual(['..*x.', 'x....', '.....', '....*', '.....']);
+    expect(byId.csv.split('\n').slice(0, 2)).toEqual(['stars,1', '0,0,1s,1x,1']);
+    expect(JSON.parse(byId.json)).toEqual({ size: 5, starsPerUnit: 1, regions: BOARD.def.regions, cells: BOARD.cells });
+  });
+
+  it('reads lenient variants of each format', () => {
+    expect(parsePuzzle('a a b b c\nA A B C C\nD D B C C\nD E E E C\nD D E E E').puzzle?.regions[4]).toEqual([3, 3, 4, 4, 4]);
+    const tabs = parsePuzzle('1\t1\t2\t2\t2\n1\t3\t3\t2\t2\n1\t3\t4\t4\t2\n5\t5\t4\t4\t4\n5\t5\t5\t4\t4s');
+    expect(tabs.format.id).toBe('csv');
+    expect(tabs.puzzle?.regions).toEqual(BOARD.def.regions);
+    expect(tabs.puzzle?.cells[4][4]).toBe('star');
+    const saved = parsePuzzle(JSON.stringify(BOARD));
+    expect(saved.format.id).toBe('json');
+    expect(saved.puzzle).toEqual({ regions: BOARD.def.regions, cells: BOARD.cells, starsPerUnit: 1 });
+  });
+
+  it('uses the chosen format instead of detecting one', () => {
+    const result = parsePuzzle('0,0,1,1,1', 'tokens');
+    expect(result.format.id).toBe('tokens');
+    expect(formatErrorText(result.error!)).toBe('Line 1, column 1: Invalid token "0,0,1,1,1". Use e.g. "3", "3s", "3x".');
+  });
+});
+
+describe('format errors', () => {
+  it('points at the line and column of the problem', () => {
+    const errorOf = (text: string) => formatErrorText(parsePuzzle(text).error!);
+    expect(errorOf('0 0 1 1 1\n0 2 2 1 1\n0 2 3q 3 1\n4 4 3 3 3\n4 4 4 3 3')).toBe(
+      'Line 3, column 5: Invalid token "3q". Use e.g. "3", "3s", "3x".',
+    );
+    expect(errorOf('0,0,1,1,1\n0,2,,1,1\n0,2,3,3,1\n4,4,3,3,3\n4,4,4,3,3')).toBe(
+      'Line 2, column 5: Empty cell; every field needs a region number.',
+    );
+    expect(errorOf('AABBB\nACCBB\nACDDB\nEEDDD\nEEEDF')).toBe(
+      'Line 5, column 5: Region id F at row 5, col 5 is out of range A–E for a 5×5 board.',
+    );
+    expect(errorOf('AABBB\nACCBB\nACDDB\nEEDDD\nEEEDD\n\n.....\n..?..\n.....\n.....\n.....')).toBe(
+      'Line 8, column 3: Unexpected "?" in the marks; use ".", "*" or "x".',
+    );
+    expect(errorOf('{\n  "regions": [\n    [0, 1,]\n  ]\n}')).toMatch(/^Line 3, column 11: Not valid JSON/);
+    expect(errorOf('stars: 4\nAABBB\nACCBB\nACDDB\nEEDDD\nEEEDD')).toBe(
+      'Line 1: A 5×5 board supports 1 star per unit, got 4.',
+    );
+  });
+
+  it('explains JSON that parses but is not a puzzle', () => {
+    expect(parsePuzzle('{"regions": [[0, 1], [1, "b"]]}').error?.message).toBe(
+      'regions[1][1] must be a whole number, got "b".',
+    );
+    expect(parsePuzzle('{"size": 6, "regions": []}').error?.message).toBe('"size" is 6 but "regions" has 0 rows.');
+    expect(parsePuzzle('https://puzz.link/p?lits/5/5/abc').error?.message).toMatch(/not a Star Battle/);
+    expect(parsePuzzle('   ').error?.message).toBe('Paste a puzzle grid first.');
+  });
+});
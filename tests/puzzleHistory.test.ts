@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleDef } from '../src/types/puzzle';
+import type { Hint } from '../src/types/hints';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { techniqueNameById } from '../src/logic/techniques';
+import {
+  addCurrentPuzzleToLibrary,
+  applyHintToState,
+  handleCellClickPlay,
+  jumpToHistory,
+  library,
+  openLibraryEntry,
+  redo,
+  renameBranch,
+  replacePuzzleFromImport,
+  saveLibraryProgress,
+  store,
+  switchBranch,
+  undo,
+} from '../src/store/puzzleStore';
+
+const DEF: PuzzleDef = {
+  size: 5,
+  starsPerUnit: 1,
+  regions: [
+    [0, 0, 1, 1, 1],
+    [0, 2, 2, 1, 1],
+    [0, 2, 3, 3, 1],
+    [4, 4, 3, 3, 3],
+    [4, 4, 4, 3, 3],
+  ],
+};
+
+const HINT: Hint = {
+  id: 'test-hint',
+  kind: 'place-star',
+  technique: 'trivial-marks',
+  resultCells: [{ row: 4, col: 4 }],
+  explanation: 'The last cell of row 5.',
+  highlights: { rows: [4] },
+};
+
+function importBoard() {
+  replacePuzzleFromImport(DEF.regions.map((row) => [...row]), createEmptyPuzzleState(DEF).cells, 1);
+  return store.historyIndex;
+}
+
+const labels = () => store.historySteps.map((step) => step.label);
+
+describe('undo history', () => {
+  it('labels each entry with the change that produced it', () => {
+    const start = importBoard();
+    handleCellClickPlay({ row: 0, col: 0 });
+    handleCellClickPlay({ row: 0, col: 0 });
+    applyHintToState(HINT);
+
+    expect(labels().slice(start)).toEqual(['Import puzzle', 'Cross R1C1', 'Star R1C1', techniqueNameById['trivial-marks']]);
+    expect(store.history).toHaveLength(store.historySteps.length);
+    expect(store.historySteps.at(-1)?.hint).toEqual({
+      kind: 'place-star',
+      technique: 'trivial-marks',
+      resultCells: [{ row: 4, col: 4 }],
+      explanation: 'The last cell of row 5.',
+      highlights: { rows: [4] },
+    });
+  });
+
+  it('keeps the board of each entry, so undo, redo and jumps restore it', () => {
+    const start = importBoard();
+    handleCellClickPlay({ row: 0, col: 0 });
+    handleCellClickPlay({ row: 0, col: 0 });
+
+    undo();
+    expect(store.puzzle.cells[0][0]).toBe('cross');
+    redo();
+    expect(store.puzzle.cells[0][0]).toBe('star');
+    store.currentHint = HINT;
+    jumpToHistory(start);
+    expect(store.puzzle.cells[0][0]).toBe('empty');
+    expect(store.historyIndex).toBe(start);
+    expect(store.currentHint).toBeNull();
+
+    // A change after jumping back continues on a new branch
+    handleCellClickPlay({ row: 2, col: 2 });
+    expect(labels().slice(start)).toEqual(['Import puzzle', 'Cross R3C3']);
+    jumpToHistory(99);
+    expect(store.historyIndex).toBe(start + 1);
+  });
+
+  it('saves the steps with library progress', async () => {
+    importBoard();
+    const entry = await addCurrentPuzzleToLibrary({ name: 'History' });
+    applyHintToState(HINT);
+    await saveLibraryProgress();
+    const steps = store.historySteps.map((step) => ({ ...step }));
+
+    const progress = (await library.get(entry.id))?.progress;
+    expect(progress?.historyTree?.nodes).toHaveLength(store.historyTree.nodes.length);
+    expect(progress).not.toHaveProperty('history');
+
+    importBoard();
+    expect(await openLibraryEntry(entry.id)).toBe(true);
+    expect(store.historySteps).toEqual(steps);
+    expect(store.historySteps[store.historyIndex].hint?.technique).toBe('trivial-marks');
+  });
+
+  it('resumes progress saved as one line before branches', async () => {
+    importBoard();
+    const entry = await addCurrentPuzzleToLibrary({ name: 'Linear' });
+    handleCellClickPlay({ row: 0, col: 0 });
+    handleCellClickPlay({ row: 0, col: 0 });
+    undo();
+    const start = store.historyIndex - 1;
+    const { puzzle, history, historySteps, historyIndex } = store;
+    await library.saveProgress(entry.id, { puzzle, history, historySteps, historyIndex, stars: 0, completed: false });
+
+    importBoard();
+    expect(await openLibraryEntry(entry.id)).toBe(true);
+    expect(labels().slice(start)).toEqual(['Import puzzle', 'Cross R1C1', 'Star R1C1']);
+    expect(store.historyIndex).toBe(start + 1);
+    expect(store.puzzle.cells[0][0]).toBe('cross');
+  });
+
+  it('keeps undone steps on their branch and saves every branch', async () => {
+    importBoard();
+    const entry = await addCurrentPuzzleToLibrary({ name: 'Branches' });
+    handleCellClickPlay({ row: 0, col: 0 });
+    const main = store.historyTree.branch;
+    undo();
+    handleCellClickPlay({ row: 1, col: 1 });
+    const whatIf = store.historyTree.branch;
+    expect(whatIf).not.toBe(main);
+    renameBranch(whatIf, 'What if R2C2');
+
+    switchBranch(main);
+    expect(store.puzzle.cells[0][0]).toBe('cross');
+    expect(store.puzzle.cells[1][1]).toBe('empty');
+    await saveLibraryProgress();
+
+    importBoard();
+    expect(await openLibraryEntry(entry.id)).toBe(true);
+    expect(store.historyTree.branches.map((branch) => branch.name)).toContain('What if R2C2');
+    expect(store.historyTree.branch).toBe(main);
+    switchBranch(whatIf);
+    expect(store.historySteps.at(-1)?.label).toBe('Cross R2C2');
+    expect(store.puzzle.cells[1][1]).toBe('cross');
+  });
+});
@@ -0,0 +1,227 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleDef } from '../src/types/puzzle';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { createDefaultBackend, createMemoryBackend } from '../src/library/libraryBackend';
+import { builtinLibraryEntries } from '../src/library/builtinPuzzles';
+import {
+  createPuzzleLibrary,
+  filterEntries,
+  libraryEntryErrors,
+  sortEntries,
+  type LibraryEntry,
+} from '../src/library/puzzleLibrary';
+import {
+  addCurrentPuzzleToLibrary,
+  handleCellClickEditor,
+  handleCellClickPlay,
+  library,
+  openLibraryEntry,
+  removeLibraryEntry,
+  replacePuzzleFromImport,
+  saveLibraryProgress,
+  setStarsPerUnit,
+  store,
+} from '../src/store/puzzleStore';
+
+const DEF: PuzzleDef = {
+  size: 5,
+  starsPerUnit: 1,
+  regions: [
+    [0, 0, 1, 1, 1],
+    [0, 2, 2, 1, 1],
+    [0, 2, 3, 3, 1],
+    [4, 4, 3, 3, 3],
+    [4, 4, 4, 3, 3],
+  ],
+};
+
+function entry(overrides: Partial<LibraryEntry>): LibraryEntry {
+  return {
+    id: overrides.name ?? 'x',
+    name: 'x',
+    source: '',
+    author: '',
+    rating: null,
+    def: DEF,
+    addedAt: 0,
+    progress: null,
+    ...overrides,
+  };
+}
+
+describe('puzzle library', () => {
+  it('adds, updates and removes entries', async () => {
+    const lib = createPuzzleLibrary(createMemoryBackend());
+    const added = await lib.add({ name: 'Square', def: DEF, author: 'Ann' });
+    expect(added.source).toBe('');
+    expect(added.progress).toBeNull();
+
+    await lib.update(added.id, { rating: { label: 'easy', score: 4 } });
+    expect((await lib.get(added.id))?.rating).toEqual({ label: 'easy', score: 4 });
+    expect(await lib.update('missing', { name: 'y' })).toBeUndefined();
+
+    await lib.remove(added.id);
+    expect(await lib.list()).toEqual([]);
+  });
+
+  it('keeps progress until it is reset', async () => {
+    const lib = createPuzzleLibrary(createMemoryBackend());
+    const { id } = await lib.add({ name: 'Square', def: DEF });
+    const puzzle = createEmptyPuzzleState(DEF);
+    puzzle.cells[0][0] = 'star';
+    await lib.saveProgress(id, { puzzle, history: [puzzle], historyIndex: 0, stars: 1, completed: false });
+
+    const saved = await lib.get(id);
+    expect(saved?.progress?.puzzle.cells[0][0]).toBe('star');
+    expect(saved?.progress?.updatedAt).toBeGreaterThan(0);
+    // Stored entries are copies
+    puzzle.cells[0][0] = 'cross';
+    expect((await lib.get(id))?.progress?.puzzle.cells[0][0]).toBe('star');
+
+    await lib.resetProgress(id);
+    expect((await lib.get(id))?.progress).toBeNull();
+  });
+
+  it('sorts and searches entries', () => {
+    const played = { puzzle: createEmptyPuzzleState(DEF), history: [], historyIndex: 0, completed: false };
+    const entries = [
+      entry({ name: 'Puzzle 10', addedAt: 3, rating: { label: 'hard', score: 40 } }),
+      entry({ name: 'Puzzle 2', addedAt: 1, author: 'Maho', progress: { ...played, stars: 2, updatedAt: 5 } }),
+      entry({ name: 'Puzzle 1', addedAt: 2, rating: { label: 'easy', score: 3 }, progress: { ...played, stars: 1, updatedAt: 9 } }),
+    ];
+    const names = (list: LibraryEntry[]) => list.map((e) => e.name);
+
+    expect(names(sortEntries(entries, 'added'))).toEqual(['Puzzle 10', 'Puzzle 1', 'Puzzle 2']);
+    expect(names(sortEntries(entries, 'name'))).toEqual(['Puzzle 1', 'Puzzle 2', 'Puzzle 10']);
+    expect(names(sortEntries(entries, 'rating'))).toEqual(['Puzzle 1', 'Puzzle 10', 'Puzzle 2']);
+    expect(names(sortEntries(entries, 'progress'))).toEqual(['Puzzle 2', 'Puzzle 1', 'Puzzle 10']);
+    expect(names(sortEntries(entries, 'played'))).toEqual(['Puzzle 1', 'Puzzle 2', 'Puzzle 10']);
+
+    expect(names(filterEntries(entries, 'maho'))).toEqual(['Puzzle 2']);
+    expect(names(filterEntries(entries, 'puzzle easy'))).toEqual(['Puzzle 1']);
+    expect(filterEntries(entries, '5x5')).toHaveLength(3);
+    expect(filterEntries(entries, '  ')).toHaveLength(3);
+  });
+
+  it('provides the built-in puzzles in list order', async () => {
+    const builtins = builtinLibraryEntries(1000000);
+    expect(builtins.map((e) => e.id)).toEqual(builtins.map((_, index) => `builtin-${index + 1}`));
+    expect(builtins.every((e) => e.def.size === 10 && e.def.starsPerUnit === 2)).toBe(true);
+
+    const lib = createPuzzleLibrary(createMemoryBackend());
+    for (const builtin of builtins) await lib.add(builtin);
+    expect((await lib.list()).map((e) => e.name)).toEqual(builtins.map((e) => e.name));
+  });
+});
+
+// Just enough of IndexedDB for the library backend: one object store keyed by id.
+function fakeIndexedDb(stored: unknown[], open: 'opens' | 'throws' | 'fails' = 'opens'): IDBFactory {
+  const settle = <T>(result: T, error: Error | null = null) => {
+    const request = { result, error, onsuccess: null as (() => void) | null, onerror: null as (() => void) | null };
+    setTimeout(() => (error ? request.onerror?.() : request.onsuccess?.()), 0);
+    return request;
+  };
+  const idOf = (value: unknown) => (value as { id: string }).id;
+  const objectStore = {
+    getAll: () => settle([...stored]),
+    get: (id: string) => settle(stored.find((value) => idOf(value) === id)),
+    put: (entry: LibraryEntry) => {
+      stored = [...stored.filter((value) => idOf(value) !== entry.id), entry];
+      return settle(entry.id);
+    },
+    delete: (id: string) => {
+      stored = stored.filter((value) => idOf(value) !== id);
+      return settle(undefined);
+    },
+  };
+  const database = { objectStoreNames: { contains: () => true }, transaction: () => ({ objectStore: () => objectStore }) };
+  const factory = {
+    open: () => {
+      if (open === 'throws') throw new Error('The operation is insecure.');
+      return settle(database, open === 'fails' ? new Error('Blocked in private browsing.') : null);
+    },
+  };
+  return factory as unknown as IDBFactory;
+}
+
+describe('library backends', () => {
+  it('keeps entries in memory when the database does not open', async () => {
+    for (const open of ['throws', 'fails'] as const) {
+      const lib = createPuzzleLibrary(createDefaultBackend(fakeIndexedDb([], open)));
+      const added = await lib.add({ name: 'Square', def: DEF });
+      expect(await lib.get(added.id)).toEqual(added);
+      expect(await lib.list()).toEqual([added]);
+    }
+  });
+
+  it('skips entries read back from IndexedDB that are broken', async () => {
+    const good = entry({ name: 'good' });
+    const broken = { ...entry({ name: 'broken' }), def: { ...DEF, size: 'five' }, progress: { stars: 2 } };
+    const lib = createPuzzleLibrary(createDefaultBackend(fakeIndexedDb([good, broken])));
+    expect(await lib.list()).toEqual([good]);
+    expect(await lib.get('broken')).toBeUndefined();
+    expect(await lib.get('good')).toEqual(good);
+
+    expect(libraryEntryErrors(broken)).toEqual([
+      'entry.def.size: expected a whole number from 5 to 17, got "five".',
+      'entry.progress.puzzle: expected an object, got undefined.',
+      'entry.progress.updatedAt: expected a number, got undefined.',
+      'entry.progress.completed: expected true or false, got undefined.',
+    ]);
+    expect(builtinLibraryEntries().map((added) => libraryEntryErrors({ ...entry({}), ...added }))).toEqual(
+      builtinLibraryEntries().map(() => []),
+    );
+  });
+});
+
+describe('library in the store', () => {
+  it('saves progress with undo history and resumes it', async () => {
+    replacePuzzleFromImport(DEF.regions.map((row) => [...row]), createEmptyPuzzleState(DEF).cells, 1);
+    const first = await addCurrentPuzzleToLibrary({ name: 'First' });
+    expect(store.libraryEntryId).toBe(first.id);
+
+    handleCellClickPlay({ row: 0, col: 0 });
+    handleCellClickPlay({ row: 0, col: 0 });
+    await saveLibraryProgress();
+    const saved = await library.get(first.id);
+    expect(saved?.progress?.stars).toBe(1);
+    expect(libraryEntryErrors(saved)).toEqual([]);
+    const historyLength = store.history.length;
+
+    // Importing another puzzle leaves the entry; its progress stays in the library
+    replacePuzzleFromImport(DEF.regions.map((row) => [...row]), createEmptyPuzzleState(DEF).cells, 1);
+    expect(store.libraryEntryId).toBeNull();
+
+    expect(await openLibraryEntry(first.id)).toBe(true);
+    expect(store.mode).toBe('play');
+    expect(store.puzzle.cells[0][0]).toBe('star');
+    expect(store.history).toHaveLength(historyLength);
+    expect(store.historyIndex).toBe(historyLength - 1);
+
+    await removeLibraryEntry(first.id);
+    expect(store.libraryEntryId).toBeNull();
+    expect(await openLibraryEntry(first.id)).toBe(false);
+  });
+
+  it('leaves the entry before its layout is edited', async () => {
+    replacePuzzleFromImport(DEF.regions.map((row) => [...row]), createEmptyPuzzleState(DEF).cells, 1);
+    const entry = await addCurrentPuzzleToLibrary({ name: 'Layout' });
+    handleCellClickPlay({ row: 0, col: 0 });
+
+    store.editorTool = 'paint';
+    store.selectedRegionId = 3;
+    handleCellClickEditor({ row: 0, col: 0 });
+    expect(store.libraryEntryId).toBeNull();
+    await saveLibraryProgress();
+    const saved = await library.get(entry.id);
+    expect(saved?.def).toEqual(DEF);
+    expect(saved?.progress?.puzzle.def).toEqual(DEF);
+
+    expect(await openLibraryEntry(entry.id)).toBe(true);
+    expect(store.puzzle.def.regions).toEqual(DEF.regions);
+    expect(store.puzzle.cells[0][0]).toBe('cross');
+    setStarsPerUnit(2);
+    expect(store.libraryEntryId).toBeNull();
+    expect((await library.get(entry.id))?.progress?.puzzle.def.starsPerUnit).toBe(1);
+  });
+});
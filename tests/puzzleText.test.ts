@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyPuzzleState, maxStarsPerUnit } from '../src/types/puzzle';
+import { countSolutions } from '../src/logic/search';
+import { parsePuzzleString, formatPuzzleString } from '../src/logic/puzzleText';
+
+const GRID_8X8 = `0 0 0 1 1 1 2 2
+0 3 3 1 1 2 2 2
+0 3 3s 1 4 4 2 2
+3 3 3 4 4 5x 5 2
+6 6 4 4 5 5 5 7
+6 6 6 4 5 7 7 7
+6 6 6 6 7 7 7 7
+6 6 6 6 7 7 7 7`;
+
+describe('parsePuzzleString', () => {
+  it('infers the board size from the number of rows', () => {
+    const result = parsePuzzleString(GRID_8X8);
+    expect(result.error).toBeNull();
+    expect(result.regions).toHaveLength(8);
+    expect(result.regions.every((row) => row.length === 8)).toBe(true);
+    expect(result.cells[2][2]).toBe('star');
+    expect(result.cells[3][5]).toBe('cross');
+    expect(result.starsPerUnit).toBeNull();
+  });
+
+  it('reads the stars-per-unit header', () => {
+    const result = parsePuzzleString(`stars: 1\n${GRID_8X8}`);
+    expect(result.error).toBeNull();
+    expect(result.starsPerUnit).toBe(1);
+  });
+
+  it('accepts multi-digit region ids on large boards', () => {
+    const size = 12;
+    const rows = Array.from({ length: size }, (_, r) => new Array(size).fill(String(r)).join(' '));
+    const result = parsePuzzleString(rows.join('\n'));
+    expect(result.error).toBeNull();
+    expect(result.regions[11][0]).toBe(11);
+  });
+
+  it('shifts 1-based region numbering down to 0-based', () => {
+    const rows = Array.from({ length: 5 }, (_, r) => new Array(5).fill(String(r + 1)).join(' '));
+    const result = parsePuzzleString(rows.join('\n'));
+    expect(result.error).toBeNull();
+    expect(result.regions.map((row) => row[0])).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  it('rejects sizes outside the supported range and ragged rows', () => {
+    expect(parsePuzzleString('0 0 0\n0 0 0\n0 0 0').error).toMatch(/between 5 and 17/);
+    expect(parsePuzzleString(GRID_8X8.replace('0 0 0 1 1 1 2 2', '0 0 0 1 1 1 2')).error).toMatch(
+      /Row 1 has 7 entries, expected 8/,
+    );
+  });
+
+  it('rejects region ids that do not fit the board and impossible star counts', () => {
+    expect(parsePuzzleString(GRID_8X8.replace('7 7 7 7\n6', '9 7 7 7\n6')).error).toMatch(/out of range 0–7/);
+    expect(parsePuzzleString(`stars: 3\n${GRID_8X8}`).error).toMatch(/supports 1–2 stars/);
+  });
+});
+
+describe('maxStarsPerUnit', () => {
+  it('allows n stars from a 4n×4n board up', () => {
+    const bounds = [5, 7, 8, 10, 11, 12, 15, 16, 17].map((size) => [size, maxStarsPerUnit(size)]);
+    expect(bounds).toEqual([
+      [5, 1],
+      [7, 1],
+      [8, 2],
+      [10, 2],
+      [11, 2],
+      [12, 3],
+      [15, 3],
+      [16, 4],
+      [17, 4],
+    ]);
+  });
+
+  it('matches what the search can place where the 2×2 block count allows one star more', () => {
+    // One region per row, so only rows, columns and touching constrain the stars
+    const placements = (size: number, starsPerUnit: number) =>
+      countSolutions(
+        createEmptyPuzzleState({ size, starsPerUnit, regions: Array.from({ length: size }, (_, r) => Array(size).fill(r)) }),
+        { maxCount: 1, timeoutMs: 10000 },
+      );
+    for (const size of [7, 11, 15]) {
+      expect(placements(size, maxStarsPerUnit(size) + 1), `${size}×${size}`).toEqual({
+        count: 0,
+        timedOut: false,
+        cappedAtMax: false,
+      });
+    }
+    for (const size of [8, 12]) {
+      expect(placements(size, maxStarsPerUnit(size)).count, `${size}×${size}`).toBe(1);
+    }
+  });
+
+  it('rejects star counts one above the bound in text', () => {
+    const rows = (size: number) => Array.from({ length: size }, () => new Array(size).fill('0').join(' '));
+    expect(parsePuzzleString(['stars: 2', ...rows(10)].join('\n')).error).toBeNull();
+    expect(parsePuzzleString(['stars: 3', ...rows(10)].join('\n')).error).toMatch(/10×10 board supports 1–2 stars/);
+    expect(parsePuzzleString(['stars: 2', ...rows(6)].join('\n')).error).toMatch(/6×6 board supports 1 star per unit/);
+  });
+});
+
+describe('formatPuzzleString', () => {
+  it('round-trips a non-default board through the text format', () => {
+    const parsed = parsePuzzleString(GRID_8X8);
+    const state = createEmptyPuzzleState({ size: 8, starsPerUnit: 1, regions: parsed.regions });
+    state.cells = parsed.cells;
+
+    const text = formatPuzzleString(state);
+    expect(text.split('\n')[0]).toBe('stars: 1');
+
+    const reparsed = parsePuzzleString(text);
+    expect(reparsed.starsPerUnit).toBe(1);
+    expect(reparsed.regions).toEqual(parsed.regions);
+    expect(reparsed.cells).toEqual(parsed.cells);
+  });
+
+  it('writes the header for the default star count too', () => {
+    const parsed = parsePuzzleString(GRID_8X8);
+    const state = createEmptyPuzzleState({ size: 8, starsPerUnit: 2, regions: parsed.regions });
+
+    // Without the header, pasting this while a 1★ board is open would import it as 1★
+    const text = formatPuzzleString(state);
+    expect(text.split('\n')[0]).toBe('stars: 2');
+    expect(parsePuzzleString(text).starsPerUnit).toBe(2);
+  });
+});
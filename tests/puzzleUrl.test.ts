@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleState } from '../src/types/puzzle';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { parsePuzzleString } from '../src/logic/puzzleText';
+import { decodePuzzleLink, encodePuzzleLink } from '../src/logic/puzzleUrl';
+import { puzzles } from './puzzles';
+
+function stateOf(text: string): PuzzleState {
+  const parsed = parsePuzzleString(text);
+  return { def: { size: parsed.regions.length, starsPerUnit: 2, regions: parsed.regions }, cells: parsed.cells };
+}
+
+describe('puzzle links', () => {
+  it('round-trips layouts and marks', () => {
+    for (const text of puzzles) {
+      const state = stateOf(text);
+      const decoded = decodePuzzleLink(`#${encodePuzzleLink(state)}`);
+      expect(decoded).toEqual({ regions: state.def.regions, cells: state.cells, starsPerUnit: 2, error: null });
+    }
+  });
+
+  it('writes one digit per region cell and three marks per digit', () => {
+    const state = createEmptyPuzzleState({
+      size: 17,
+      starsPerUnit: 4,
+      regions: Array.from({ length: 17 }, () => Array.from({ length: 17 }, (_, c) => c)),
+    });
+    expect(encodePuzzleLink(state)).toBe(`size=17&stars=4&regions=${'0123456789abcdefg'.repeat(17)}`);
+
+    state.cells[0][0] = 'star';
+    state.cells[0][2] = 'cross';
+    state.cells[0][5] = 'star';
+    // star, empty, cross → 2·9 + 0 + 1 = 19 → "j"; empty, empty, star → 2
+    expect(encodePuzzleLink(state)).toMatch(/&marks=j2$/);
+    expect(encodePuzzleLink(state, { includeMarks: false })).not.toMatch(/marks/);
+    expect(decodePuzzleLink(encodePuzzleLink(state))?.cells).toEqual(state.cells);
+  });
+
+  it('ignores fragments without a puzzle and explains broken links', () => {
+    expect(decodePuzzleLink('')).toBeNull();
+    expect(decodePuzzleLink('#section')).toBeNull();
+    expect(decodePuzzleLink('size=5&regions=0000')?.error).toBe(
+      'The link has 4 region cells, expected 25 for a 5×5 board.',
+    );
+    expect(decodePuzzleLink(`size=5&stars=4&regions=${'0'.repeat(25)}`)?.error).toBe(
+      'A 5×5 board supports 1 star per unit, got 4.',
+    );
+    expect(decodePuzzleLink(`size=5&regions=${'0'.repeat(24)}5`)?.error).toBe(
+      'Region "5" at row 5, col 5 is out of range for a 5×5 board.',
+    );
+    expect(decodePuzzleLink(`size=5&regions=${'0'.repeat(25)}&marks=z`)?.error).toBe(
+      'The link\'s marks contain an invalid character "z".',
+    );
+  });
+
+  it('infers the size and leaves the star count to the caller when they are missing', () => {
+    const decoded = decodePuzzleLink(`regions=${'01234'.repeat(5)}`);
+    expect(decoded?.error).toBeNull();
+    expect(decoded?.regions).toHaveLength(5);
+    expect(decoded?.starsPerUnit).toBeNull();
+  });
+});
@@ -1,22 +1,35 @@
-export const puzzles = [
-    `7x 7x 7x 9s 6x 6s 6x 6x 6x 6x
-7x 7s 7x 9x 6x 6x 6x 6s 6x 6x
-7x 7x 9x 9x 9s 6x 6x 6x 6x 5s
-7s 7x 3s 3x 1x 1x 6x 6x 5x 5x
-3x 3x 3x 3x 1s 1x 1s 1x 5x 5x
-3x 3s 3x 3x 1x 1x 4x 5x 5s 5x
-0x 0x 0x 2s 2x 2x 4s 4x 5x 5x
-0s 0x 0x 2x 2x 2x 4x 4x 4s 5x
-0x 0x 0s 0x 2x 2s 4x 8x 8x 8x
-0x 0x 0x 0x 2x 2x 4x 8s 8x 8s`,
-    `6s 4x 4s 4x 1x 1x 1x 1x 0x 0x
-6x 6x 9x 8x 8s 1x 1s 1x 0x 0x
-6s 6x 9s 8x 5x 5x 3x 3x 0x 0x
-6x 7x 7x 7x 5s 5x 3x 3x 0s 0x
-6x 7s 7x 7x 0x 0x 3s 4x 4x 4x
-6x 6x 6x 0s 0x 0x 4x 4x 5s 5x
-3x 3s 3x 9x 9x 9s 4x 4x 1x 5x
-3x 3x 3x 7x 8x 8x 2x 4s 1x 1s
-3x 3x 3x 7s 8x 8s 2x 2x 2x 2x
-3x 3x 3x 2x 2x 2x 2x 2s 2x 2s`
-];
\ No newline at end of file
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { loadCollectionFile } from '../src/cli/collectionFile';
+import { solutionState } from '../src/library/puzzleCollection';
+import { formatPuzzleString, parsePuzzleString } from '../src/logic/puzzleText';
+import type { CellState, PuzzleState } from '../src/types/puzzle';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+
+/**
+ * Solved boards from puzzles.json, in the token format (`3s 4x …`) with a
+ * star or cross on every cell, as the solver tests have always read them.
+ */
+const collection = loadCollectionFile(join(dirname(fileURLToPath(import.meta.url)), 'puzzles.json'));
+
+export const puzzles = collection.puzzles.map((puzzle) => formatPuzzleString(solutionState(puzzle)!));
+
+/** The empty board of one of `puzzles` and its solved cells. */
+export function solutionOf(text: string): { empty: PuzzleState; solution: CellState[][] } {
+  const parsed = parsePuzzleString(text);
+  return {
+    empty: createEmptyPuzzleState({ size: 10, starsPerUnit: 2, regions: parsed.regions }),
+    solution: parsed.cells,
+  };
+}
+
+/** `empty` with marks drawn one row per line: `*` star, `x` cross, `.` empty. */
+export function withMarks(empty: PuzzleState, marks: string): PuzzleState {
+  return {
+    def: empty.def,
+    cells: marks
+      .trim()
+      .split('\n')
+      .map((row) => [...row].map((mark): CellState => (mark === '*' ? 'star' : mark === 'x' ? 'cross' : 'empty'))),
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleDef } from '../src/types/puzzle';
+import { builtinLibraryEntries } from '../src/library/builtinPuzzles';
+import { decodePzprUrl, encodePzprUrl, isPzprUrl } from '../src/logic/pzprUrl';
+
+// Region ids in order of first appearance, as the importer numbers them.
+function canonical(regions: number[][]): number[][] {
+  const ids = new Map<number, number>();
+  return regions.map((row) =>
+    row.map((id) => {
+      if (!ids.has(id)) ids.set(id, ids.size);
+      return ids.get(id)!;
+    }),
+  );
+}
+
+const STRIPES: PuzzleDef = {
+  size: 5,
+  starsPerUnit: 1,
+  regions: Array.from({ length: 5 }, (_, r) => new Array(5).fill(r)),
+};
+
+describe('puzz.link URLs', () => {
+  it('round-trips the predefined puzzles', () => {
+    for (const { name, def } of builtinLibraryEntries()) {
+      const url = encodePzprUrl(def);
+      expect(url, name).toMatch(/^https:\/\/puzz\.link\/p\?starbattle\/10\/10\/2\/[0-9a-v]{36}$/);
+      expect(decodePzprUrl(url), name).toEqual({
+        def: { ...def, regions: canonical(def.regions) },
+        error: null,
+      });
+    }
+  });
+
+  it('writes walls between columns first, then between rows', () => {
+    // No walls inside a row; a wall under every cell of the first four rows
+    expect(encodePzprUrl(STRIPES)).toBe('https://puzz.link/p?starbattle/5/5/1/0000vvvv');
+    const columns = { ...STRIPES, regions: STRIPES.regions.map((row) => row.map((_, c) => c)) };
+    expect(encodePzprUrl(columns, 'http://pzv.jp/p.html')).toBe('http://pzv.jp/p.html?starbattle/5/5/1/vvvv0000');
+  });
+
+  it('accepts editor links and other hosts', () => {
+    expect(decodePzprUrl('http://pzv.jp/p.html?starbattle_edit/5/5/1/0000vvvv').def).toEqual(STRIPES);
+    expect(isPzprUrl(' https://puzz.link/p?starbattle/5/5/1/0000vvvv\n')).toBe(true);
+    expect(isPzprUrl('0 0 1\n0 1 1')).toBe(false);
+  });
+
+  it('explains URLs it cannot use', () => {
+    expect(decodePzprUrl('https://puzz.link/p?nurikabe/5/5/abc').error).toBe('This is a "nurikabe" puzzle, not a Star Battle.');
+    expect(decodePzprUrl('https://puzz.link/p?starbattle/6/5/1/').error).toBe(
+      'Star Battle boards are square; the URL has 6×5.',
+    );
+    expect(decodePzprUrl('https://puzz.link/p?starbattle/5/5/4/0000vvvv').error).toBe(
+      'A 5×5 board supports 1 star per unit, got 4.',
+    );
+    expect(decodePzprUrl('https://puzz.link/p?starbattle/5/5/1/0000vvv0').error).toBe(
+      'The borders divide the board into 4 regions; a 5×5 Star Battle needs 5.',
+    );
+    expect(decodePzprUrl('https://puzz.link/p?starbattle/5/5/1/0000vv!v').error).toBe(
+      'The region borders contain characters outside base 32.',
+    );
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { connectedArea, floodFillRegion, swapRegionIds } from '../src/logic/regionEditing';
+
+function grid(rows: string[]): number[][] {
+  return rows.map((row) => row.split(' ').map(Number));
+}
+
+// C is split in two; (5, 0) is its stray cell.
+const LAYOUT = grid([
+  '1 1 1 1 1 1',
+  '1 0 1 1 1 1',
+  '0 0 0 3 3 4',
+  '2 2 2 3 3 4',
+  '5 5 5 5 4 4',
+  '2 5 5 5 5 4',
+]);
+
+describe('region editing', () => {
+  it('finds the connected area of a cell', () => {
+    expect(connectedArea(LAYOUT, { row: 5, col: 0 })).toEqual([{ row: 5, col: 0 }]);
+    expect(connectedArea(LAYOUT, { row: 3, col: 1 })).toHaveLength(3);
+    expect(connectedArea(LAYOUT, { row: 0, col: 0 })).toHaveLength(11);
+  });
+
+  it('flood fills only the connected part of a region', () => {
+    const filled = floodFillRegion(LAYOUT, { row: 3, col: 0 }, 5);
+    expect(filled[3]).toEqual([5, 5, 5, 3, 3, 4]);
+    expect(filled[5][0]).toBe(2);
+    expect(LAYOUT[3][0]).toBe(2);
+  });
+
+  it('swaps two region ids everywhere', () => {
+    const swapped = swapRegionIds(LAYOUT, 2, 3);
+    expect(swapped[3]).toEqual([3, 3, 3, 2, 2, 4]);
+    expect(swapped[5][0]).toBe(3);
+    expect(swapRegionIds(swapped, 2, 3)).toEqual(LAYOUT);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleDef } from '../src/types/puzzle';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { applyRegionEdits, suggestRegionRedesigns } from '../src/logic/regionRedesign';
+import { countSolutions } from '../src/logic/search';
+import type { TechniqueId } from '../src/types/hints';
+
+// "Puzzle 1" from the editor's predefined list (unique)
+const UNIQUE: PuzzleDef = {
+  size: 10,
+  starsPerUnit: 2,
+  regions: [
+    '0 0 0 1 1 1 2 2 3 3',
+    '0 0 0 1 1 1 2 2 3 3',
+    '4 4 0 0 1 2 2 2 2 3',
+    '4 0 0 0 1 2 2 3 2 3',
+    '4 0 5 0 1 7 7 3 3 3',
+    '4 0 5 1 1 7 3 3 9 3',
+    '4 5 5 5 1 7 3 8 9 3',
+    '4 4 5 5 5 5 5 8 9 9',
+    '4 4 6 6 6 5 5 8 9 9',
+    '6 6 6 5 5 5 5 8 9 9',
+  ].map((row) => row.split(' ').map(Number)),
+};
+
+// Moving (0, 5) from B to C gives the layout three solutions
+const AMBIGUOUS = applyRegionEdits(UNIQUE, [{ cell: { row: 0, col: 5 }, from: 1, to: 2 }])!;
+
+const BASICS: TechniqueId[] = ['trivial-marks', 'locked-line', 'exact-fill'];
+
+function solutionCount(def: PuzzleDef): number {
+  return countSolutions(createEmptyPuzzleState(def), { maxCount: 5 }).count;
+}
+
+describe('applyRegionEdits', () => {
+  it('rejects edits that split a region', () => {
+    // (2, 4) is the only link between region B's top rows and the cells below it
+    expect(applyRegionEdits(UNIQUE, [{ cell: { row: 2, col: 4 }, from: 1, to: 0 }])).toBeNull();
+  });
+
+  it('leaves the input layout unchanged', () => {
+    expect(AMBIGUOUS.regions[0][5]).toBe(2);
+    expect(UNIQUE.regions[0][5]).toBe(1);
+  });
+});
+
+describe('suggestRegionRedesigns', () => {
+  it('only suggests connected layouts with exactly one solution', async () => {
+    expect(solutionCount(AMBIGUOUS)).toBe(3);
+    const suggestions = await suggestRegionRedesigns(AMBIGUOUS, { enabledTechniques: BASICS });
+    expect(suggestions.length).toBeGreaterThan(0);
+    for (const suggestion of suggestions) {
+      expect(solutionCount(suggestion.def)).toBe(1);
+      expect(applyRegionEdits(AMBIGUOUS, suggestion.edits)).toEqual(suggestion.def);
+    }
+  });
+
+  it('finds the edit that undoes the damage', async () => {
+    const suggestions = await suggestRegionRedesigns(AMBIGUOUS, { maxEdits: 1, enabledTechniques: BASICS });
+    expect(suggestions.map((s) => s.edits)).toContainEqual([{ cell: { row: 0, col: 5 }, from: 2, to: 1 }]);
+    expect(suggestions.every((s) => s.edits.length === 1)).toBe(true);
+  });
+
+  it('ranks by how few techniques change', async () => {
+    const suggestions = await suggestRegionRedesigns(AMBIGUOUS, { maxSuggestions: 8, enabledTechniques: BASICS });
+    const changes = suggestions.map((s) => s.changedTechniques.length);
+    expect(changes).toEqual([...changes].sort((a, b) => a - b));
+  });
+
+  it('returns the best of every unique layout, not the first found', async () => {
+    // Moving (7, 2) to G is found before moving it to E, but changes how often Simple Shapes applies
+    const enabledTechniques: TechniqueId[] = [...BASICS, 'simple-shapes'];
+    const all = await suggestRegionRedesigns(AMBIGUOUS, { maxEdits: 1, maxSuggestions: Infinity, enabledTechniques });
+    expect(all.at(-1)?.edits).toEqual([{ cell: { row: 7, col: 2 }, from: 5, to: 6 }]);
+
+    const best = await suggestRegionRedesigns(AMBIGUOUS, { maxEdits: 1, maxSuggestions: 3, enabledTechniques });
+    expect(best.map((s) => s.edits)).toEqual(all.slice(0, 3).map((s) => s.edits));
+    expect(best.every((s) => s.changedTechniques.length === 0)).toBe(true);
+  });
+
+  it('has nothing to suggest for a unique layout', async () => {
+    expect(await suggestRegionRedesigns(UNIQUE, { enabledTechniques: BASICS })).toEqual([]);
+  });
+});
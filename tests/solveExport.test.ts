@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { generatePuzzle } from '../src/logic/generator';
+import { solveLogically } from '../src/logic/solverEngine';
+import {
+  boardDiagram,
+  buildSolveDocument,
+  solveDocumentToHtml,
+  solveDocumentToJson,
+  solveDocumentToMarkdown,
+  walkthroughText,
+} from '../src/logic/solveExport';
+
+async function solvedDocument(title?: string) {
+  const generated = generatePuzzle({ size: 6, starsPerUnit: 1, seed: 5 });
+  expect(generated).not.toBeNull();
+  const start = createEmptyPuzzleState(generated!.def);
+  const path = await solveLogically(start);
+  return { start, path, document: buildSolveDocument(start, path.steps, { title, solved: path.solved }) };
+}
+
+describe('solve path export', () => {
+  it('records the board before each step and replays to the solved board', async () => {
+    const { start, path, document } = await solvedDocument('Seed 5');
+    expect(document).toMatchObject({ format: 'star-battle-solve-path', version: 1, title: 'Seed 5', solved: true });
+    expect(document.steps).toHaveLength(path.steps.length);
+    expect(document.steps[0].before).toEqual(start.cells);
+    expect(start.cells.flat().every((cell) => cell === 'empty')).toBe(true);
+    expect(document.final).toEqual(path.state.cells);
+
+    // Each step's marks turn its board into the next step's
+    for (const [index, step] of document.steps.entries()) {
+      const after = step.before.map((row) => [...row]);
+      for (const { row, col, value } of step.results) after[row][col] = value;
+      expect(after).toEqual(document.steps[index + 1]?.before ?? document.final);
+    }
+    // Plain data only: schema hints' Map of cell types is stored as results
+    expect(JSON.parse(solveDocumentToJson(document))).toEqual(document);
+  });
+
+  it('draws a board diagram with region letters, marks and the changed cells', () => {
+    const def = {
+      size: 5,
+      starsPerUnit: 1,
+      regions: [
+        [0, 0, 1, 1, 1],
+        [0, 2, 2, 1, 1],
+        [0, 2, 3, 3, 1],
+        [4, 4, 3, 3, 3],
+        [4, 4, 4, 3, 3],
+      ],
+    };
+    const cells = createEmptyPuzzleState(def).cells;
+    cells[0][2] = 'star';
+    cells[0][3] = 'cross';
+    expect(boardDiagram(def, cells, [{ row: 0, col: 2 }])).toBe(
+      [
+        '   1  2  3  4  5',
+        '1  A  A >B* Bx B',
+        '2  A  C  C  B  B',
+        '3  A  C  D  D  B',
+        '4  E  E  D  D  D',
+        '5  E  E  E  D  D',
+      ].join('\n'),
+    );
+  });
+
+  it('counts rows and columns in explanations from 1, like the diagrams', () => {
+    expect(walkthroughText('Row 0 has its 1 star, so R1C4, R2C10 are crosses. Column 9 is full.')).toBe(
+      'Row 1 has its 1 star, so R1C4, R2C10 are crosses. Column 10 is full.',
+    );
+  });
+
+  it('writes Markdown and standalone HTML walkthroughs', async () => {
+    const { document } = await solvedDocument('<Seed 5>');
+    const markdown = solveDocumentToMarkdown(document);
+    expect(markdown).toMatch(/^# <Seed 5>\n\n6×6, 1 star per row, column and region\. Solved in \d+ steps?\./);
+    expect(markdown).toContain(`## Step 1: ${document.steps[0].techniqueName}`);
+    expect(markdown.match(/```text/g)).toHaveLength(document.steps.length + 2);
+    expect(markdown).toContain(walkthroughText(document.steps[0].explanation));
+
+    const html = solveDocumentToHtml(document);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<title>&lt;Seed 5&gt;</title>');
+    expect(html).not.toMatch(/<script|<link/);
+    expect(html.match(/<table class="board">/g)).toHaveLength(document.steps.length + 2);
+    const solution = html.slice(html.lastIndexOf('<table'));
+    expect(solution.match(/★/g)).toHaveLength(6);
+  });
+});
@@ -7,7 +7,7 @@ import {
   createEmptyPuzzleState,
 } from '../src/types/puzzle';
 import { solvePuzzle, countSolutions } from '../src/logic/search';
-import { validateState } from '../src/logic/validation';
+import { isPuzzleComplete, validateState } from '../src/logic/validation';
 import { TEST_REGIONS } from './testBoard';
 
 function getRegionIds(regions: number[][]): number[] {
@@ -217,10 +217,14 @@ describe('countSolutions', () => {
   });
 
   it('respects timeout mechanism', () => {
-    const def = makeDef();
+    // One region per row: far too many solutions to count, should timeout quickly
+    const def: PuzzleDef = {
+      size: DEFAULT_SIZE,
+      starsPerUnit: DEFAULT_STARS_PER_UNIT,
+      regions: Array.from({ length: DEFAULT_SIZE }, (_, row) => Array(DEFAULT_SIZE).fill(row)),
+    };
     const state = createEmptyPuzzleState(def);
-    
-    // Empty puzzle will have many solutions, should timeout quickly
+
     const result = countSolutions(state, { 
       timeoutMs: 10  // Very short timeout
     });
@@ -289,3 +293,27 @@ describe('countSolutions', () => {
 });
 
 
+
+describe('backtracking solver on other board sizes', () => {
+  // Row-shaped regions always admit a solution, which keeps these fixtures trivial to build.
+  function rowRegions(size: number): number[][] {
+    return Array.from({ length: size }, (_, r) => new Array(size).fill(r));
+  }
+
+  it.each([
+    [5, 1],
+    [8, 1],
+    [12, 2],
+  ])('solves a size %i board with %i star(s) per unit', (size, starsPerUnit) => {
+    const def: PuzzleDef = { size, starsPerUnit, regions: rowRegions(size) };
+
+    const solution = solvePuzzle(def);
+    expect(solution).not.toBeNull();
+    if (!solution) return;
+
+    expect(validateState(solution)).toEqual([]);
+    // The solver only places stars; the rest of the board is implied crosses.
+    solution.cells = solution.cells.map((row) => row.map((cell) => (cell === 'star' ? 'star' : 'cross')));
+    expect(isPuzzleComplete(solution)).toBe(true);
+  });
+});
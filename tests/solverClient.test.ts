@@ -0,0 +1,147 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { generatePuzzle } from '../src/logic/generator';
+import {
+  createInProcessTransport,
+  createSolverClient,
+  type SolverTransport,
+  type SolverTransportFactory,
+} from '../src/workers/solverClient';
+import type { SolverRequest, SolverResponse } from '../src/workers/solverProtocol';
+
+const generated = generatePuzzle({ size: 6, starsPerUnit: 1, seed: 5 })!;
+
+interface FakeTransport extends SolverTransport {
+  posted: SolverRequest[];
+  respond(response: SolverResponse): void;
+  terminated: boolean;
+}
+
+// Transports that never answer on their own, like a worker stuck in synchronous work.
+function fakeTransports() {
+  const created: FakeTransport[] = [];
+  const factory: SolverTransportFactory = (onResponse) => {
+    const transport: FakeTransport = {
+      posted: [],
+      terminated: false,
+      terminable: true,
+      post: (request) => transport.posted.push(request),
+      terminate: () => {
+        transport.terminated = true;
+      },
+      respond: onResponse,
+    };
+    created.push(transport);
+    return transport;
+  };
+  return { created, factory };
+}
+
+describe('solver client', () => {
+  it('reports progress and logs, then resolves with the hint', async () => {
+    const client = createSolverClient(createInProcessTransport);
+    const progress: string[] = [];
+    const logs: string[] = [];
+    const response = await client.findNextHint(createEmptyPuzzleState(generated.def), {
+      onProgress: (label) => progress.push(label),
+      logger: (entry) => logs.push(entry.message),
+    });
+    expect(response.cancelled).toBe(false);
+    expect(response.hint).not.toBeNull();
+    expect(progress[0]).toBe('Trivial Marks');
+    expect(logs).toHaveLength(1);
+    client.dispose();
+  });
+
+  it('resolves a cancelled search right away and ignores its late messages', async () => {
+    const { created, factory } = fakeTransports();
+    const client = createSolverClient(factory);
+    const onProgress = vi.fn();
+    const search = client.findNextHint(createEmptyPuzzleState(generated.def), { onProgress });
+    client.cancel();
+    expect(await search).toEqual({ hint: null, cancelled: true });
+
+    const [transport] = created;
+    expect(transport.posted.map((request) => request.type)).toEqual(['find-hint', 'cancel']);
+    transport.respond({ type: 'progress', id: transport.posted[0].id, label: 'Late' });
+    expect(onProgress).not.toHaveBeenCalled();
+    client.dispose();
+  });
+
+  it('replaces a worker that does not acknowledge a cancel and re-sends the next search', async () => {
+    vi.useFakeTimers();
+    try {
+      const { created, factory } = fakeTransports();
+      const client = createSolverClient(factory);
+      const state = createEmptyPuzzleState(generated.def);
+      void client.findNextHint(state);
+      const second = client.findNextHint(state);
+
+      vi.advanceTimersByTime(1000);
+      expect(created).toHaveLength(2);
+      expect(created[0].terminated).toBe(true);
+      const resent = created[1].posted[0];
+      expect(resent.type).toBe('find-hint');
+
+      created[1].respond({ type: 'result', id: resent.id, hint: null });
+      expect(await second).toEqual({ hint: null, cancelled: false });
+      client.dispose();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('keeps a worker that acknowledges the cancel', () => {
+    vi.useFakeTimers();
+    try {
+      const { created, factory } = fakeTransports();
+      const client = createSolverClient(factory);
+      void client.findNextHint(createEmptyPuzzleState(generated.def));
+      client.cancel();
+      created[0].respond({ type: 'cancelled', id: created[0].posted[0].id });
+      vi.advanceTimersByTime(1000);
+      expect(created).toHaveLength(1);
+      expect(created[0].terminated).toBe(false);
+      client.dispose();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('generates, rates and suggests redesigns through the host', async () => {
+    const client = createSolverClient(createInProcessTransport);
+    const generatedThere = await client.generatePuzzle({ size: 6, starsPerUnit: 1, seed: 5 });
+    expect(generatedThere.result?.def).toEqual(generated.def);
+
+    const rating = await client.ratePuzzle(generated.def);
+    expect(rating.cancelled).toBe(false);
+    expect(rating.result?.solved).toBe(true);
+
+    // Already unique, so there is nothing to suggest
+    expect(await client.suggestRegionRedesigns(generated.def, { maxEdits: 1 })).toEqual({ result: [], cancelled: false });
+    client.dispose();
+  });
+
+  it('cancels a job when its signal is aborted', async () => {
+    const { created, factory } = fakeTransports();
+    const client = createSolverClient(factory);
+    const controller = new AbortController();
+    const rating = client.ratePuzzle(generated.def, { signal: controller.signal });
+    controller.abort();
+    expect(await rating).toEqual({ result: null, cancelled: true });
+    expect(created[0].posted.map((request) => request.type)).toEqual(['rate', 'cancel']);
+
+    expect(await client.ratePuzzle(generated.def, { signal: controller.signal })).toEqual({ result: null, cancelled: true });
+    expect(created[0].posted).toHaveLength(2);
+    client.dispose();
+  });
+
+  it('passes solver errors through', async () => {
+    const { created, factory } = fakeTransports();
+    const client = createSolverClient(factory);
+    const search = client.findNextHint(createEmptyPuzzleState(generated.def));
+    created[0].respond({ type: 'error', id: created[0].posted[0].id, message: 'boom' });
+    expect(await search).toEqual({ hint: null, cancelled: false, error: 'boom' });
+    client.dispose();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyPuzzleState } from '../src/types/puzzle';
+import { findAllHints, findNextHint, solveLogically, type SolverLogEntry } from '../src/logic/solverEngine';
+import { generatePuzzle } from '../src/logic/generator';
+import { getSolveSignal, getTrialDepth, runWithSolveContext } from '../src/logic/solveContext';
+import { store } from '../src/store/puzzleStore';
+
+function generatedState() {
+  const generated = generatePuzzle({ size: 6, starsPerUnit: 1, seed: 5 });
+  expect(generated).not.toBeNull();
+  return createEmptyPuzzleState(generated!.def);
+}
+
+describe('solver engine', () => {
+  it('finds a hint with only the enabled techniques and logs it', async () => {
+    const entries: SolverLogEntry[] = [];
+    const progress: string[] = [];
+    const hint = await findNextHint(generatedState(), {
+      enabledTechniques: ['trivial-marks', 'locked-line', 'exact-fill', 'forced-placement'],
+      logger: (entry) => entries.push(entry),
+      onProgress: (label) => {
+        progress.push(label);
+      },
+    });
+    expect(hint).not.toBeNull();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].message).toMatch(/placed/);
+    expect(progress.length).toBeGreaterThan(0);
+    expect(progress.every((label) => !label.startsWith('Schema'))).toBe(true);
+  });
+
+  it('returns nothing once the signal is aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    expect(await findNextHint(generatedState(), { signal: controller.signal })).toBeNull();
+    expect(await findAllHints(generatedState(), { signal: controller.signal })).toEqual([]);
+  });
+
+  it('keeps each search its own context when searches overlap', async () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const seen: string[] = [];
+    const search = (name: string, signal: AbortSignal, trialDepth: number) =>
+      runWithSolveContext({ signal, onProgress: null, trialDepth }, async () => {
+        for (let step = 0; step < 3; step += 1) {
+          expect(getSolveSignal()).toBe(signal);
+          expect(getTrialDepth()).toBe(trialDepth);
+          seen.push(`${name}${step}`);
+          await new Promise((resolve) => setTimeout(resolve, 1));
+        }
+        return name;
+      });
+
+    // The first search is still running when the second one is started
+    const results = Promise.all([search('a', first.signal, 2), search('b', second.signal, 5)]);
+    expect(await results).toEqual(['a', 'b']);
+    expect(seen).toEqual(['a0', 'a1', 'a2', 'b0', 'b1', 'b2']);
+    expect(getSolveSignal()).toBeNull();
+  });
+
+  it('starts the next search after one that fails', async () => {
+    const failing = runWithSolveContext({ signal: null, onProgress: null }, async () => {
+      throw new Error('broken technique');
+    });
+    await expect(failing).rejects.toThrow('broken technique');
+    const signal = new AbortController().signal;
+    expect(await runWithSolveContext({ signal, onProgress: null }, async () => getSolveSignal())).toBe(signal);
+  });
+
+  it('collects a hint from each technique that finds one', async () => {
+    const hints = await findAllHints(generatedState(), {
+      enabledTechniques: ['trivial-marks', 'locked-line', 'exact-fill', 'squeeze', 'undercounting'],
+    });
+    expect(hints.length).toBeGreaterThan(0);
+    const techniques = hints.map((found) => found.technique);
+    expect(new Set(techniques).size).toBe(techniques.length);
+  });
+
+  it('solves a puzzle logically without touching the input or the store', async () => {
+    const start = generatedState();
+    const entries: SolverLogEntry[] = [];
+    const logCount = store.logEntries.length;
+    const path = await solveLogically(start, { logger: (entry) => entries.push(entry) });
+
+    expect(path.solved).toBe(true);
+    expect(path.aborted).toBe(false);
+    expect(path.steps.length).toBeGreaterThan(0);
+    expect(start.cells.flat().every((cell) => cell === 'empty')).toBe(true);
+    expect(entries[entries.length - 1].message).toMatch(/^Solved puzzle in/);
+    expect(store.logEntries).toHaveLength(logCount);
+    expect(store.isThinking).toBe(false);
+  });
+});
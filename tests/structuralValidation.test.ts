@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleDef } from '../src/types/puzzle';
+import { validateStructure } from '../src/logic/validation';
+import { floodFillRegion } from '../src/logic/regionEditing';
+
+function grid(rows: string[]): number[][] {
+  return rows.map((row) => row.split(' ').map(Number));
+}
+
+// A is a T whose top cell blocks a row-major greedy pick, C is split in two
+// and D is a 2×2 block, which holds only one star.
+const LAYOUT = grid([
+  '1 1 1 1 1 1',
+  '1 0 1 1 1 1',
+  '0 0 0 3 3 4',
+  '2 2 2 3 3 4',
+  '5 5 5 5 4 4',
+  '2 5 5 5 5 4',
+]);
+
+// A, B and C share row 0, and rows 4–5 belong to D alone.
+const CROWDED = grid([
+  '0 0 1 1 2 2',
+  '3 3 3 3 3 3',
+  '3 4 4 4 4 3',
+  '3 5 5 5 5 3',
+  '3 3 3 3 3 3',
+  '3 3 3 3 3 3',
+]);
+
+describe('validateStructure', () => {
+  it('flags split regions and regions without room for their stars', () => {
+    const def: PuzzleDef = { size: 6, starsPerUnit: 2, regions: LAYOUT };
+    const issues = validateStructure(def);
+    expect(issues.map(({ kind, severity, message, regionId }) => ({ kind, severity, message, regionId }))).toEqual([
+      { kind: 'disconnected', severity: 'warning', message: 'Region C is split into 2 separate parts.', regionId: 2 },
+      {
+        kind: 'too-small',
+        severity: 'error',
+        message: 'Region D has room for only 1 non-touching star but needs 2.',
+        regionId: 3,
+      },
+    ]);
+    // The stray part of C, and all of D
+    expect(issues[0].cells).toEqual([{ row: 5, col: 0 }]);
+    expect(issues[1].cells).toHaveLength(4);
+  });
+
+  it('accepts every region with one star per unit', () => {
+    const def: PuzzleDef = { size: 6, starsPerUnit: 1, regions: floodFillRegion(LAYOUT, { row: 5, col: 0 }, 5) };
+    expect(validateStructure(def)).toEqual([]);
+  });
+
+  it('proves bands of rows unsolvable by counting', () => {
+    const issues = validateStructure({ size: 6, starsPerUnit: 1, regions: CROWDED });
+    expect(issues.map((issue) => issue.message)).toEqual([
+      'Regions A, B, and C lie entirely within Row 0, so they need 3 stars where only 1 fits.',
+      'Rows 4–5 only touch region D, so they get at most 1 star but need 2.',
+      'Rows 1–4 only touch regions D, E, and F, so they get at most 3 stars but need 4.',
+    ]);
+    expect(issues.every((issue) => issue.kind === 'infeasible' && issue.severity === 'error')).toBe(true);
+    expect(issues[0].cells).toHaveLength(6);
+    expect(issues[1].cells).toHaveLength(12);
+  });
+
+  it('checks columns the same way', () => {
+    const transposed = CROWDED.map((row, r) => row.map((_, c) => CROWDED[c][r]));
+    const issues = validateStructure({ size: 6, starsPerUnit: 1, regions: transposed });
+    expect(issues[0].message).toBe('Regions A, B, and C lie entirely within Column 0, so they need 3 stars where only 1 fits.');
+    expect(issues[1].cells).toContainEqual({ row: 0, col: 5 });
+  });
+
+  it('reports bad ids and a wrong region count before counting', () => {
+    const issues = validateStructure({ size: 3, starsPerUnit: 1, regions: grid(['0 0 1', '0 0 0', '0 0 7']) });
+    expect(issues).toEqual([
+      {
+        kind: 'invalid-id',
+        severity: 'error',
+        message: 'Cell (2, 2) has invalid region id 7; expected 0–2 (A–C).',
+        cells: [{ row: 2, col: 2 }],
+      },
+      {
+        kind: 'region-count',
+        severity: 'error',
+        message: 'The board has 2 regions but a 3×3 board needs 3 (missing: C).',
+        cells: [],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createEmptyPuzzleDef, createEmptyPuzzleState } from '../src/types/puzzle';
+import { isTechniqueApplicable, techniquesInOrder } from '../src/logic/techniques';
+import { isNRooksApplicable, findNRooksResult } from '../src/logic/techniques/nRooks';
+import { isSimpleShapesApplicable } from '../src/logic/techniques/simpleShapes';
+import { findCrossPressureHint } from '../src/logic/techniques/crossPressure';
+
+describe('technique applicability', () => {
+  it('N-Rooks applies only when size/2 = 2·stars + 1', () => {
+    expect(isNRooksApplicable(createEmptyPuzzleDef(6, 1))).toBe(true);
+    expect(isNRooksApplicable(createEmptyPuzzleDef(10, 2))).toBe(true);
+    expect(isNRooksApplicable(createEmptyPuzzleDef(14, 3))).toBe(true);
+    expect(isNRooksApplicable(createEmptyPuzzleDef(8, 2))).toBe(false);
+    expect(isNRooksApplicable(createEmptyPuzzleDef(10, 1))).toBe(false);
+    expect(isNRooksApplicable(createEmptyPuzzleDef(9, 2))).toBe(false);
+  });
+
+  it('N-Rooks returns nothing on boards it does not apply to', () => {
+    const state = createEmptyPuzzleState(createEmptyPuzzleDef(8, 2));
+    expect(findNRooksResult(state)).toEqual({ type: 'none' });
+  });
+
+  it('simple shapes apply to any 2★ board', () => {
+    expect(isSimpleShapesApplicable(createEmptyPuzzleDef(8, 2))).toBe(true);
+    expect(isSimpleShapesApplicable(createEmptyPuzzleDef(12, 2))).toBe(true);
+    expect(isSimpleShapesApplicable(createEmptyPuzzleDef(10, 1))).toBe(false);
+  });
+
+  it('treats techniques without a predicate as applicable everywhere', () => {
+    const def = createEmptyPuzzleDef(5, 1);
+    const unrestricted = techniquesInOrder.filter((tech) => !tech.isApplicable);
+    expect(unrestricted.length).toBeGreaterThan(0);
+    for (const tech of unrestricted) {
+      expect(isTechniqueApplicable(tech, def)).toBe(true);
+    }
+  });
+});
+
+describe('count-based techniques on other board sizes', () => {
+  it('cross pressure uses stars still needed rather than a fixed cross count', () => {
+    // 8×8 1★: row 3 has crosses everywhere except two adjacent cells.
+    const state = createEmptyPuzzleState(createEmptyPuzzleDef(8, 1));
+    for (let c = 0; c < 8; c += 1) {
+      if (c !== 3 && c !== 4) state.cells[3][c] = 'cross';
+    }
+
+    const hint = findCrossPressureHint(state);
+    expect(hint).not.toBeNull();
+    expect(hint!.kind).toBe('place-cross');
+    expect(hint!.resultCells).toEqual(
+      expect.arrayContaining([
+        { row: 2, col: 3 },
+        { row: 2, col: 4 },
+        { row: 4, col: 3 },
+        { row: 4, col: 4 },
+      ]),
+    );
+  });
+});
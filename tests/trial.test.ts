@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleState } from '../src/types/puzzle';
+import { findTrialHint } from '../src/logic/techniques/trial';
+import { findAllHints } from '../src/logic/solverEngine';
+import { puzzles, solutionOf, withMarks } from './puzzles';
+
+// Puzzle 2 part-way through: the shortest contradiction needs two basic steps.
+const MARKS = `
+.x.xxxxx.x
+xxxx.x*x..
+*x.xxxxxxx
+xxxx*xxx..
+x.xxxx*xxx
+xxx*xxxx*x
+x*xxx*xxxx
+xxxxxxx.x.
+xxx*x.xxxx
+xxxxxxx*x*`;
+
+function twoStepState(): PuzzleState {
+  return withMarks(solutionOf(puzzles[1]).empty, MARKS);
+}
+
+describe('trial technique', () => {
+  it('only rules out cells that are crosses in the solution', () => {
+    for (const text of puzzles) {
+      const { empty, solution } = solutionOf(text);
+      const state = { def: empty.def, cells: empty.cells.map((row) => [...row]) };
+      for (let i = 0; i < 10; i++) {
+        const hint = findTrialHint(state);
+        if (!hint) break;
+        expect(hint.kind).toBe('place-cross');
+        const [cell] = hint.resultCells;
+        expect(solution[cell.row][cell.col]).toBe('cross');
+        state.cells[cell.row][cell.col] = 'cross';
+      }
+    }
+  });
+
+  it('lists the assumption, each step and the contradiction', () => {
+    const hint = findTrialHint(twoStepState());
+    expect(hint).not.toBeNull();
+    expect(hint!.resultCells).toEqual([{ row: 1, col: 8 }]);
+    expect(hint!.details).toEqual([
+      'Assume R2C9 is a star.',
+      '1. Trivial marks: the star at R2C9 rules out R1C9, R2C10.',
+      '2. Trivial marks: Row 1 has its 2 stars, so R2C5 is a cross.',
+      'Contradiction: Column 4 would still need 1 star but have only 0 empty cells left.',
+    ]);
+    expect(hint!.highlights?.cols).toEqual([4]);
+  });
+
+  it('gives no hint on a board that contradicts itself before any assumption', () => {
+    const state = solutionOf(puzzles[0]).empty;
+    state.cells[0] = state.cells[0].map(() => 'cross');
+    expect(findTrialHint(state)).toBeNull();
+  });
+
+  it('gives up on chains longer than the depth limit', () => {
+    expect(findTrialHint(twoStepState(), 1)).toBeNull();
+    expect(findTrialHint(twoStepState(), 2)).not.toBeNull();
+  });
+
+  it('takes the depth limit from the solver engine options', async () => {
+    const shallow = await findAllHints(twoStepState(), { enabledTechniques: ['trial'], trialDepth: 1 });
+    expect(shallow).toEqual([]);
+    const deep = await findAllHints(twoStepState(), { enabledTechniques: ['trial'], trialDepth: 2 });
+    expect(deep.map((step) => step.hint.resultCells)).toEqual([[{ row: 1, col: 8 }]]);
+  });
+});
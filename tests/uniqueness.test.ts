@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import type { PuzzleDef } from '../src/types/puzzle';
+import { checkUniqueness, diffSolutions } from '../src/logic/uniqueness';
+
+// "Puzzle 1" from the editor's predefined list
+const UNIQUE_LAYOUT = [
+  '0 0 0 1 1 1 2 2 3 3',
+  '0 0 0 1 1 1 2 2 3 3',
+  '4 4 0 0 1 2 2 2 2 3',
+  '4 0 0 0 1 2 2 3 2 3',
+  '4 0 5 0 1 7 7 3 3 3',
+  '4 0 5 1 1 7 3 3 9 3',
+  '4 5 5 5 1 7 3 8 9 3',
+  '4 4 5 5 5 5 5 8 9 9',
+  '4 4 6 6 6 5 5 8 9 9',
+  '6 6 6 5 5 5 5 8 9 9',
+];
+
+function defOf(rows: string[], starsPerUnit: number): PuzzleDef {
+  return {
+    size: rows.length,
+    starsPerUnit,
+    regions: rows.map((row) => row.split(' ').map(Number)),
+  };
+}
+
+describe('checkUniqueness', () => {
+  it('confirms a published puzzle has one solution', async () => {
+    const result = await checkUniqueness(defOf(UNIQUE_LAYOUT, 2));
+    expect(result.status).toBe('unique');
+    expect(result.solutions).toHaveLength(1);
+    expect(result.diff).toBeNull();
+  });
+
+  it('reports two differing solutions when there are several', async () => {
+    // Regions equal to rows leave every column placement open
+    const def = defOf(['0 0 0 0 0', '1 1 1 1 1', '2 2 2 2 2', '3 3 3 3 3', '4 4 4 4 4'], 1);
+    const result = await checkUniqueness(def);
+    expect(result.status).toBe('multiple');
+    expect(result.solutions).toHaveLength(2);
+    expect(result.diff).toEqual(diffSolutions(result.solutions[0], result.solutions[1]));
+    expect(result.diff!.first.length).toBeGreaterThan(0);
+    expect(result.diff!.first.length).toBe(result.diff!.second.length);
+  });
+
+  it('reports layouts without a solution', async () => {
+    // The one-cell regions A and B touch diagonally
+    const def = defOf(['0 2 2 2 2', '2 1 2 2 2', '3 3 3 3 3', '4 4 4 4 4', '4 4 4 4 4'], 1);
+    const result = await checkUniqueness(def);
+    expect(result.status).toBe('none');
+    expect(result.solutions).toEqual([]);
+  });
+
+  it('reports a cancelled search as unknown', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    const result = await checkUniqueness(defOf(UNIQUE_LAYOUT, 2), { signal: controller.signal });
+    expect(result.status).toBe('unknown');
+  });
+});
+
+describe('diffSolutions', () => {
+  it('lists the stars each solution has that the other lacks', () => {
+    const a = [
+      ['star', 'cross'],
+      ['cross', 'cross'],
+    ] as const;
+    const b = [
+      ['cross', 'star'],
+      ['cross', 'cross'],
+    ] as const;
+    expect(diffSolutions(a.map((row) => [...row]), b.map((row) => [...row]))).toEqual({
+      first: [{ row: 0, col: 0 }],
+      second: [{ row: 0, col: 1 }],
+    });
+  });
+});